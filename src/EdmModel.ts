@@ -0,0 +1,604 @@
+/**
+ * A reference to a type, as declared by a property
+ * @example
+ * // <Property Name="Tags" Type="Collection(Edm.String)" />
+ * const ref: EdmTypeReference = { type: "Edm.String", collection: true, nullable: true };
+ */
+export type EdmTypeReference = {
+    /**
+     * The namespace-qualified type name, e.g. `Edm.String` or `Sales.Order`
+     */
+    type: string;
+    collection: boolean;
+    nullable: boolean;
+};
+
+/**
+ * A structural or navigation property of an entity or complex type
+ */
+export type EdmProperty = EdmTypeReference & {
+    name: string;
+    navigation: boolean;
+};
+
+/**
+ * An entity type or complex type
+ */
+export type EdmStructuredType = {
+    kind: "EntityType" | "ComplexType";
+    name: string;
+    baseType?: string;
+    /**
+     * Open types accept dynamic properties that are not declared
+     */
+    open: boolean;
+    properties: Record<string, EdmProperty>;
+};
+
+/**
+ * An enumeration type and its members
+ */
+export type EdmEnumType = {
+    kind: "EnumType";
+    name: string;
+    flags: boolean;
+    members: Record<string, number>;
+};
+
+/**
+ * A type definition, a named alias of a primitive type
+ */
+export type EdmTypeDefinition = {
+    kind: "TypeDefinition";
+    name: string;
+    underlyingType: string;
+};
+
+/**
+ * A type declared in a schema
+ */
+export type EdmSchemaType = EdmStructuredType | EdmEnumType | EdmTypeDefinition;
+
+/**
+ * An element of a parsed XML document
+ */
+type XmlElement = {
+    name: string;
+    attributes: Record<string, string>;
+    children: XmlElement[];
+};
+
+const XML_TOKEN =
+    /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[[\s\S]*?\]\]>|<!DOCTYPE[^>]*>|<(\/?)([\w.:-]+)((?:\s+[\w.:-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+const XML_ATTRIBUTE = /([\w.:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+const XML_ENTITIES: Record<string, string> = {
+    amp: "&",
+    apos: "'",
+    gt: ">",
+    lt: "<",
+    quot: '"',
+};
+const COLLECTION_TYPE = /^Collection\((.+)\)$/;
+
+/**
+ * Reads the elements of an XML document; text content is ignored, as CSDL keeps its data in attributes
+ * @param xml The XML text
+ * @returns The root element, with namespace prefixes removed from element names
+ * @throws Error if the elements are not properly nested
+ */
+function parseXML(xml: string): XmlElement {
+    const root: XmlElement = { name: "", attributes: {}, children: [] };
+    const stack = [root];
+
+    for (const [
+        token,
+        closing,
+        name,
+        attributes = "",
+        selfClosing,
+    ] of xml.matchAll(XML_TOKEN)) {
+        if (!name) {
+            continue;
+        }
+
+        const localName = name.slice(name.indexOf(":") + 1);
+        const parent = stack[stack.length - 1] as XmlElement;
+
+        if (closing) {
+            if (parent.name !== localName || stack.length === 1) {
+                throw new Error(`Invalid CSDL XML: unexpected '${token}'`);
+            }
+
+            stack.pop();
+            continue;
+        }
+
+        const element: XmlElement = {
+            name: localName,
+            attributes: {},
+            children: [],
+        };
+
+        for (const [, key, double, single] of attributes.matchAll(
+            XML_ATTRIBUTE
+        )) {
+            element.attributes[key as string] = (
+                double ??
+                single ??
+                ""
+            ).replace(
+                /&(amp|apos|gt|lt|quot|#x?[0-9a-fA-F]+);/g,
+                (entity, code: string) =>
+                    XML_ENTITIES[code] ??
+                    String.fromCodePoint(
+                        code.startsWith("#x")
+                            ? parseInt(code.slice(2), 16)
+                            : Number(code.slice(1))
+                    )
+            );
+        }
+
+        parent.children.push(element);
+
+        if (!selfClosing) {
+            stack.push(element);
+        }
+    }
+
+    if (stack.length !== 1) {
+        throw new Error(
+            `Invalid CSDL XML: '${stack[stack.length - 1]?.name}' is not closed`
+        );
+    }
+
+    if (!root.children.length) {
+        throw new Error("Invalid CSDL XML: no elements found");
+    }
+
+    return root;
+}
+
+/**
+ * Finds all descendants of an element with a name
+ */
+function descendants(element: XmlElement, name: string): XmlElement[] {
+    return element.children.flatMap((child) =>
+        child.name === name ? [child] : descendants(child, name)
+    );
+}
+
+/**
+ * Checks whether a JSON value is an object, as opposed to an array or a primitive
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Returns a JSON value if it is a string
+ */
+function stringOf(value: unknown): string | undefined {
+    return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Resolves type names written with a schema alias to their namespace-qualified form
+ */
+class TypeNames {
+    private aliases = new Map<string, string>();
+
+    alias(alias: string | undefined, namespace: string) {
+        if (alias) {
+            this.aliases.set(alias, namespace);
+        }
+    }
+
+    /**
+     * Qualifies a type name
+     * @example
+     * names.qualify("self.Order") // "Sales.Order", when 'self' is the alias of 'Sales'
+     */
+    qualify(name: string): string {
+        const separator = name.lastIndexOf(".");
+        const namespace = name.slice(0, separator);
+
+        return separator > 0 && this.aliases.has(namespace)
+            ? `${this.aliases.get(namespace)}${name.slice(separator)}`
+            : name;
+    }
+
+    /**
+     * Parses a type reference such as `Collection(self.Order)`
+     */
+    reference(type: string, nullable: boolean): EdmTypeReference {
+        const match = type.match(COLLECTION_TYPE);
+
+        return {
+            type: this.qualify(match ? (match[1] as string) : type),
+            collection: !!match,
+            nullable,
+        };
+    }
+}
+
+/**
+ * An entity model read from an OData `$metadata` document (CSDL), in XML or JSON format.
+ * Type names are namespace-qualified; schema aliases are resolved when the document is read.
+ *
+ * @author Keven Leone
+ * @example
+ * const model = EdmModel.parse(await (await fetch("https://api.example.com/$metadata")).text());
+ *
+ * model.getProperty("Sales.Customer", "Name"); // { name: "Name", type: "Edm.String", ... }
+ * model.getEntityType("Customers")?.name; // "Sales.Customer"
+ */
+export class EdmModel {
+    private constructor(
+        /**
+         * The declared types, by qualified name
+         */
+        readonly types: Record<string, EdmSchemaType>,
+        /**
+         * The entity type of each entity set and singleton, by name
+         */
+        readonly entitySets: Record<string, string>
+    ) {}
+
+    /**
+     * Reads a `$metadata` document, detecting whether it is XML or JSON
+     * @param metadata The CSDL document
+     * @returns The entity model
+     * @throws Error if the document is not valid CSDL
+     */
+    static parse(metadata: string): EdmModel {
+        return metadata.trimStart().startsWith("<")
+            ? this.fromXML(metadata)
+            : this.fromJSON(metadata);
+    }
+
+    /**
+     * Reads a `$metadata` file in XML or JSON format
+     * @param path The file path
+     * @returns The entity model
+     * @throws Error if the file cannot be read or is not valid CSDL
+     * @example
+     * const model = await EdmModel.fromFile("./metadata.xml");
+     */
+    static async fromFile(path: string): Promise<EdmModel> {
+        const { readFile } = await import("node:fs/promises");
+
+        return this.parse(await readFile(path, "utf8"));
+    }
+
+    /**
+     * Reads a CSDL XML document
+     * @param xml The document text
+     * @returns The entity model
+     * @throws Error if the document is not valid CSDL XML
+     * @example
+     * const model = EdmModel.fromXML(`
+     *   <edmx:Edmx Version="4.0" xmlns:edmx="http://docs.oasis-open.org/odata/ns/edmx">
+     *     <edmx:DataServices>
+     *       <Schema Namespace="Sales" xmlns="http://docs.oasis-open.org/odata/ns/edm">
+     *         <EntityType Name="Customer">
+     *           <Property Name="Name" Type="Edm.String" />
+     *         </EntityType>
+     *       </Schema>
+     *     </edmx:DataServices>
+     *   </edmx:Edmx>`);
+     */
+    static fromXML(xml: string): EdmModel {
+        const schemas = descendants(parseXML(xml), "Schema");
+        const names = new TypeNames();
+        const types: Record<string, EdmSchemaType> = {};
+        const entitySets: Record<string, string> = {};
+
+        if (!schemas.length) {
+            throw new Error("Invalid CSDL XML: no Schema element found");
+        }
+
+        schemas.forEach(({ attributes }) =>
+            names.alias(attributes.Alias, attributes.Namespace as string)
+        );
+
+        for (const schema of schemas) {
+            const namespace = schema.attributes.Namespace;
+
+            if (!namespace) {
+                throw new Error("Invalid CSDL XML: Schema without a Namespace");
+            }
+
+            for (const {
+                name: kind,
+                attributes,
+                children,
+            } of schema.children) {
+                const name = `${namespace}.${attributes.Name}`;
+
+                switch (kind) {
+                    case "EntityType":
+                    case "ComplexType":
+                        types[name] = {
+                            kind,
+                            name,
+                            baseType:
+                                attributes.BaseType &&
+                                names.qualify(attributes.BaseType),
+                            open: attributes.OpenType === "true",
+                            properties: Object.fromEntries(
+                                children
+                                    .filter(
+                                        (child) =>
+                                            child.name === "Property" ||
+                                            child.name === "NavigationProperty"
+                                    )
+                                    .map((child) => [
+                                        child.attributes.Name,
+                                        {
+                                            name: child.attributes
+                                                .Name as string,
+                                            navigation:
+                                                child.name ===
+                                                "NavigationProperty",
+                                            ...names.reference(
+                                                child.attributes.Type ??
+                                                    "Edm.String",
+                                                child.attributes.Nullable !==
+                                                    "false"
+                                            ),
+                                        },
+                                    ])
+                            ),
+                        };
+                        break;
+
+                    case "EnumType": {
+                        let next = 0;
+
+                        types[name] = {
+                            kind,
+                            name,
+                            flags: attributes.IsFlags === "true",
+                            members: Object.fromEntries(
+                                children
+                                    .filter((child) => child.name === "Member")
+                                    .map(({ attributes: member }) => {
+                                        const value =
+                                            member.Value === undefined
+                                                ? next
+                                                : Number(member.Value);
+
+                                        next = value + 1;
+
+                                        return [member.Name, value];
+                                    })
+                            ),
+                        };
+                        break;
+                    }
+
+                    case "TypeDefinition":
+                        types[name] = {
+                            kind,
+                            name,
+                            underlyingType: attributes.UnderlyingType as string,
+                        };
+                        break;
+
+                    case "EntityContainer":
+                        for (const {
+                            name: member,
+                            attributes: set,
+                        } of children) {
+                            if (
+                                member === "EntitySet" ||
+                                member === "Singleton"
+                            ) {
+                                entitySets[set.Name as string] = names.qualify(
+                                    (set.EntityType ?? set.Type) as string
+                                );
+                            }
+                        }
+                        break;
+                }
+            }
+        }
+
+        return new EdmModel(types, entitySets);
+    }
+
+    /**
+     * Reads a CSDL JSON document
+     * @param json The document text, or the parsed document
+     * @returns The entity model
+     * @throws Error if the document is not valid CSDL JSON
+     * @example
+     * const model = EdmModel.fromJSON({
+     *   $Version: "4.01",
+     *   Sales: {
+     *     Customer: { $Kind: "EntityType", Name: {}, Orders: { $Kind: "NavigationProperty", $Type: "Sales.Order", $Collection: true } },
+     *   },
+     * });
+     */
+    static fromJSON(json: string | Record<string, unknown>): EdmModel {
+        let document: unknown;
+
+        try {
+            document = typeof json === "string" ? JSON.parse(json) : json;
+        } catch {
+            throw new Error(
+                "Invalid CSDL JSON: the document is not valid JSON"
+            );
+        }
+
+        if (!isObject(document) || !("$Version" in document)) {
+            throw new Error("Invalid CSDL JSON: missing $Version");
+        }
+
+        const schemas = Object.entries(document).filter(
+            (entry): entry is [string, Record<string, unknown>] =>
+                !entry[0].startsWith("$") && isObject(entry[1])
+        );
+        const names = new TypeNames();
+        const types: Record<string, EdmSchemaType> = {};
+        const entitySets: Record<string, string> = {};
+
+        schemas.forEach(([namespace, schema]) =>
+            names.alias(stringOf(schema.$Alias), namespace)
+        );
+
+        // Members whose names start with '$' or contain '@' are metadata and annotations
+        const members = (value: Record<string, unknown>) =>
+            Object.entries(value).filter(
+                (entry): entry is [string, Record<string, unknown>] =>
+                    !entry[0].startsWith("$") &&
+                    !entry[0].includes("@") &&
+                    isObject(entry[1])
+            );
+
+        for (const [namespace, schema] of schemas) {
+            for (const [typeName, type] of members(schema)) {
+                const name = `${namespace}.${typeName}`;
+                const baseType = stringOf(type.$BaseType);
+
+                switch (type.$Kind) {
+                    case "EntityType":
+                    case "ComplexType":
+                        types[name] = {
+                            kind: type.$Kind,
+                            name,
+                            baseType: baseType && names.qualify(baseType),
+                            open: type.$OpenType === true,
+                            properties: Object.fromEntries(
+                                members(type).map(
+                                    ([propertyName, property]) => [
+                                        propertyName,
+                                        {
+                                            name: propertyName,
+                                            navigation:
+                                                property.$Kind ===
+                                                "NavigationProperty",
+                                            type: names.qualify(
+                                                stringOf(property.$Type) ??
+                                                    "Edm.String"
+                                            ),
+                                            collection:
+                                                property.$Collection === true,
+                                            nullable:
+                                                property.$Nullable === true,
+                                        },
+                                    ]
+                                )
+                            ),
+                        };
+                        break;
+
+                    case "EnumType":
+                        types[name] = {
+                            kind: "EnumType",
+                            name,
+                            flags: type.$IsFlags === true,
+                            // Enum members are numbers, unlike the other members
+                            members: Object.fromEntries(
+                                Object.entries(type).filter(
+                                    (entry): entry is [string, number] =>
+                                        !entry[0].startsWith("$") &&
+                                        !entry[0].includes("@") &&
+                                        typeof entry[1] === "number"
+                                )
+                            ),
+                        };
+                        break;
+
+                    case "TypeDefinition":
+                        types[name] = {
+                            kind: "TypeDefinition",
+                            name,
+                            underlyingType:
+                                stringOf(type.$UnderlyingType) ?? "Edm.String",
+                        };
+                        break;
+
+                    case "EntityContainer":
+                        for (const [setName, set] of members(type)) {
+                            const setType = stringOf(set.$Type);
+
+                            // Only entity sets and singletons have a type; function and
+                            // action imports refer to their function or action instead
+                            if (setType) {
+                                entitySets[setName] = names.qualify(setType);
+                            }
+                        }
+                        break;
+                }
+            }
+        }
+
+        return new EdmModel(types, entitySets);
+    }
+
+    /**
+     * Returns a declared type
+     * @param name The namespace-qualified type name
+     */
+    getType(name: string): EdmSchemaType | undefined {
+        return Object.prototype.hasOwnProperty.call(this.types, name)
+            ? this.types[name]
+            : undefined;
+    }
+
+    /**
+     * Returns an entity or complex type, by qualified name or by the name of an entity set or singleton
+     * @param name The type, entity set or singleton name
+     * @example
+     * model.getEntityType("Customers")?.name; // "Sales.Customer"
+     */
+    getEntityType(name: string): EdmStructuredType | undefined {
+        const type = this.getType(
+            Object.prototype.hasOwnProperty.call(this.entitySets, name)
+                ? (this.entitySets[name] as string)
+                : name
+        );
+
+        return type?.kind === "EntityType" || type?.kind === "ComplexType"
+            ? type
+            : undefined;
+    }
+
+    /**
+     * Returns a property of a structured type, including inherited properties
+     * @param typeName The qualified name of the entity or complex type
+     * @param name The property name
+     */
+    getProperty(typeName: string, name: string): EdmProperty | undefined {
+        for (let type = this.getEntityType(typeName); type; ) {
+            if (Object.prototype.hasOwnProperty.call(type.properties, name)) {
+                return type.properties[name];
+            }
+
+            type = type.baseType
+                ? this.getEntityType(type.baseType)
+                : undefined;
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Checks whether a structured type, or one of its base types, is open
+     * @param typeName The qualified name of the entity or complex type
+     */
+    isOpen(typeName: string): boolean {
+        for (let type = this.getEntityType(typeName); type; ) {
+            if (type.open) {
+                return true;
+            }
+
+            type = type.baseType
+                ? this.getEntityType(type.baseType)
+                : undefined;
+        }
+
+        return false;
+    }
+}
@@ -0,0 +1,483 @@
+import type {
+    ComparisonOperator,
+    FilterNode,
+    LiteralNode,
+    LogicalOperator,
+} from "./FilterAST";
+import { FilterFunctions } from "./FilterFunctions";
+import { normalize } from "./FilterNormalizer";
+import { SearchBuilder, type Value } from "./SearchBuilder";
+import { SearchParser, type FilterInput } from "./SearchParser";
+import { TypedLiteral } from "./TypedLiteral";
+
+/**
+ * Describes how a facet maps to a condition
+ *
+ * - `values`: a list of values the field must be one of, e.g. `status in ('a', 'b')`
+ * - `range`: bounds on the field, e.g. `price ge 10 and price lt 100`
+ * - `search`: text searched for in one or more fields, e.g. `contains(name, 'shoe')`
+ * - `boolean`: a flag the field must equal, e.g. `inStock eq true`
+ * - `collection`: values any element of a collection must be one of, e.g. `tags/any(x:x in ('a', 'b'))`
+ */
+export type FacetDefinition =
+    | { type: "values"; field: string }
+    | { type: "range"; field: string }
+    | {
+          type: "search";
+          fields: string[];
+          /**
+           * The string function to search with
+           * @default "contains"
+           */
+          match?: "contains" | "startswith" | "endswith";
+          /**
+           * Compares lowercased field values with the lowercased text
+           */
+          caseInsensitive?: boolean;
+      }
+    | { type: "boolean"; field: string }
+    | { type: "collection"; field: string };
+
+/**
+ * The facets of a search page, by state key
+ * @example
+ * const facets = {
+ *     status: { type: "values", field: "status" },
+ *     price: { type: "range", field: "price" },
+ *     q: { type: "search", fields: ["name", "description"], caseInsensitive: true },
+ * } satisfies FacetConfig;
+ */
+export type FacetConfig = Record<string, FacetDefinition>;
+
+/**
+ * The bounds of a range facet; bounds that are not set are not applied
+ */
+export type FacetRange = { gt?: Value; gte?: Value; lt?: Value; lte?: Value };
+
+/**
+ * The state value of a facet definition
+ */
+type FacetValue<TDefinition extends FacetDefinition> = TDefinition extends {
+    type: "values" | "collection";
+}
+    ? Value[]
+    : TDefinition extends { type: "range" }
+    ? FacetRange
+    : TDefinition extends { type: "search" }
+    ? string
+    : boolean;
+
+/**
+ * The facet values of a search page, by state key. Facets that are not set are not applied.
+ * @example
+ * const state: FacetState<typeof facets> = { status: ["active", "pending"], price: { gte: 10, lt: 100 }, q: "shoe" };
+ */
+export type FacetState<TConfig extends FacetConfig> = {
+    [K in keyof TConfig]?: FacetValue<TConfig[K]>;
+};
+
+/**
+ * The facet state read from a filter, and the conditions that no facet represents
+ */
+export type FacetReadResult<TConfig extends FacetConfig> = {
+    state: FacetState<TConfig>;
+    /**
+     * The conditions joined by 'and' at the top of the normalized filter that could not be
+     * read into a facet; empty when the whole filter is represented by the state
+     */
+    unmapped: FilterNode[];
+};
+
+/**
+ * Range bounds by the comparison operator they use
+ */
+const RANGE_BOUNDS: Partial<Record<ComparisonOperator, keyof FacetRange>> = {
+    gt: "gt",
+    ge: "gte",
+    lt: "lt",
+    le: "lte",
+};
+
+/**
+ * Comparison operators with their operands swapped, e.g. `10 lt price` is `price gt 10`
+ */
+const MIRRORED: Partial<Record<ComparisonOperator, ComparisonOperator>> = {
+    gt: "lt",
+    ge: "le",
+    lt: "gt",
+    le: "ge",
+};
+
+/**
+ * Collects the operands of a chain of the same logical operator
+ */
+function operands(node: FilterNode, operator: LogicalOperator): FilterNode[] {
+    return node.type === "logical" && node.operator === operator
+        ? [...operands(node.left, operator), ...operands(node.right, operator)]
+        : [node];
+}
+
+/**
+ * Reads the literal values of an `eq` or `in` test on a property
+ * @returns The values, or undefined if the node is not such a test on the path
+ */
+function membershipOf(node: FilterNode, path: string): Value[] | undefined {
+    if (
+        node.type === "comparison" &&
+        node.operator === "eq" &&
+        node.left.type === "property" &&
+        node.left.path === path &&
+        node.right.type === "literal"
+    ) {
+        return [node.right.value];
+    }
+
+    if (
+        node.type === "in" &&
+        node.left.type === "property" &&
+        node.left.path === path &&
+        node.values.every((value) => value.type === "literal")
+    ) {
+        return (node.values as LiteralNode[]).map(({ value }) => value);
+    }
+
+    return undefined;
+}
+
+/**
+ * Tests whether a state value leaves its facet unset
+ */
+function isEmpty(value: unknown): boolean {
+    return (
+        value === undefined ||
+        value === null ||
+        value === "" ||
+        (Array.isArray(value) && !value.length) ||
+        (isRange(value) &&
+            Object.values(value).every((bound) => bound === undefined))
+    );
+}
+
+/**
+ * Tests whether a value is a plain object of range bounds
+ */
+function isRange(value: unknown): value is FacetRange {
+    return (
+        typeof value === "object" &&
+        value !== null &&
+        !Array.isArray(value) &&
+        !(value instanceof Date) &&
+        !(value instanceof TypedLiteral) &&
+        Object.keys(value).every((key) =>
+            Object.values(RANGE_BOUNDS).includes(key as keyof FacetRange)
+        )
+    );
+}
+
+/**
+ * Converts between the facet state of a search page and OData filters.
+ *
+ * `toFilter()` builds the filter for a state, joining the facets with 'and' in the order of the
+ * config. `fromFilter()` reads a filter back into a state, e.g. to restore the facets of a
+ * shared or saved filter, and reports the conditions no facet can show.
+ *
+ * @author Keven Leone
+ * @example
+ * const facets = new FacetMapper({
+ *     status: { type: "values", field: "status" },
+ *     price: { type: "range", field: "price" },
+ *     q: { type: "search", fields: ["name"] },
+ * });
+ *
+ * facets.toFilter({ status: ["active", "pending"], price: { gte: 10, lt: 100 }, q: "shoe" }).build();
+ * // "status in ('active', 'pending') and price ge 10 and price lt 100 and contains(name, 'shoe')"
+ *
+ * facets.fromFilter("price lt 100 and status eq 'active' and rating gt 3");
+ * // { state: { status: ["active"], price: { lt: 100 } }, unmapped: [<rating gt 3>] }
+ */
+export class FacetMapper<TConfig extends FacetConfig> {
+    /**
+     * @param config The facets, by state key
+     */
+    constructor(private readonly config: TConfig) {}
+
+    /**
+     * Builds the filter for a facet state. Empty values, such as `[]`, `""` or `{}`, leave their
+     * facet unset. Keys without a facet in the config are ignored, so the state can hold other
+     * URL parameters such as the page.
+     * @param state The facet values, by state key
+     * @returns A new SearchBuilder instance with the facet conditions joined by 'and'
+     * @throws Error if a value does not have the shape its facet expects
+     * @example
+     * facets.toFilter({ status: ["active"], q: "" }).build(); // "status eq 'active'"
+     */
+    toFilter(state: FacetState<TConfig>): SearchBuilder {
+        const builder = new SearchBuilder({ implicitAnd: true });
+
+        for (const [key, definition] of Object.entries(this.config)) {
+            const value = state[key];
+
+            if (!isEmpty(value)) {
+                this.write(builder, key, definition, value);
+            }
+        }
+
+        return builder;
+    }
+
+    /**
+     * Reads a filter into a facet state. The filter is normalized first, so `or` tests on one
+     * field and conditions in any order are recognized. Each condition joined by 'and' at the
+     * top of the filter is read into the first facet that can represent it.
+     * @param filter - A SearchBuilder, an expression tree or a filter string
+     * @returns The state, and the conditions that could not be read into it
+     * @throws FilterSyntaxError if a filter string is invalid
+     * @example
+     * facets.fromFilter("status eq 'active' or status eq 'new'").state; // { status: ["active", "new"] }
+     * facets.fromFilter("status eq 'active' or price gt 5").unmapped; // [<price gt 5 or status eq 'active'>]
+     */
+    fromFilter(filter: FilterInput): FacetReadResult<TConfig> {
+        const ast = SearchParser.toAST(filter);
+        const state: Record<string, unknown> = {};
+        const unmapped: FilterNode[] = [];
+
+        for (const condition of ast ? operands(normalize(ast), "and") : []) {
+            const read = Object.entries(this.config).some(
+                ([key, definition]) => {
+                    const value = this.read(definition, condition, state[key]);
+
+                    if (value !== undefined) {
+                        state[key] = value;
+                    }
+
+                    return value !== undefined;
+                }
+            );
+
+            if (!read) {
+                unmapped.push(condition);
+            }
+        }
+
+        // Keep the keys in the order of the config rather than of the normalized filter
+        const ordered = Object.keys(this.config)
+            .filter((key) => key in state)
+            .map((key) => [key, state[key]]);
+
+        return {
+            state: Object.fromEntries(ordered) as FacetState<TConfig>,
+            unmapped,
+        };
+    }
+
+    /**
+     * Adds the condition of a facet to a builder
+     * @throws Error if the value does not have the shape the facet expects
+     */
+    private write(
+        builder: SearchBuilder,
+        key: string,
+        definition: FacetDefinition,
+        value: unknown
+    ) {
+        const expect = (shape: string) =>
+            new Error(`Facet '${key}' expects ${shape}`);
+
+        switch (definition.type) {
+            case "values":
+            case "collection": {
+                const values = (
+                    Array.isArray(value) ? value : [value]
+                ) as Value[];
+                const test = (target: SearchBuilder, field: string) =>
+                    values.length === 1
+                        ? target.eq(field, values[0] as Value)
+                        : target.in(field, values);
+
+                if (definition.type === "values") {
+                    test(builder, definition.field);
+                } else {
+                    builder.any(definition.field, test);
+                }
+                break;
+            }
+
+            case "range":
+                if (!isRange(value)) {
+                    throw expect("an object with gt, gte, lt or lte bounds");
+                }
+
+                for (const [operator, bound] of Object.entries(RANGE_BOUNDS)) {
+                    if (value[bound] !== undefined) {
+                        builder[operator as "gt" | "ge" | "lt" | "le"](
+                            definition.field,
+                            value[bound] as Value
+                        );
+                    }
+                }
+                break;
+
+            case "search": {
+                if (typeof value !== "string") {
+                    throw expect("a string");
+                }
+
+                const {
+                    fields,
+                    match = "contains",
+                    caseInsensitive,
+                } = definition;
+                const text = caseInsensitive ? value.toLowerCase() : value;
+
+                builder.openGroup();
+                fields.forEach((field, index) => {
+                    if (index) {
+                        builder.or();
+                    }
+
+                    builder[match](
+                        caseInsensitive
+                            ? FilterFunctions.tolower(field)
+                            : field,
+                        text
+                    );
+                });
+                builder.closeGroup();
+                break;
+            }
+
+            case "boolean":
+                if (typeof value !== "boolean") {
+                    throw expect("a boolean");
+                }
+
+                builder.eq(definition.field, value);
+                break;
+        }
+    }
+
+    /**
+     * Reads a condition into the value of a facet
+     * @param definition The facet
+     * @param node A condition joined by 'and' at the top of the normalized filter
+     * @param current The value already read into the facet, if any
+     * @returns The new value of the facet, or undefined if the facet cannot represent the condition
+     */
+    private read(
+        definition: FacetDefinition,
+        node: FilterNode,
+        current: unknown
+    ): unknown {
+        switch (definition.type) {
+            case "values":
+                return current === undefined
+                    ? membershipOf(node, definition.field)
+                    : undefined;
+
+            case "collection":
+                return current === undefined &&
+                    node.type === "lambda" &&
+                    node.operator === "any" &&
+                    node.collection === definition.field &&
+                    node.expression
+                    ? membershipOf(node.expression, node.variable)
+                    : undefined;
+
+            case "range": {
+                if (node.type !== "comparison") {
+                    return undefined;
+                }
+
+                const [operator, left, right] =
+                    node.left.type === "literal"
+                        ? [MIRRORED[node.operator], node.right, node.left]
+                        : [node.operator, node.left, node.right];
+                const bound = operator && RANGE_BOUNDS[operator];
+                const range = (current ?? {}) as FacetRange;
+
+                return bound &&
+                    range[bound] === undefined &&
+                    left.type === "property" &&
+                    left.path === definition.field &&
+                    right.type === "literal"
+                    ? { ...range, [bound]: right.value }
+                    : undefined;
+            }
+
+            case "search":
+                return current === undefined
+                    ? this.search(definition, node)
+                    : undefined;
+
+            case "boolean": {
+                if (current !== undefined) {
+                    return undefined;
+                }
+
+                if (node.type === "not") {
+                    return node.expression.type === "property" &&
+                        node.expression.path === definition.field
+                        ? false
+                        : undefined;
+                }
+
+                if (node.type === "property") {
+                    return node.path === definition.field ? true : undefined;
+                }
+
+                const values = membershipOf(node, definition.field);
+
+                return values?.length === 1 && typeof values[0] === "boolean"
+                    ? values[0]
+                    : undefined;
+            }
+        }
+    }
+
+    /**
+     * Reads the text of a search facet: one test per field, joined by 'or', all with the same text
+     * @returns The text, or undefined if the condition is not such a search
+     */
+    private search(
+        definition: FacetDefinition & { type: "search" },
+        node: FilterNode
+    ): string | undefined {
+        const { fields, match = "contains", caseInsensitive } = definition;
+        const tests = operands(node, "or");
+        const found = new Set<string>();
+        let text: string | undefined;
+
+        for (const test of tests) {
+            if (test.type !== "function" || test.name !== match) {
+                return undefined;
+            }
+
+            const [subject, value] = test.args;
+            const field =
+                caseInsensitive &&
+                subject?.type === "function" &&
+                subject.name === "tolower"
+                    ? subject.args[0]
+                    : caseInsensitive
+                    ? undefined
+                    : subject;
+
+            if (
+                field?.type !== "property" ||
+                !fields.includes(field.path) ||
+                value?.type !== "literal" ||
+                typeof value.value !== "string" ||
+                (text !== undefined && value.value !== text)
+            ) {
+                return undefined;
+            }
+
+            found.add(field.path);
+            text = value.value;
+        }
+
+        return found.size === tests.length && found.size === fields.length
+            ? text
+            : undefined;
+    }
+}
@@ -0,0 +1,132 @@
+import type { Value } from "./SearchBuilder";
+import type { TypedLiteral } from "./TypedLiteral";
+
+/**
+ * True when T is `any`, which keeps untyped builders permissive
+ */
+type IsAny<T> = 0 extends 1 & T ? true : false;
+
+/**
+ * Remaining recursion depth for navigation paths, to keep self-referencing entities finite
+ */
+type Depth = [never, 0, 1, 2, 3, 4];
+
+/**
+ * All property names and `/`-separated navigation paths of an entity.
+ * Resolves to `string` when the entity type is `any`.
+ *
+ * @example
+ * type Order = { id: number; customer: { name: string; address: { city: string } } };
+ *
+ * type OrderPath = FieldPath<Order>;
+ * // "id" | "customer" | "customer/name" | "customer/address" | "customer/address/city"
+ */
+export type FieldPath<
+    TEntity,
+    TDepth extends number = 5
+> = IsAny<TEntity> extends true
+    ? string
+    : [TDepth] extends [never]
+    ? never
+    : {
+          [K in keyof TEntity & string]-?: NonNullable<TEntity[K]> extends
+              | Value
+              | readonly unknown[]
+              ? K
+              : K | `${K}/${FieldPath<NonNullable<TEntity[K]>, Depth[TDepth]>}`;
+      }[keyof TEntity & string];
+
+/**
+ * The declared type of the property at a navigation path
+ * @example
+ * type City = FieldType<Order, "customer/address/city">; // string
+ */
+export type FieldType<
+    TEntity,
+    TPath extends string
+> = IsAny<TEntity> extends true
+    ? any
+    : TPath extends `${infer K}/${infer Rest}`
+    ? K extends keyof TEntity
+        ? FieldType<NonNullable<TEntity[K]>, Rest>
+        : never
+    : TPath extends keyof TEntity
+    ? TEntity[TPath]
+    : never;
+
+/**
+ * The values a property can be compared with; `never` for navigation properties and collections.
+ * `null` is accepted only for properties declared nullable, and typed literals for any primitive property.
+ * @example
+ * type Id = FieldValue<Order, "id">; // number | TypedLiteral
+ */
+export type FieldValue<
+    TEntity,
+    TPath extends string
+> = IsAny<TEntity> extends true
+    ? Value
+    : Exclude<FieldType<TEntity, TPath>, undefined> extends infer T
+    ? T extends Value
+        ? T | TypedLiteral
+        : never
+    : never;
+
+/**
+ * Paths of the properties of an entity whose declared type, without null, is assignable to a type
+ * @example
+ * type Numbers = FieldPathOf<Order, number>; // "id"
+ */
+export type FieldPathOf<TEntity, TType> = IsAny<TEntity> extends true
+    ? string
+    : {
+          [P in FieldPath<TEntity>]: NonNullable<
+              FieldType<TEntity, P>
+          > extends TType
+              ? P
+              : never;
+      }[FieldPath<TEntity>];
+
+/**
+ * Paths of the string properties of an entity, accepted by string functions
+ * @example
+ * type Text = StringFieldPath<Order>; // "customer/name" | "customer/address/city"
+ */
+export type StringFieldPath<TEntity> = FieldPathOf<TEntity, string>;
+
+/**
+ * Paths of the collection properties of an entity, accepted by lambda operators
+ * @example
+ * type Lists = CollectionFieldPath<{ tags: string[]; name: string }>; // "tags"
+ */
+export type CollectionFieldPath<TEntity> = FieldPathOf<
+    TEntity,
+    readonly unknown[]
+>;
+
+/**
+ * The element type of a collection property
+ * @example
+ * type Tag = CollectionElement<{ tags: string[] }, "tags">; // string
+ */
+export type CollectionElement<
+    TEntity,
+    TPath extends string
+> = IsAny<TEntity> extends true
+    ? any
+    : NonNullable<FieldType<TEntity, TPath>> extends readonly (infer E)[]
+    ? E
+    : never;
+
+/**
+ * The entity seen from inside a lambda body: the outer entity plus the range variable
+ * bound to the collection element
+ * @example
+ * type Scope = LambdaScope<Order, "lines", "l">; // Order & { l: OrderLine }
+ */
+export type LambdaScope<
+    TEntity,
+    TPath extends string,
+    TVariable extends string
+> = IsAny<TEntity> extends true
+    ? any
+    : TEntity & Record<TVariable, CollectionElement<TEntity, TPath>>;
@@ -0,0 +1,397 @@
+import type { Value } from "./SearchBuilder";
+import { TypedLiteral } from "./TypedLiteral";
+
+/**
+ * Comparison operators that can appear between two operands
+ * @example
+ * // name eq 'John'
+ * const node: ComparisonNode = { type: "comparison", operator: "eq", left, right };
+ */
+export type ComparisonOperator = "eq" | "ne" | "gt" | "ge" | "lt" | "le";
+
+/**
+ * Binary logical operators used to join two boolean expressions
+ */
+export type LogicalOperator = "and" | "or";
+
+/**
+ * Arithmetic operators; `mul`, `div`, `divby` and `mod` bind tighter than `add` and `sub`
+ */
+export type ArithmeticOperator =
+    | "add"
+    | "sub"
+    | "mul"
+    | "div"
+    | "divby"
+    | "mod";
+
+/**
+ * Lambda operators applied to collection properties
+ */
+export type LambdaOperator = "any" | "all";
+
+/**
+ * A reference to a property, a navigation path (e.g. `address/city`)
+ * or a lambda range variable (e.g. `x` or `x/name`)
+ */
+export type PropertyNode = { type: "property"; path: string };
+
+/**
+ * A constant value such as `'John'`, `42` or `true`
+ */
+export type LiteralNode = { type: "literal"; value: Value };
+
+/**
+ * A collection literal such as `["a","b"]`, written in JSON array syntax
+ */
+export type CollectionNode = { type: "collection"; items: LiteralNode[] };
+
+/**
+ * A call to a built-in function such as `contains(name, 'John')`
+ */
+export type FunctionCallNode = {
+    type: "function";
+    name: string;
+    args: FilterNode[];
+};
+
+/**
+ * A comparison between two operands such as `age gt 18`
+ */
+export type ComparisonNode = {
+    type: "comparison";
+    operator: ComparisonOperator;
+    left: FilterNode;
+    right: FilterNode;
+};
+
+/**
+ * An arithmetic operation between two operands such as `price mul quantity`
+ */
+export type ArithmeticNode = {
+    type: "arithmetic";
+    operator: ArithmeticOperator;
+    left: FilterNode;
+    right: FilterNode;
+};
+
+/**
+ * A membership test such as `status in ('active', 'pending')`
+ */
+export type InNode = { type: "in"; left: FilterNode; values: FilterNode[] };
+
+/**
+ * Two boolean expressions joined with `and` or `or`
+ */
+export type LogicalNode = {
+    type: "logical";
+    operator: LogicalOperator;
+    left: FilterNode;
+    right: FilterNode;
+};
+
+/**
+ * A negated boolean expression such as `not (status eq 'inactive')`
+ */
+export type NotNode = { type: "not"; expression: FilterNode };
+
+/**
+ * An explicitly parenthesized expression, as written with `openGroup()`/`closeGroup()`
+ */
+export type GroupNode = { type: "group"; expression: FilterNode };
+
+/**
+ * A lambda over a collection such as `tags/any(x:x eq 'important')`.
+ * An `any` without an expression (`tags/any()`) checks that the collection is not empty.
+ */
+export type LambdaNode = {
+    type: "lambda";
+    operator: LambdaOperator;
+    collection: string;
+    variable: string;
+    expression?: FilterNode;
+};
+
+/**
+ * A parameter alias such as `@status`, whose value is given separately,
+ * either bound with SearchBuilder.bind() or sent as a query option (`@status='active'`)
+ */
+export type ParameterNode = { type: "parameter"; name: string };
+
+/**
+ * A node of an OData filter expression tree.
+ * Nodes are plain objects and should be treated as immutable.
+ *
+ * @example
+ * // name eq 'John' and age gt 18
+ * const ast: FilterNode = {
+ *     type: "logical",
+ *     operator: "and",
+ *     left: {
+ *         type: "comparison",
+ *         operator: "eq",
+ *         left: { type: "property", path: "name" },
+ *         right: { type: "literal", value: "John" },
+ *     },
+ *     right: {
+ *         type: "comparison",
+ *         operator: "gt",
+ *         left: { type: "property", path: "age" },
+ *         right: { type: "literal", value: 18 },
+ *     },
+ * };
+ */
+export type FilterNode =
+    | ArithmeticNode
+    | CollectionNode
+    | ComparisonNode
+    | FunctionCallNode
+    | GroupNode
+    | InNode
+    | LambdaNode
+    | LiteralNode
+    | LogicalNode
+    | NotNode
+    | ParameterNode
+    | PropertyNode;
+
+/**
+ * Binding strength of each node kind, from loosest to tightest.
+ * Used by the serializer to decide where parentheses are required.
+ */
+const Precedence = {
+    or: 1,
+    and: 2,
+    comparison: 3,
+    additive: 4,
+    multiplicative: 5,
+    not: 6,
+    primary: 7,
+} as const;
+
+/**
+ * Formats a value according to OData syntax rules
+ * - Strings are wrapped in single quotes with proper escaping
+ * - Dates are converted to ISO strings
+ * - Typed literals are formatted according to their type
+ * - Infinite numbers are written as INF and -INF
+ * - Other values are converted to strings
+ * @param value The value to format
+ * @returns Formatted value string ready for OData query
+ * @example
+ * formatValue("John's data") // "'John''s data'" (note the escaped single quote)
+ * formatValue(new Date("2023-01-01")) // "2023-01-01T00:00:00.000Z"
+ * formatValue(TypedLiteral.duration("PT1H")) // "duration'PT1H'"
+ * formatValue(42) // "42"
+ */
+function formatValue(value: Value): string {
+    if (typeof value === "string") {
+        return `'${value.replace(/'/g, "''")}'`;
+    }
+
+    if (value instanceof Date) {
+        return value.toISOString();
+    }
+
+    if (typeof value === "number" && !isFinite(value) && !isNaN(value)) {
+        return value > 0 ? "INF" : "-INF";
+    }
+
+    // String(-0) drops the sign
+    return Object.is(value, -0) ? "-0" : String(value);
+}
+
+/**
+ * Formats a collection item in the JSON syntax of collection literals
+ * @param value The item value
+ * @returns The JSON text of the item
+ */
+function formatJSONValue(value: Value): string {
+    if (value instanceof Date) {
+        return JSON.stringify(value.toISOString());
+    }
+
+    if (value instanceof TypedLiteral) {
+        return value.kind === "decimal"
+            ? value.value
+            : JSON.stringify(value.value);
+    }
+
+    return Object.is(value, -0) ? "-0" : JSON.stringify(value);
+}
+
+/**
+ * Returns how tightly a node binds when it appears inside another expression
+ * @param node The node to inspect
+ * @returns The precedence level of the node
+ */
+function precedenceOf(node: FilterNode): number {
+    switch (node.type) {
+        case "logical":
+            return Precedence[node.operator];
+        case "comparison":
+        case "in":
+            return Precedence.comparison;
+        case "arithmetic":
+            return node.operator === "add" || node.operator === "sub"
+                ? Precedence.additive
+                : Precedence.multiplicative;
+        case "not":
+            return Precedence.not;
+        default:
+            return Precedence.primary;
+    }
+}
+
+/**
+ * Serializes a child node, wrapping it in parentheses when it binds looser than required
+ * @param node The child node
+ * @param minimum The minimum precedence the child must have to be emitted bare
+ * @returns The serialized child
+ */
+function serializeOperand(node: FilterNode, minimum: number): string {
+    const text = serialize(node);
+
+    return precedenceOf(node) < minimum ? `(${text})` : text;
+}
+
+/**
+ * Creates a property reference node
+ * @param path The property name or `/`-separated navigation path
+ * @returns A PropertyNode
+ * @example
+ * property("address/city") // { type: "property", path: "address/city" }
+ */
+export function property(path: string): PropertyNode {
+    return { type: "property", path };
+}
+
+/**
+ * Creates a literal value node
+ * @param value The constant value
+ * @returns A LiteralNode
+ * @example
+ * literal("John") // { type: "literal", value: "John" }
+ */
+export function literal(value: Value): LiteralNode {
+    return { type: "literal", value };
+}
+
+/**
+ * Creates a parameter alias node, a placeholder for a value bound later
+ * @param name The alias name, without the leading `@`
+ * @returns A ParameterNode
+ * @throws Error if the name is not a valid identifier
+ * @example
+ * param("status") // { type: "parameter", name: "status" }, written as @status
+ */
+export function param(name: string): ParameterNode {
+    if (!/^[A-Za-z_]\w*$/.test(name)) {
+        throw new Error(`Invalid parameter name '${name}'`);
+    }
+
+    return { type: "parameter", name };
+}
+
+/**
+ * Returns the direct child nodes of a node, in source order
+ * @param node The node to inspect
+ * @returns The child nodes
+ * @example
+ * children(SearchParser.parseAST("a eq 1 and b eq 2")!) // [a eq 1, b eq 2]
+ */
+export function children(node: FilterNode): FilterNode[] {
+    switch (node.type) {
+        case "arithmetic":
+        case "comparison":
+        case "logical":
+            return [node.left, node.right];
+        case "in":
+            return [node.left, ...node.values];
+        case "function":
+            return node.args;
+        case "collection":
+            return node.items;
+        case "not":
+        case "group":
+            return [node.expression];
+        case "lambda":
+            return node.expression ? [node.expression] : [];
+        default:
+            return [];
+    }
+}
+
+/**
+ * Serializes an expression tree into an OData filter string.
+ * Parentheses are emitted for group nodes and wherever operator precedence requires them.
+ *
+ * @param node The root node of the expression tree
+ * @returns The OData filter expression
+ * @example
+ * serialize({
+ *     type: "not",
+ *     expression: {
+ *         type: "function",
+ *         name: "contains",
+ *         args: [property("name"), literal("test")],
+ *     },
+ * });
+ * // "not contains(name, 'test')"
+ */
+export function serialize(node: FilterNode): string {
+    switch (node.type) {
+        case "property":
+            return node.path;
+
+        case "parameter":
+            return `@${node.name}`;
+
+        case "literal":
+            return formatValue(node.value);
+
+        case "collection":
+            return `[${node.items
+                .map((item) => formatJSONValue(item.value))
+                .join(",")}]`;
+
+        case "function":
+            return `${node.name}(${node.args.map(serialize).join(", ")})`;
+
+        case "comparison":
+            return `${serializeOperand(node.left, Precedence.comparison + 1)} ${
+                node.operator
+            } ${serializeOperand(node.right, Precedence.comparison + 1)}`;
+
+        case "in":
+            return `${serializeOperand(
+                node.left,
+                Precedence.comparison + 1
+            )} in (${node.values.map(serialize).join(", ")})`;
+
+        case "arithmetic":
+        case "logical": {
+            const precedence = precedenceOf(node);
+
+            return `${serializeOperand(node.left, precedence)} ${
+                node.operator
+            } ${serializeOperand(node.right, precedence + 1)}`;
+        }
+
+        case "not":
+            return `not ${serializeOperand(
+                node.expression,
+                Precedence.primary
+            )}`;
+
+        case "group":
+            return `(${serialize(node.expression)})`;
+
+        case "lambda":
+            return node.expression
+                ? `${node.collection}/${node.operator}(${
+                      node.variable
+                  }:${serialize(node.expression)})`
+                : `${node.collection}/${node.operator}()`;
+    }
+}
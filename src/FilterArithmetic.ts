@@ -0,0 +1,145 @@
+import type { FieldPathOf } from "./FieldPath";
+import type {
+    ArithmeticNode,
+    ArithmeticOperator,
+    FilterNode,
+} from "./FilterAST";
+import {
+    fieldOperand,
+    valueOperand,
+    type FieldOperand,
+    type ValueOperand,
+} from "./FilterFunctions";
+import type { TypedLiteral } from "./TypedLiteral";
+
+/**
+ * The arithmetic factories with the left operand restricted to the properties of an entity,
+ * as returned by `FilterArithmetic.for<TEntity>()`: number fields, and for `add` and `sub` also
+ * date and duration fields. Expression nodes are accepted without checks.
+ */
+export type EntityFilterArithmetic<TEntity> = {
+    [K in "add" | "sub"]: (
+        left: FieldPathOf<TEntity, number | Date | TypedLiteral> | FilterNode,
+        right: ValueOperand
+    ) => ArithmeticNode;
+} & {
+    [K in "mul" | "div" | "divby" | "mod"]: (
+        left: FieldPathOf<TEntity, number | TypedLiteral> | FilterNode,
+        right: ValueOperand
+    ) => ArithmeticNode;
+};
+
+/**
+ * Creates an arithmetic node
+ * @param operator The arithmetic operator
+ * @param left The left operand
+ * @param right The right operand
+ * @returns An ArithmeticNode
+ */
+function arithmetic(
+    operator: ArithmeticOperator,
+    left: FieldOperand,
+    right: ValueOperand
+): ArithmeticNode {
+    return {
+        type: "arithmetic",
+        operator,
+        left: fieldOperand(left),
+        right: valueOperand(right),
+    };
+}
+
+/**
+ * Factories for OData arithmetic expressions.
+ * The resulting nodes can be used on either side of a comparison or nested in each other;
+ * parentheses are added on output only where operator precedence requires them.
+ *
+ * As with FilterFunctions, a string left operand is a property path and a string right
+ * operand is a literal; use `property()` to pass a field on the right.
+ *
+ * @author Keven Leone
+ * @example
+ * const { add, mul } = FilterArithmetic;
+ *
+ * const query = new SearchBuilder()
+ *   .gt(mul('price', property('quantity')), 100)
+ *   .build();
+ * // Result: "price mul quantity gt 100"
+ *
+ * @example
+ * // Precedence is preserved on output
+ * const total = mul(add('price', property('tax')), property('quantity'));
+ * serialize(total); // "(price add tax) mul quantity"
+ *
+ * @example
+ * // Restrict left operands to the number fields of an entity
+ * const { mul } = FilterArithmetic.for<OrderLine>();
+ *
+ * mul('price', property('quantity')); // ok
+ * mul('sku', 2); // compile error: 'sku' is not a number
+ */
+export class FilterArithmetic {
+    /**
+     * Returns the factories with left operands checked against an entity type
+     * @returns The same factories, typed for the entity
+     * @example
+     * const { add, mul } = FilterArithmetic.for<OrderLine>();
+     */
+    static for<TEntity>(): EntityFilterArithmetic<TEntity> {
+        return FilterArithmetic;
+    }
+
+    /**
+     * left add right: addition
+     * @example
+     * FilterArithmetic.add('price', 5) // price add 5
+     */
+    static add(left: FieldOperand, right: ValueOperand) {
+        return arithmetic("add", left, right);
+    }
+
+    /**
+     * left sub right: subtraction
+     * @example
+     * FilterArithmetic.sub('end', property('start')) // end sub start
+     */
+    static sub(left: FieldOperand, right: ValueOperand) {
+        return arithmetic("sub", left, right);
+    }
+
+    /**
+     * left mul right: multiplication
+     * @example
+     * FilterArithmetic.mul('price', property('quantity')) // price mul quantity
+     */
+    static mul(left: FieldOperand, right: ValueOperand) {
+        return arithmetic("mul", left, right);
+    }
+
+    /**
+     * left div right: division (integer division for integer operands)
+     * @example
+     * FilterArithmetic.div('total', 2) // total div 2
+     */
+    static div(left: FieldOperand, right: ValueOperand) {
+        return arithmetic("div", left, right);
+    }
+
+    /**
+     * left divby right: decimal division, even for integer operands
+     * @example
+     * FilterArithmetic.divby('total', 3) // total divby 3
+     */
+    static divby(left: FieldOperand, right: ValueOperand) {
+        return arithmetic("divby", left, right);
+    }
+
+    /**
+     * left mod right: remainder of the division
+     * @example
+     * FilterArithmetic.mod('id', 2) // id mod 2
+     */
+    static mod(left: FieldOperand, right: ValueOperand) {
+        return arithmetic("mod", left, right);
+    }
+}
@@ -0,0 +1,334 @@
+import {
+    serialize,
+    type FilterNode,
+    type LambdaNode,
+    type LogicalOperator,
+} from "./FilterAST";
+import { normalize } from "./FilterNormalizer";
+import { visit } from "./FilterVisitor";
+import { SearchParser, type FilterInput } from "./SearchParser";
+
+/**
+ * A difference between two filters, at the level of the conditions joined by 'and' at their top.
+ * `paths` lists the fields the condition reads, sorted; a lambda counts as its collection, and
+ * inside a lambda body the range variable is replaced by the collection, e.g. `orders/total`.
+ *
+ * An 'and' or 'or' group that keeps most of its operands, or a lambda over the same collection,
+ * is reported as modified with the `changes` inside it; its `paths` are then those of the
+ * changes.
+ * @example
+ * // price ge 10 -> price ge 20
+ * const change: FilterChange = {
+ *     type: "modified",
+ *     paths: ["price"],
+ *     before: SearchParser.parseAST("price ge 10")!,
+ *     after: SearchParser.parseAST("price ge 20")!,
+ * };
+ */
+export type FilterChange =
+    | { type: "added"; paths: string[]; after: FilterNode }
+    | { type: "removed"; paths: string[]; before: FilterNode }
+    | {
+          type: "modified";
+          paths: string[];
+          before: FilterNode;
+          after: FilterNode;
+          /**
+           * The changes to the operands of a group or to the body of a lambda
+           */
+          changes?: FilterChange[];
+      };
+
+/**
+ * A condition, with what is needed to match it against the other filter
+ */
+type Condition = {
+    node: FilterNode;
+    text: string;
+    paths: string[];
+    /**
+     * The node type with its operator or function name, e.g. "comparison:ge"
+     */
+    shape: string;
+};
+
+/**
+ * Collection paths of the enclosing lambdas, by range variable
+ */
+type Scope = ReadonlyMap<string, string>;
+
+/**
+ * Returns the operands of a chain of the same logical operator, without their parentheses
+ */
+function operands(
+    node: FilterNode | undefined,
+    operator: LogicalOperator
+): FilterNode[] {
+    if (!node) {
+        return [];
+    }
+
+    if (node.type === "group") {
+        return operands(node.expression, operator);
+    }
+
+    return node.type === "logical" && node.operator === operator
+        ? [...operands(node.left, operator), ...operands(node.right, operator)]
+        : [node];
+}
+
+/**
+ * Returns the fields a condition reads, outside of lambda bodies, sorted
+ * @param scope The collections of the range variables the condition can refer to
+ * @example
+ * fieldsOf(parseAST("name eq 'x' or orders/any(o:o/total gt 1)"), new Map()) // ["name", "orders"]
+ */
+function fieldsOf(node: FilterNode, scope: Scope): string[] {
+    const fields = new Set<string>();
+    const add = (path: string) => {
+        const [first, ...rest] = path.split("/") as [string, ...string[]];
+        const collection = scope.get(first);
+
+        if (collection !== undefined) {
+            fields.add([collection, ...rest].join("/"));
+        } else if (!first.includes(".")) {
+            // Skip the qualified type names of cast() and isof()
+            fields.add(path);
+        }
+    };
+
+    visit(node, {
+        property: (node) => add(node.path),
+        lambda: (node) => {
+            add(node.collection);
+
+            return false;
+        },
+    });
+
+    return [...fields].sort();
+}
+
+/**
+ * Collects what is needed to match a condition against the conditions of the other filter
+ */
+function describe(node: FilterNode, scope: Scope): Condition {
+    return {
+        node,
+        text: serialize(node),
+        paths: fieldsOf(node, scope),
+        shape:
+            node.type === "function"
+                ? `function:${node.name}`
+                : "operator" in node
+                ? `${node.type}:${node.operator}`
+                : node.type,
+    };
+}
+
+/**
+ * Compares two modified conditions in depth: the operands of 'and' and 'or' groups that share
+ * at least half of them, and the bodies of lambdas over the same collection with the same
+ * range variable
+ * @returns The changes inside the conditions, or undefined if they are not comparable
+ */
+function compareInside(
+    before: FilterNode,
+    after: FilterNode,
+    scope: Scope
+): FilterChange[] | undefined {
+    if (
+        before.type === "logical" &&
+        after.type === "logical" &&
+        before.operator === after.operator
+    ) {
+        const [left, right] = [before, after].map((node) =>
+            operands(node, before.operator).map(serialize)
+        ) as [string[], string[]];
+        const shared = left.filter((text) => right.includes(text)).length;
+
+        return shared * 2 >= Math.max(left.length, right.length)
+            ? compare(
+                  operands(before, before.operator),
+                  operands(after, after.operator),
+                  scope
+              )
+            : undefined;
+    }
+
+    if (
+        before.type === "lambda" &&
+        after.type === "lambda" &&
+        before.operator === after.operator &&
+        before.collection === after.collection &&
+        before.variable === after.variable &&
+        before.expression &&
+        after.expression
+    ) {
+        const body = new Map(scope).set(
+            before.variable,
+            resolve(before, scope)
+        );
+
+        return compare(
+            operands(before.expression, "and"),
+            operands(after.expression, "and"),
+            body
+        );
+    }
+
+    return undefined;
+}
+
+/**
+ * Returns the collection path of a lambda, with an outer range variable replaced
+ */
+function resolve(node: LambdaNode, scope: Scope): string {
+    const [first, ...rest] = node.collection.split("/") as [
+        string,
+        ...string[]
+    ];
+    const collection = scope.get(first);
+
+    return collection === undefined
+        ? node.collection
+        : [collection, ...rest].join("/");
+}
+
+/**
+ * Matches up two lists of conditions and reports the differences
+ */
+function compare(
+    before: FilterNode[],
+    after: FilterNode[],
+    scope: Scope
+): FilterChange[] {
+    const left = before.map((node) => describe(node, scope));
+    const right = after.map((node) => describe(node, scope));
+    const removed = left.filter(
+        (condition) => !right.some(({ text }) => text === condition.text)
+    );
+    const unmatched = right.filter(
+        (condition) => !left.some(({ text }) => text === condition.text)
+    );
+    const matches = new Map<Condition, Condition>();
+    const nested = new Map<Condition, FilterChange[]>();
+
+    // Groups and lambdas whose insides can be compared first, then conditions on the same
+    // fields, preferring the same operator so they are not taken by other operators
+    for (const pass of ["inside", "sameShape", "samePaths"] as const) {
+        for (const condition of removed) {
+            if (matches.has(condition)) {
+                continue;
+            }
+
+            const match = unmatched.find((candidate) => {
+                if (pass === "inside") {
+                    const changes = compareInside(
+                        condition.node,
+                        candidate.node,
+                        scope
+                    );
+
+                    if (changes) {
+                        nested.set(condition, changes);
+                    }
+
+                    return !!changes;
+                }
+
+                return (
+                    candidate.paths.length > 0 &&
+                    candidate.paths.join() === condition.paths.join() &&
+                    (pass === "samePaths" ||
+                        candidate.shape === condition.shape)
+                );
+            });
+
+            if (match) {
+                matches.set(condition, match);
+                unmatched.splice(unmatched.indexOf(match), 1);
+            }
+        }
+    }
+
+    const changes = removed.map((condition): FilterChange => {
+        const match = matches.get(condition);
+        const inside = nested.get(condition);
+
+        if (!match) {
+            return {
+                type: "removed",
+                paths: condition.paths,
+                before: condition.node,
+            };
+        }
+
+        return inside
+            ? {
+                  type: "modified",
+                  paths: [
+                      ...new Set(inside.flatMap(({ paths }) => paths)),
+                  ].sort(),
+                  before: condition.node,
+                  after: match.node,
+                  changes: inside,
+              }
+            : {
+                  type: "modified",
+                  paths: condition.paths,
+                  before: condition.node,
+                  after: match.node,
+              };
+    });
+
+    for (const condition of unmatched) {
+        changes.push({
+            type: "added",
+            paths: condition.paths,
+            after: condition.node,
+        });
+    }
+
+    return changes;
+}
+
+/**
+ * Compares two filters condition by condition. Both are normalized first, so the order of
+ * conditions, grouping and other differences that do not change the result are ignored.
+ *
+ * The conditions joined by 'and' at the top of each filter are matched up: identical ones are
+ * unchanged, and a condition replaced by another on the same fields is reported as modified,
+ * preferring one with the same operator. The rest are removed or added.
+ *
+ * An 'and' or 'or' group that keeps at least half of its operands, and a lambda over the same
+ * collection with the same range variable, are compared in depth the same way: the change
+ * lists the operands or body conditions that changed in `changes`.
+ *
+ * @param before - The original filter: a SearchBuilder, an expression tree or a filter string
+ * @param after - The changed filter
+ * @returns The changes: removed and modified conditions first, then added ones, each in the
+ * order of the normalized filter; empty when the filters are equivalent
+ * @throws FilterSyntaxError if a filter string is invalid
+ *
+ * @example
+ * diff(
+ *     "status in ('active', 'pending') and price ge 10 and price lt 100",
+ *     "price lt 100 and price ge 20 and contains(name, 'shoe')"
+ * ).map((change) => `${change.type} ${change.paths}`);
+ * // ["modified price", "removed status", "added name"]
+ *
+ * @example
+ * diff("(status eq 'a' or price gt 5) and x eq 1", "(status eq 'a' or price gt 5 or q eq 1) and x eq 1");
+ * // [{ type: "modified", paths: ["q"], before: <...>, after: <...>,
+ * //    changes: [{ type: "added", paths: ["q"], after: <q eq 1> }] }]
+ */
+export function diff(before: FilterInput, after: FilterInput): FilterChange[] {
+    const [left, right] = [before, after].map((filter) => {
+        const ast = SearchParser.toAST(filter);
+
+        return operands(ast && normalize(ast), "and");
+    }) as [FilterNode[], FilterNode[]];
+
+    return compare(left, right, new Map());
+}
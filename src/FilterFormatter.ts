@@ -0,0 +1,696 @@
+import {
+    serialize,
+    type ArithmeticNode,
+    type ArithmeticOperator,
+    type ComparisonOperator,
+    type FilterNode,
+    type FunctionCallNode,
+    type LambdaNode,
+    type LambdaOperator,
+    type LogicalNode,
+} from "./FilterAST";
+import { SearchParser, type FilterInput } from "./SearchParser";
+
+/**
+ * Options for FilterFormatter.format()
+ */
+export type FormatOptions = {
+    /**
+     * The line width to fit expressions in; longer ones are broken over several lines
+     * @default 80
+     */
+    width?: number;
+    /**
+     * The number of spaces to indent each level by
+     * @default 2
+     */
+    indent?: number;
+};
+
+/**
+ * Options for FilterFormatter.explain()
+ */
+export type ExplainOptions = {
+    /**
+     * Display names of properties, by path. Paths without a label are shown with their
+     * segments separated by spaces, e.g. `customer/name` as "customer name".
+     * Paths inside lambdas are looked up through their collection, e.g. `orders/total`.
+     */
+    labels?: Record<string, string>;
+};
+
+/**
+ * English phrases for the comparison operators, and for their negation
+ */
+const COMPARISON_PHRASES: Record<ComparisonOperator, [string, string]> = {
+    eq: ["equals", "does not equal"],
+    ne: ["does not equal", "equals"],
+    gt: ["is greater than", "is not greater than"],
+    ge: ["is at least", "is less than"],
+    lt: ["is less than", "is at least"],
+    le: ["is at most", "is greater than"],
+};
+
+/**
+ * Quantifiers for the lambda operators, and for their negation
+ */
+const QUANTIFIERS: Record<LambdaOperator, [string, string]> = {
+    any: ["any", "no"],
+    all: ["every", "not every"],
+};
+
+/**
+ * English phrases for the arithmetic operators
+ */
+const ARITHMETIC_PHRASES: Record<ArithmeticOperator, string> = {
+    add: "plus",
+    sub: "minus",
+    mul: "times",
+    div: "divided by",
+    divby: "divided by",
+    mod: "modulo",
+};
+
+/**
+ * How tightly the arithmetic operators bind, as in OData
+ */
+const ARITHMETIC_RANKS: Record<ArithmeticOperator, number> = {
+    add: 1,
+    sub: 1,
+    mul: 2,
+    div: 2,
+    divby: 2,
+    mod: 2,
+};
+
+/**
+ * Checks whether an operand of an arithmetic expression needs parentheses to keep its meaning:
+ * it binds more loosely than the operator, or as loosely on the right, as operators group left
+ * @example
+ * // a sub (b sub c): "a minus (b minus c)"
+ * needsParentheses(node, node.right, true) // true
+ */
+function needsParentheses(
+    parent: ArithmeticNode,
+    child: FilterNode,
+    right: boolean
+): boolean {
+    while (child.type === "group") {
+        child = child.expression;
+    }
+
+    if (child.type !== "arithmetic") {
+        return false;
+    }
+
+    const difference =
+        ARITHMETIC_RANKS[child.operator] - ARITHMETIC_RANKS[parent.operator];
+
+    return difference < 0 || (right && difference === 0);
+}
+
+/**
+ * English phrases for the boolean functions whose first argument is the subject, and for their negation
+ */
+const PREDICATE_PHRASES: Record<string, [string, string]> = {
+    contains: ["contains", "does not contain"],
+    startswith: ["starts with", "does not start with"],
+    endswith: ["ends with", "does not end with"],
+    matchesPattern: ["matches the pattern", "does not match the pattern"],
+    hassubset: ["includes all of", "does not include all of"],
+    hassubsequence: ["includes the sequence", "does not include the sequence"],
+    isof: ["is of type", "is not of type"],
+};
+
+/**
+ * How functions that compute a value read in English; `$` stands for the first argument
+ */
+const FUNCTION_PHRASES: Record<string, string> = {
+    tolower: "$ in lower case",
+    toupper: "$ in upper case",
+    trim: "trimmed $",
+    round: "$ rounded",
+    floor: "$ rounded down",
+    ceiling: "$ rounded up",
+    now: "now",
+    maxdatetime: "the latest date",
+    mindatetime: "the earliest date",
+};
+
+/**
+ * Node types that bind tightest, and never need parentheses as operands
+ */
+const PRIMARY_NODES = new Set<FilterNode["type"]>([
+    "collection",
+    "function",
+    "group",
+    "lambda",
+    "literal",
+    "parameter",
+    "property",
+]);
+
+/**
+ * Lays out an expression tree over lines that fit a width
+ */
+class FilterPrinter {
+    private readonly indent: string;
+
+    private readonly width: number;
+
+    constructor({ width = 80, indent = 2 }: FormatOptions) {
+        if (!Number.isInteger(indent) || indent < 0) {
+            throw new Error(
+                `indent requires a non-negative integer, got ${indent}`
+            );
+        }
+
+        this.indent = " ".repeat(indent);
+        this.width = width;
+    }
+
+    /**
+     * Prints a node, on one line if it fits
+     * @param node The node to print
+     * @param depth The indentation level
+     * @param prefix Text that goes before the node on its first line
+     * @returns The indented lines
+     */
+    print(node: FilterNode, depth: number, prefix = ""): string[] {
+        const pad = this.indent.repeat(depth);
+        const text = serialize(node);
+
+        if (pad.length + prefix.length + text.length <= this.width) {
+            return [pad + prefix + text];
+        }
+
+        switch (node.type) {
+            case "logical":
+                return this.chain(node, depth, prefix);
+
+            case "group":
+                return this.block(`${prefix}(`, [node.expression], depth, ")");
+
+            case "not":
+                return PRIMARY_NODES.has(node.expression.type)
+                    ? this.print(node.expression, depth, `${prefix}not `)
+                    : this.block(
+                          `${prefix}not (`,
+                          [node.expression],
+                          depth,
+                          ")"
+                      );
+
+            case "lambda":
+                return node.expression
+                    ? this.block(
+                          `${prefix}${node.collection}/${node.operator}(${node.variable}:`,
+                          [node.expression],
+                          depth,
+                          ")"
+                      )
+                    : [pad + prefix + text];
+
+            case "function":
+                return node.args.length
+                    ? this.block(
+                          `${prefix}${node.name}(`,
+                          node.args,
+                          depth,
+                          ")"
+                      )
+                    : [pad + prefix + text];
+
+            case "in": {
+                const left = serialize(node.left);
+                const bare =
+                    PRIMARY_NODES.has(node.left.type) ||
+                    node.left.type === "not" ||
+                    node.left.type === "arithmetic";
+
+                return [
+                    `${pad}${prefix}${bare ? left : `(${left})`} in (`,
+                    ...this.fill(node.values.map(serialize), depth + 1),
+                    `${pad})`,
+                ];
+            }
+
+            default:
+                return [pad + prefix + text];
+        }
+    }
+
+    /**
+     * Prints a chain of 'and' or 'or' operands, one per line after the first, each led by the
+     * operator. Operands that are themselves chains are put in parentheses when they do not fit.
+     */
+    private chain(node: LogicalNode, depth: number, prefix: string): string[] {
+        const pad = this.indent.repeat(depth);
+
+        return operandsOf(node).flatMap((operand, index) => {
+            const lead = index ? `${node.operator} ` : prefix;
+
+            if (operand.type !== "logical") {
+                return this.print(operand, depth, lead);
+            }
+
+            const text = serialize(operand);
+            const bare = operand.operator === "and" && node.operator === "or";
+            const inline = `${lead}${bare ? text : `(${text})`}`;
+
+            return pad.length + inline.length <= this.width
+                ? [pad + inline]
+                : this.block(`${lead}(`, [operand], depth, ")");
+        });
+    }
+
+    /**
+     * Fills lines with comma-separated items, as many as fit on each
+     * @param items The serialized items
+     * @param depth The indentation level of the lines
+     */
+    private fill(items: string[], depth: number): string[] {
+        const pad = this.indent.repeat(depth);
+        const lines: string[] = [];
+        let line = "";
+
+        items.forEach((item, index) => {
+            const next = index < items.length - 1 ? `${item},` : item;
+
+            if (
+                line &&
+                pad.length + line.length + next.length + 1 > this.width
+            ) {
+                lines.push(pad + line);
+                line = "";
+            }
+
+            line += line ? ` ${next}` : next;
+        });
+
+        return [...lines, pad + line];
+    }
+
+    /**
+     * Prints nodes indented one level between an opening and a closing line, separated by commas
+     */
+    private block(
+        open: string,
+        nodes: FilterNode[],
+        depth: number,
+        close: string
+    ): string[] {
+        const pad = this.indent.repeat(depth);
+        const lines = nodes.flatMap((node, index) => {
+            const printed = this.print(node, depth + 1);
+
+            if (index < nodes.length - 1) {
+                printed[printed.length - 1] += ",";
+            }
+
+            return printed;
+        });
+
+        return [pad + open, ...lines, pad + close];
+    }
+}
+
+/**
+ * Returns the operands of a chain of the same logical operator, in source order.
+ * Left-nested operands of the same operator join the chain; right-nested ones keep their
+ * parentheses, as in the serialized filter.
+ * @example
+ * operandsOf(parseAST("a and b and (c or d)")) // [a, b, (c or d)]
+ */
+function operandsOf(node: LogicalNode): FilterNode[] {
+    const { left, right } = node;
+
+    return [
+        ...(left.type === "logical" && left.operator === node.operator
+            ? operandsOf(left)
+            : [left]),
+        right,
+    ];
+}
+
+/**
+ * Joins items as an English list
+ * @example
+ * list(["'a'", "'b'", "'c'"], "or") // "'a', 'b' or 'c'"
+ */
+function list(items: string[], conjunction: string): string {
+    return items.length > 1
+        ? `${items.slice(0, -1).join(", ")} ${conjunction} ${
+              items[items.length - 1]
+          }`
+        : items.join("");
+}
+
+/**
+ * Returns a rough singular of an English noun, for the elements of a collection
+ * @example
+ * singular("tags") // "tag"
+ * singular("categories") // "category"
+ */
+function singular(noun: string): string {
+    if (/ies$/.test(noun)) {
+        return noun.slice(0, -3) + "y";
+    }
+
+    return /[^s]s$/.test(noun) ? noun.slice(0, -1) : noun;
+}
+
+/**
+ * A description, and whether it joins several conditions with 'and' or 'or' at its top level
+ */
+type Phrase = { text: string; compound: boolean };
+
+/**
+ * Describes an expression tree in English
+ */
+class FilterExplainer {
+    /**
+     * The enclosing lambdas, innermost first
+     */
+    private lambdas: LambdaNode[] = [];
+
+    constructor(private readonly options: ExplainOptions) {}
+
+    /**
+     * Describes a node used as a condition
+     * @param node The condition
+     * @param negated Whether to describe its negation
+     */
+    condition(node: FilterNode, negated = false): Phrase {
+        switch (node.type) {
+            case "group":
+                return this.condition(node.expression, negated);
+
+            case "not":
+                return this.condition(node.expression, !negated);
+
+            case "logical":
+                return negated
+                    ? this.simple(`not (${this.condition(node).text})`)
+                    : this.chain(node);
+
+            case "comparison":
+                return this.comparison(node, negated);
+
+            case "in": {
+                const subject = this.operand(node.left);
+                const values = node.values.map((value) => this.operand(value));
+
+                if (!negated) {
+                    return {
+                        text: `${subject} is ${list(values, "or")}`,
+                        compound: values.length > 1,
+                    };
+                }
+
+                return this.simple(
+                    values.length > 2
+                        ? `${subject} is none of ${values.join(", ")}`
+                        : values.length === 2
+                        ? `${subject} is neither ${values[0]} nor ${values[1]}`
+                        : `${subject} is not ${values.join("")}`
+                );
+            }
+
+            case "function": {
+                const phrases = PREDICATE_PHRASES[node.name];
+
+                if (phrases && node.args.length === 2) {
+                    const [subject, value] = node.args as [
+                        FilterNode,
+                        FilterNode
+                    ];
+
+                    return this.simple(
+                        `${this.operand(subject)} ${
+                            phrases[negated ? 1 : 0]
+                        } ${this.operand(value)}`
+                    );
+                }
+
+                break;
+            }
+
+            case "lambda":
+                return this.lambda(node, negated);
+
+            case "property":
+            case "parameter":
+                return this.simple(
+                    `${this.operand(node)} is ${negated ? "false" : "true"}`
+                );
+        }
+
+        const text = this.operand(node);
+
+        return this.simple(negated ? `not (${text})` : text);
+    }
+
+    /**
+     * Describes a value: a property, a literal or a computed expression
+     */
+    private operand(node: FilterNode): string {
+        switch (node.type) {
+            case "group":
+                return this.operand(node.expression);
+
+            case "property":
+                return this.property(node.path);
+
+            case "arithmetic": {
+                const side = (child: FilterNode, right: boolean) =>
+                    needsParentheses(node, child, right)
+                        ? `(${this.operand(child)})`
+                        : this.operand(child);
+
+                return `${side(node.left, false)} ${
+                    ARITHMETIC_PHRASES[node.operator]
+                } ${side(node.right, true)}`;
+            }
+
+            // Strings are shown as written, without the doubled quotes of OData
+            case "literal":
+                return typeof node.value === "string"
+                    ? `'${node.value}'`
+                    : serialize(node);
+
+            case "function":
+                return this.call(node);
+
+            default:
+                return serialize(node);
+        }
+    }
+
+    private call(node: FunctionCallNode): string {
+        const phrase = FUNCTION_PHRASES[node.name];
+        const [first] = node.args;
+
+        if (phrase && (first || !phrase.includes("$"))) {
+            const operand = first ? this.operand(first) : "";
+
+            // A function, so `$&` and the like in the operand are not replacement patterns
+            return phrase.replace("$", () => operand);
+        }
+
+        return node.args.length === 1 && !node.name.includes(".")
+            ? `${node.name} of ${this.operand(first as FilterNode)}`
+            : serialize(node);
+    }
+
+    private comparison(
+        node: FilterNode & { type: "comparison" },
+        negated: boolean
+    ): Phrase {
+        const { operator, left, right } = node;
+
+        if (
+            (operator === "eq" || operator === "ne") &&
+            right.type === "literal" &&
+            right.value === null
+        ) {
+            const empty = (operator === "eq") !== negated;
+
+            return this.simple(
+                `${this.operand(left)} ${
+                    empty ? "has no value" : "has a value"
+                }`
+            );
+        }
+
+        return this.simple(
+            `${this.operand(left)} ${
+                COMPARISON_PHRASES[operator][negated ? 1 : 0]
+            } ${this.operand(right)}`
+        );
+    }
+
+    /**
+     * Joins the operands of 'and' and 'or' chains. Operands that are chains themselves are
+     * set off with commas, and put in parentheses when they are nested deeper.
+     */
+    private chain(node: LogicalNode): Phrase {
+        const parts = operandsOf(node).map((operand) => {
+            const phrase = this.condition(operand);
+
+            return phrase.compound && phrase.text.includes(", ")
+                ? { text: `(${phrase.text})`, compound: true }
+                : phrase;
+        });
+        const separator = parts.some((part) => part.compound)
+            ? `, ${node.operator} `
+            : ` ${node.operator} `;
+
+        return {
+            text: parts.map((part) => part.text).join(separator),
+            compound: true,
+        };
+    }
+
+    /**
+     * Describes a lambda. A single condition on the element itself makes the element the
+     * subject, e.g. "any tag equals 'x'"; other bodies are introduced by "for any order,".
+     * Inside the body, the element is "it".
+     */
+    private lambda(node: LambdaNode, negated: boolean): Phrase {
+        const { expression } = node;
+        const collection = this.property(node.collection);
+
+        if (!expression) {
+            return this.simple(
+                `${collection} ${negated ? "is empty" : "is not empty"}`
+            );
+        }
+
+        const element = singular(collection);
+        const quantifier = QUANTIFIERS[node.operator][negated ? 1 : 0];
+
+        this.lambdas.unshift(node);
+
+        try {
+            const body = this.condition(expression);
+
+            return this.simple(
+                !body.compound && body.text.startsWith("it ")
+                    ? `${quantifier} ${element} ${body.text.slice(3)}`
+                    : `for ${quantifier} ${element}, ${body.text}`
+            );
+        } finally {
+            this.lambdas.shift();
+        }
+    }
+
+    /**
+     * Describes a property path. Inside a lambda, paths starting with its range variable are
+     * relative to the element, and the range variable alone stands for the element.
+     */
+    private property(path: string): string {
+        const { labels = {} } = this.options;
+        const [first, ...rest] = path.split("/") as [string, ...string[]];
+        const lambda = this.lambdas.find(({ variable }) => variable === first);
+
+        if (!lambda) {
+            return labels[path] ?? path.split("/").join(" ");
+        }
+
+        if (!rest.length) {
+            return lambda === this.lambdas[0]
+                ? "it"
+                : `the ${singular(this.property(lambda.collection))}`;
+        }
+
+        const relative = rest.join(" ");
+
+        return (
+            labels[this.resolve(path)] ??
+            (lambda === this.lambdas[0]
+                ? relative
+                : `${singular(this.property(lambda.collection))} ${relative}`)
+        );
+    }
+
+    /**
+     * Replaces the range variables at the start of a path with their collection paths
+     * @example
+     * // inside orders/any(o:o/items/any(i:...))
+     * resolve("i/qty") // "orders/items/qty"
+     */
+    private resolve(path: string): string {
+        const [first, ...rest] = path.split("/") as [string, ...string[]];
+        const lambda = this.lambdas.find(({ variable }) => variable === first);
+
+        return lambda
+            ? [this.resolve(lambda.collection), ...rest].join("/")
+            : path;
+    }
+
+    private simple(text: string): Phrase {
+        return { text, compound: false };
+    }
+}
+
+/**
+ * Formats filters for people: laid out over several lines for reading and debugging,
+ * or described in English for display
+ *
+ * @author Keven Leone
+ * @example
+ * FilterFormatter.format(longFilterFromLogs, { width: 60 });
+ * FilterFormatter.explain("status in ('active', 'pending') and tags/any(t:t eq 'important')");
+ * // "status is 'active' or 'pending', and any tag equals 'important'"
+ */
+export class FilterFormatter {
+    /**
+     * Lays out a filter over lines that fit a width, indenting groups, lambdas and function
+     * arguments and starting each 'and' or 'or' operand on its own line. Parts that fit are
+     * kept on one line. The result is a valid filter with the same meaning.
+     * @param filter - A SearchBuilder, an expression tree or a filter string
+     * @param options - The line width and indentation
+     * @returns The formatted filter; an empty filter gives ""
+     * @throws FilterSyntaxError if a filter string is invalid
+     * @throws Error if the indentation is not a non-negative integer
+     *
+     * @example
+     * FilterFormatter.format(
+     *     "status eq 'active' and (priority gt 2 or tags/any(t:t eq 'urgent' or t eq 'vip'))",
+     *     { width: 40 }
+     * );
+     * // status eq 'active'
+     * // and (
+     * //   priority gt 2
+     * //   or tags/any(t:
+     * //     t eq 'urgent' or t eq 'vip'
+     * //   )
+     * // )
+     */
+    static format(filter: FilterInput, options: FormatOptions = {}): string {
+        const ast = SearchParser.toAST(filter);
+
+        return ast ? new FilterPrinter(options).print(ast, 0).join("\n") : "";
+    }
+
+    /**
+     * Describes a filter in English, e.g. for filter chips or summaries. The description is
+     * meant for people and cannot be parsed back.
+     * @param filter - A SearchBuilder, an expression tree or a filter string
+     * @param options - Display names of properties
+     * @returns The description; an empty filter gives ""
+     * @throws FilterSyntaxError if a filter string is invalid
+     *
+     * @example
+     * FilterFormatter.explain("price ge 10 and not contains(name, 'refurbished')", {
+     *     labels: { price: "Price", name: "Name" },
+     * });
+     * // "Price is at least 10 and Name does not contain 'refurbished'"
+     */
+    static explain(filter: FilterInput, options: ExplainOptions = {}): string {
+        const ast = SearchParser.toAST(filter);
+
+        return ast ? new FilterExplainer(options).condition(ast).text : "";
+    }
+}
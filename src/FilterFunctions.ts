@@ -0,0 +1,569 @@
+import {
+    literal,
+    property,
+    type CollectionNode,
+    type FilterNode,
+    type FunctionCallNode,
+} from "./FilterAST";
+import type {
+    CollectionFieldPath,
+    FieldPath,
+    FieldPathOf,
+    StringFieldPath,
+} from "./FieldPath";
+import type { Value } from "./SearchBuilder";
+import type { TypedLiteral } from "./TypedLiteral";
+
+/**
+ * A field argument: a property name or navigation path, or any expression node
+ * @example
+ * const byName: FieldOperand = "address/city";
+ * const byExpression: FieldOperand = FilterFunctions.tolower("name");
+ */
+export type FieldOperand = string | FilterNode;
+
+/**
+ * A value argument: a constant value, or any expression node
+ * @example
+ * const constant: ValueOperand = "John";
+ * const otherField: ValueOperand = property("lastName");
+ */
+export type ValueOperand = Value | FilterNode;
+
+/**
+ * String functions taking a string field and a value
+ */
+type StringFunction =
+    | "contains"
+    | "startswith"
+    | "endswith"
+    | "indexof"
+    | "matchesPattern";
+
+/**
+ * String functions taking only a string field
+ */
+type StringTransform = "tolower" | "toupper" | "trim";
+
+/**
+ * Functions taking a date, date-time, time of day or duration field
+ */
+type DateFunction =
+    | "year"
+    | "month"
+    | "day"
+    | "hour"
+    | "minute"
+    | "second"
+    | "fractionalseconds"
+    | "totaloffsetminutes"
+    | "totalseconds"
+    | "date"
+    | "time";
+
+/**
+ * Functions taking a number field
+ */
+type NumberFunction = "round" | "floor" | "ceiling";
+
+/**
+ * The built-in function factories with field arguments restricted to the properties of an
+ * entity of the right type, as returned by `FilterFunctions.for<TEntity>()`.
+ * Expression nodes are accepted in field position without checks.
+ */
+export type EntityFilterFunctions<TEntity> = {
+    [K in StringFunction]: (
+        field: StringFieldPath<TEntity> | FilterNode,
+        value: ValueOperand
+    ) => FunctionCallNode;
+} & {
+    [K in StringTransform | "length"]: (
+        field:
+            | (K extends "length"
+                  ? StringFieldPath<TEntity> | CollectionFieldPath<TEntity>
+                  : StringFieldPath<TEntity>)
+            | FilterNode
+    ) => FunctionCallNode;
+} & {
+    [K in DateFunction]: (
+        field: FieldPathOf<TEntity, Date | string | TypedLiteral> | FilterNode
+    ) => FunctionCallNode;
+} & {
+    [K in NumberFunction]: (
+        field: FieldPathOf<TEntity, number | TypedLiteral> | FilterNode
+    ) => FunctionCallNode;
+} & {
+    [K in "hassubset" | "hassubsequence"]: (
+        field: CollectionFieldPath<TEntity> | FilterNode,
+        values: Value[] | FilterNode
+    ) => FunctionCallNode;
+} & {
+    [K in "cast" | "isof"]: (
+        fieldOrType: FieldPath<TEntity> | FilterNode,
+        type?: string
+    ) => FunctionCallNode;
+} & {
+    concat(
+        field:
+            | StringFieldPath<TEntity>
+            | CollectionFieldPath<TEntity>
+            | FilterNode,
+        value: ValueOperand
+    ): FunctionCallNode;
+    substring(
+        field: StringFieldPath<TEntity> | FilterNode,
+        start: ValueOperand,
+        length?: ValueOperand
+    ): FunctionCallNode;
+    now(): FunctionCallNode;
+    maxdatetime(): FunctionCallNode;
+    mindatetime(): FunctionCallNode;
+};
+
+/**
+ * Minimum and maximum number of arguments accepted by each built-in OData function
+ */
+export const BUILT_IN_FUNCTIONS: Record<string, [min: number, max: number]> = {
+    cast: [1, 2],
+    ceiling: [1, 1],
+    concat: [2, 2],
+    contains: [2, 2],
+    date: [1, 1],
+    day: [1, 1],
+    endswith: [2, 2],
+    floor: [1, 1],
+    fractionalseconds: [1, 1],
+    hassubsequence: [2, 2],
+    hassubset: [2, 2],
+    hour: [1, 1],
+    indexof: [2, 2],
+    isof: [1, 2],
+    length: [1, 1],
+    matchesPattern: [2, 2],
+    maxdatetime: [0, 0],
+    mindatetime: [0, 0],
+    minute: [1, 1],
+    month: [1, 1],
+    now: [0, 0],
+    round: [1, 1],
+    second: [1, 1],
+    startswith: [2, 2],
+    substring: [2, 3],
+    time: [1, 1],
+    tolower: [1, 1],
+    totaloffsetminutes: [1, 1],
+    totalseconds: [1, 1],
+    toupper: [1, 1],
+    trim: [1, 1],
+    year: [1, 1],
+};
+
+/**
+ * Checks whether a value is an expression node rather than a constant
+ * @param value The value to check
+ * @returns True if the value is a FilterNode
+ */
+export function isFilterNode(value: unknown): value is FilterNode {
+    return (
+        typeof value === "object" &&
+        value !== null &&
+        !(value instanceof Date) &&
+        typeof (value as FilterNode).type === "string"
+    );
+}
+
+/**
+ * Converts a field argument into an expression node
+ * @param field A property path or expression node
+ * @returns The expression node
+ */
+export function fieldOperand(field: FieldOperand): FilterNode {
+    return typeof field === "string" ? property(field) : field;
+}
+
+/**
+ * Converts a value argument into an expression node
+ * @param value A constant value or expression node
+ * @returns The expression node
+ */
+export function valueOperand(value: ValueOperand): FilterNode {
+    return isFilterNode(value) ? value : literal(value);
+}
+
+/**
+ * Creates a function call node
+ * @param name The function name
+ * @param args The function arguments
+ * @returns A FunctionCallNode
+ */
+function call(name: string, ...args: FilterNode[]): FunctionCallNode {
+    return { type: "function", name, args };
+}
+
+/**
+ * Converts a list of values into a collection literal node
+ * @param values The constant values or an expression yielding a collection
+ * @returns The expression node
+ */
+function collection(values: Value[] | FilterNode): FilterNode {
+    if (!Array.isArray(values)) {
+        return values;
+    }
+
+    const node: CollectionNode = {
+        type: "collection",
+        items: values.map(literal),
+    };
+
+    return node;
+}
+
+/**
+ * Factories for OData v4 built-in function expressions.
+ * The resulting nodes can be used on either side of a comparison,
+ * nested in other functions, or added as conditions.
+ *
+ * Field arguments accept a property path or an expression; value arguments accept
+ * a constant or an expression (use `property()` to pass another field as a value).
+ *
+ * @author Keven Leone
+ * @example
+ * const { tolower, year } = FilterFunctions;
+ *
+ * const query = new SearchBuilder()
+ *   .eq(tolower('name'), 'john')
+ *   .and()
+ *   .ge(year('created'), 2024)
+ *   .build();
+ * // Result: "tolower(name) eq 'john' and year(created) ge 2024"
+ *
+ * @example
+ * // Restrict field arguments to the properties of an entity
+ * const { tolower } = FilterFunctions.for<Person>();
+ *
+ * new SearchBuilder<Person>().eq(tolower('name'), 'john'); // ok
+ * new SearchBuilder<Person>().eq(tolower('age'), 'john'); // compile error: 'age' is not a string
+ */
+export class FilterFunctions {
+    /**
+     * Returns the factories with field arguments checked against an entity type:
+     * string functions accept string fields, date functions date fields, `round`,
+     * `floor` and `ceiling` number fields, and `hassubset`/`hassubsequence` collection fields
+     * @returns The same factories, typed for the entity
+     * @example
+     * const { contains, year } = FilterFunctions.for<Order>();
+     */
+    static for<TEntity>(): EntityFilterFunctions<TEntity> {
+        return FilterFunctions;
+    }
+
+    /**
+     * contains(field, value): true if the string contains the substring
+     * @example
+     * FilterFunctions.contains('name', 'oh') // contains(name, 'oh')
+     */
+    static contains(field: FieldOperand, value: ValueOperand) {
+        return call("contains", fieldOperand(field), valueOperand(value));
+    }
+
+    /**
+     * startswith(field, value): true if the string starts with the prefix
+     * @example
+     * FilterFunctions.startswith('name', 'J') // startswith(name, 'J')
+     */
+    static startswith(field: FieldOperand, value: ValueOperand) {
+        return call("startswith", fieldOperand(field), valueOperand(value));
+    }
+
+    /**
+     * endswith(field, value): true if the string ends with the suffix
+     * @example
+     * FilterFunctions.endswith('email', '.com') // endswith(email, '.com')
+     */
+    static endswith(field: FieldOperand, value: ValueOperand) {
+        return call("endswith", fieldOperand(field), valueOperand(value));
+    }
+
+    /**
+     * length(field): number of characters in the string
+     * @example
+     * FilterFunctions.length('name') // length(name)
+     */
+    static length(field: FieldOperand) {
+        return call("length", fieldOperand(field));
+    }
+
+    /**
+     * indexof(field, value): zero-based position of the substring, or -1
+     * @example
+     * FilterFunctions.indexof('name', 'oh') // indexof(name, 'oh')
+     */
+    static indexof(field: FieldOperand, value: ValueOperand) {
+        return call("indexof", fieldOperand(field), valueOperand(value));
+    }
+
+    /**
+     * substring(field, start, length?): part of the string starting at a zero-based position
+     * @example
+     * FilterFunctions.substring('code', 1, 3) // substring(code, 1, 3)
+     */
+    static substring(
+        field: FieldOperand,
+        start: ValueOperand,
+        length?: ValueOperand
+    ) {
+        const args = [fieldOperand(field), valueOperand(start)];
+
+        if (length !== undefined) {
+            args.push(valueOperand(length));
+        }
+
+        return call("substring", ...args);
+    }
+
+    /**
+     * tolower(field): the string in lower case
+     * @example
+     * FilterFunctions.tolower('name') // tolower(name)
+     */
+    static tolower(field: FieldOperand) {
+        return call("tolower", fieldOperand(field));
+    }
+
+    /**
+     * toupper(field): the string in upper case
+     * @example
+     * FilterFunctions.toupper('name') // toupper(name)
+     */
+    static toupper(field: FieldOperand) {
+        return call("toupper", fieldOperand(field));
+    }
+
+    /**
+     * trim(field): the string without leading and trailing whitespace
+     * @example
+     * FilterFunctions.trim('name') // trim(name)
+     */
+    static trim(field: FieldOperand) {
+        return call("trim", fieldOperand(field));
+    }
+
+    /**
+     * concat(field, value): the two strings joined together
+     * @example
+     * FilterFunctions.concat('firstName', property('lastName')) // concat(firstName, lastName)
+     */
+    static concat(field: FieldOperand, value: ValueOperand) {
+        return call("concat", fieldOperand(field), valueOperand(value));
+    }
+
+    /**
+     * matchesPattern(field, pattern): true if the string matches the ECMAScript regular expression
+     * @example
+     * FilterFunctions.matchesPattern('code', '^A\\d+$') // matchesPattern(code, '^A\d+$')
+     */
+    static matchesPattern(field: FieldOperand, pattern: ValueOperand) {
+        return call(
+            "matchesPattern",
+            fieldOperand(field),
+            valueOperand(pattern)
+        );
+    }
+
+    /**
+     * year(field): the year component of a date or date-time
+     * @example
+     * FilterFunctions.year('created') // year(created)
+     */
+    static year(field: FieldOperand) {
+        return call("year", fieldOperand(field));
+    }
+
+    /**
+     * month(field): the month component (1-12) of a date or date-time
+     * @example
+     * FilterFunctions.month('created') // month(created)
+     */
+    static month(field: FieldOperand) {
+        return call("month", fieldOperand(field));
+    }
+
+    /**
+     * day(field): the day component (1-31) of a date or date-time
+     * @example
+     * FilterFunctions.day('created') // day(created)
+     */
+    static day(field: FieldOperand) {
+        return call("day", fieldOperand(field));
+    }
+
+    /**
+     * hour(field): the hour component of a date-time or time of day
+     * @example
+     * FilterFunctions.hour('created') // hour(created)
+     */
+    static hour(field: FieldOperand) {
+        return call("hour", fieldOperand(field));
+    }
+
+    /**
+     * minute(field): the minute component of a date-time or time of day
+     * @example
+     * FilterFunctions.minute('created') // minute(created)
+     */
+    static minute(field: FieldOperand) {
+        return call("minute", fieldOperand(field));
+    }
+
+    /**
+     * second(field): the second component of a date-time or time of day
+     * @example
+     * FilterFunctions.second('created') // second(created)
+     */
+    static second(field: FieldOperand) {
+        return call("second", fieldOperand(field));
+    }
+
+    /**
+     * fractionalseconds(field): the fractional seconds of a date-time or time of day, e.g. 0.5
+     * @example
+     * FilterFunctions.fractionalseconds('created') // fractionalseconds(created)
+     */
+    static fractionalseconds(field: FieldOperand) {
+        return call("fractionalseconds", fieldOperand(field));
+    }
+
+    /**
+     * totaloffsetminutes(field): the signed number of minutes in the time zone offset of a date-time
+     * @example
+     * FilterFunctions.totaloffsetminutes('created') // totaloffsetminutes(created)
+     */
+    static totaloffsetminutes(field: FieldOperand) {
+        return call("totaloffsetminutes", fieldOperand(field));
+    }
+
+    /**
+     * totalseconds(field): the duration in seconds, including fractional seconds
+     * @example
+     * FilterFunctions.totalseconds('elapsed') // totalseconds(elapsed)
+     */
+    static totalseconds(field: FieldOperand) {
+        return call("totalseconds", fieldOperand(field));
+    }
+
+    /**
+     * date(field): the date part of a date-time
+     * @example
+     * FilterFunctions.date('created') // date(created)
+     */
+    static date(field: FieldOperand) {
+        return call("date", fieldOperand(field));
+    }
+
+    /**
+     * time(field): the time-of-day part of a date-time
+     * @example
+     * FilterFunctions.time('created') // time(created)
+     */
+    static time(field: FieldOperand) {
+        return call("time", fieldOperand(field));
+    }
+
+    /**
+     * now(): the current point in time
+     * @example
+     * FilterFunctions.now() // now()
+     */
+    static now() {
+        return call("now");
+    }
+
+    /**
+     * maxdatetime(): the latest possible point in time
+     * @example
+     * FilterFunctions.maxdatetime() // maxdatetime()
+     */
+    static maxdatetime() {
+        return call("maxdatetime");
+    }
+
+    /**
+     * mindatetime(): the earliest possible point in time
+     * @example
+     * FilterFunctions.mindatetime() // mindatetime()
+     */
+    static mindatetime() {
+        return call("mindatetime");
+    }
+
+    /**
+     * round(field): the number rounded to the nearest integer
+     * @example
+     * FilterFunctions.round('price') // round(price)
+     */
+    static round(field: FieldOperand) {
+        return call("round", fieldOperand(field));
+    }
+
+    /**
+     * floor(field): the largest integer not greater than the number
+     * @example
+     * FilterFunctions.floor('price') // floor(price)
+     */
+    static floor(field: FieldOperand) {
+        return call("floor", fieldOperand(field));
+    }
+
+    /**
+     * ceiling(field): the smallest integer not less than the number
+     * @example
+     * FilterFunctions.ceiling('price') // ceiling(price)
+     */
+    static ceiling(field: FieldOperand) {
+        return call("ceiling", fieldOperand(field));
+    }
+
+    /**
+     * cast(field, type) or cast(type): the value converted to a qualified type name;
+     * with a single argument the current instance is cast
+     * @example
+     * FilterFunctions.cast('price', 'Edm.String') // cast(price, Edm.String)
+     * FilterFunctions.cast('Model.Employee') // cast(Model.Employee)
+     */
+    static cast(fieldOrType: FieldOperand, type?: string) {
+        return type === undefined
+            ? call("cast", fieldOperand(fieldOrType))
+            : call("cast", fieldOperand(fieldOrType), property(type));
+    }
+
+    /**
+     * isof(field, type) or isof(type): true if the value is of the qualified type;
+     * with a single argument the current instance is checked
+     * @example
+     * FilterFunctions.isof('shipTo', 'Model.Address') // isof(shipTo, Model.Address)
+     * FilterFunctions.isof('Model.Employee') // isof(Model.Employee)
+     */
+    static isof(fieldOrType: FieldOperand, type?: string) {
+        return type === undefined
+            ? call("isof", fieldOperand(fieldOrType))
+            : call("isof", fieldOperand(fieldOrType), property(type));
+    }
+
+    /**
+     * hassubset(field, values): true if the collection contains all the values, in any order
+     * @example
+     * FilterFunctions.hassubset('tags', ['a', 'b']) // hassubset(tags, ["a","b"])
+     */
+    static hassubset(field: FieldOperand, values: Value[] | FilterNode) {
+        return call("hassubset", fieldOperand(field), collection(values));
+    }
+
+    /**
+     * hassubsequence(field, values): true if the collection contains the values in the same order
+     * @example
+     * FilterFunctions.hassubsequence('steps', [1, 3]) // hassubsequence(steps, [1,3])
+     */
+    static hassubsequence(field: FieldOperand, values: Value[] | FilterNode) {
+        return call("hassubsequence", fieldOperand(field), collection(values));
+    }
+}
@@ -0,0 +1,635 @@
+import type {
+    ArithmeticOperator,
+    ComparisonOperator,
+    FilterNode,
+    LambdaOperator,
+    LiteralNode,
+    LogicalOperator,
+    ParameterNode,
+    PropertyNode,
+} from "./FilterAST";
+import { BUILT_IN_FUNCTIONS } from "./FilterFunctions";
+import type { Value } from "./SearchBuilder";
+import { TypedLiteral, type TypedLiteralKind } from "./TypedLiteral";
+
+/**
+ * The current version of the JSON filter format
+ */
+export const FILTER_JSON_VERSION = 1;
+
+/**
+ * A literal in the JSON filter format. Strings, finite numbers, booleans and null are written
+ * as they are; other values carry a `kind` and their text, so they survive the round-trip.
+ * @example
+ * { type: "literal", value: "John" }
+ * { type: "literal", kind: "dateTimeOffset", value: "2024-01-01T10:00:00.000Z" }
+ * { type: "literal", kind: "enum", typeName: "Sales.Color", value: "Red" }
+ * { type: "literal", kind: "double", value: "INF" }
+ */
+export type LiteralJSON =
+    | { type: "literal"; value: string | number | boolean | null }
+    | { type: "literal"; kind: "dateTimeOffset"; value: string }
+    | { type: "literal"; kind: "double"; value: "INF" | "-INF" | "NaN" }
+    | {
+          type: "literal";
+          kind: Exclude<TypedLiteralKind, "enum">;
+          value: string;
+      }
+    | { type: "literal"; kind: "enum"; typeName: string; value: string };
+
+/**
+ * A node of an expression tree in the JSON filter format: a FilterNode with JSON literals
+ */
+export type FilterNodeJSON =
+    | PropertyNode
+    | ParameterNode
+    | LiteralJSON
+    | { type: "collection"; items: LiteralJSON[] }
+    | { type: "function"; name: string; args: FilterNodeJSON[] }
+    | {
+          type: "comparison";
+          operator: ComparisonOperator;
+          left: FilterNodeJSON;
+          right: FilterNodeJSON;
+      }
+    | {
+          type: "arithmetic";
+          operator: ArithmeticOperator;
+          left: FilterNodeJSON;
+          right: FilterNodeJSON;
+      }
+    | { type: "in"; left: FilterNodeJSON; values: FilterNodeJSON[] }
+    | {
+          type: "logical";
+          operator: LogicalOperator;
+          left: FilterNodeJSON;
+          right: FilterNodeJSON;
+      }
+    | { type: "not"; expression: FilterNodeJSON }
+    | { type: "group"; expression: FilterNodeJSON }
+    | {
+          type: "lambda";
+          operator: LambdaOperator;
+          collection: string;
+          variable: string;
+          expression?: FilterNodeJSON;
+      };
+
+/**
+ * A filter in the versioned JSON format, described by `schema/filter.schema.json`
+ * @example
+ * {
+ *     version: 1,
+ *     filter: {
+ *         type: "comparison",
+ *         operator: "ge",
+ *         left: { type: "property", path: "createdAt" },
+ *         right: { type: "literal", kind: "dateTimeOffset", value: "2024-01-01T00:00:00.000Z" },
+ *     },
+ * }
+ */
+export type FilterDocument = {
+    version: typeof FILTER_JSON_VERSION;
+    /**
+     * The expression tree, or null for an empty filter
+     */
+    filter: FilterNodeJSON | null;
+};
+
+const COMPARISON_OPERATORS = new Set(["eq", "ne", "gt", "ge", "lt", "le"]);
+const ARITHMETIC_OPERATORS = new Set([
+    "add",
+    "sub",
+    "mul",
+    "div",
+    "divby",
+    "mod",
+]);
+const LOGICAL_OPERATORS = new Set(["and", "or"]);
+
+/**
+ * A property path: `/`-separated identifiers, `$`-prefixed names such as `$count`, or qualified
+ * type names. A first segment that reads as a literal, such as `true`, is rejected, so a path
+ * always builds as the single property it describes.
+ */
+const PROPERTY_PATH =
+    /^(?!(true|false|null|INF|NaN)(\/|$))\$?[A-Za-z_]\w*(\.[A-Za-z_]\w*)*(\/\$?[A-Za-z_]\w*(\.[A-Za-z_]\w*)*)*$/;
+
+/**
+ * A function name: an identifier, or a namespace-qualified name
+ */
+const FUNCTION_NAME = /^[A-Za-z_]\w*(\.[A-Za-z_]\w*)*$/;
+
+const IDENTIFIER = /^[A-Za-z_]\w*$/;
+const LAMBDA_OPERATORS = new Set(["any", "all"]);
+const SPECIAL_NUMBERS = new Map([
+    ["INF", Infinity],
+    ["-INF", -Infinity],
+    ["NaN", NaN],
+]);
+
+/**
+ * Readers of the literals written with a `kind`, by kind; they throw on invalid text
+ */
+const LITERAL_READERS: Record<
+    string,
+    (text: string, typeName: string) => Value
+> = {
+    binary: (text) => TypedLiteral.binary(text),
+    date: (text) => TypedLiteral.date(text),
+    dateTimeOffset: (text) => {
+        const date = new Date(text);
+
+        if (isNaN(date.getTime())) {
+            throw new Error(`Invalid date-time '${text}'`);
+        }
+
+        return date;
+    },
+    decimal: (text) => TypedLiteral.decimal(text),
+    double: (text) => {
+        if (!SPECIAL_NUMBERS.has(text)) {
+            throw new Error(`Expected INF, -INF or NaN but found '${text}'`);
+        }
+
+        return SPECIAL_NUMBERS.get(text) as number;
+    },
+    duration: (text) => TypedLiteral.duration(text),
+    enum: (text, typeName) => TypedLiteral.enum(typeName, text),
+    guid: (text) => TypedLiteral.guid(text),
+    timeOfDay: (text) => TypedLiteral.timeOfDay(text),
+};
+
+/**
+ * Converts a literal value to the JSON format
+ * @throws Error for an invalid Date
+ */
+function encodeLiteral(value: Value): LiteralJSON {
+    if (value instanceof TypedLiteral) {
+        return value.kind === "enum"
+            ? {
+                  type: "literal",
+                  kind: "enum",
+                  typeName: value.typeName as string,
+                  value: value.value,
+              }
+            : { type: "literal", kind: value.kind, value: value.value };
+    }
+
+    if (value instanceof Date) {
+        if (isNaN(value.getTime())) {
+            throw new Error("Invalid Date in filter");
+        }
+
+        return {
+            type: "literal",
+            kind: "dateTimeOffset",
+            value: value.toISOString(),
+        };
+    }
+
+    if (typeof value === "number" && !isFinite(value)) {
+        return {
+            type: "literal",
+            kind: "double",
+            value: isNaN(value) ? "NaN" : value > 0 ? "INF" : "-INF",
+        };
+    }
+
+    return { type: "literal", value };
+}
+
+/**
+ * Converts an expression tree node to the JSON format
+ */
+function encode(node: FilterNode): FilterNodeJSON {
+    switch (node.type) {
+        case "literal":
+            return encodeLiteral(node.value);
+
+        case "collection":
+            return {
+                ...node,
+                items: node.items.map((item) => encodeLiteral(item.value)),
+            };
+
+        case "function":
+            return { ...node, args: node.args.map(encode) };
+
+        case "comparison":
+        case "arithmetic":
+        case "logical":
+            return {
+                ...node,
+                left: encode(node.left),
+                right: encode(node.right),
+            } as FilterNodeJSON;
+
+        case "in":
+            return {
+                ...node,
+                left: encode(node.left),
+                values: node.values.map(encode),
+            };
+
+        case "not":
+        case "group":
+            return { ...node, expression: encode(node.expression) };
+
+        case "lambda": {
+            const { expression, ...lambda } = node;
+
+            return expression
+                ? { ...lambda, expression: encode(expression) }
+                : lambda;
+        }
+
+        default:
+            return { ...node };
+    }
+}
+
+/**
+ * Reads expression tree nodes from the JSON format, checking them as it goes
+ */
+class FilterJSONReader {
+    /**
+     * Range variables of the enclosing lambdas
+     */
+    private variables: string[] = [];
+
+    /**
+     * @param pointer JSON pointer of the value being read, for error messages
+     */
+    private fail(pointer: string, reason: string): never {
+        throw new Error(
+            `Invalid filter JSON at '${pointer || "/"}': ${reason}`
+        );
+    }
+
+    private object(value: unknown, pointer: string): Record<string, unknown> {
+        if (
+            typeof value !== "object" ||
+            value === null ||
+            Array.isArray(value)
+        ) {
+            this.fail(pointer, "expected an object");
+        }
+
+        return value as Record<string, unknown>;
+    }
+
+    private string(
+        node: Record<string, unknown>,
+        key: string,
+        pointer: string
+    ): string {
+        const value = node[key];
+
+        if (typeof value !== "string") {
+            this.fail(`${pointer}/${key}`, "expected a string");
+        }
+
+        return value;
+    }
+
+    private operator(
+        node: Record<string, unknown>,
+        operators: Set<string>,
+        pointer: string
+    ): string {
+        const operator = this.string(node, "operator", pointer);
+
+        if (!operators.has(operator)) {
+            this.fail(`${pointer}/operator`, `unknown operator '${operator}'`);
+        }
+
+        return operator;
+    }
+
+    private array(
+        node: Record<string, unknown>,
+        key: string,
+        pointer: string
+    ): unknown[] {
+        const value = node[key];
+
+        if (!Array.isArray(value)) {
+            this.fail(`${pointer}/${key}`, "expected an array");
+        }
+
+        return value;
+    }
+
+    private literal(value: unknown, pointer: string): LiteralNode {
+        const node = this.object(value, pointer);
+
+        if (node.type !== "literal") {
+            this.fail(`${pointer}/type`, "expected a literal");
+        }
+
+        const { kind, value: text } = node;
+
+        if (kind === undefined) {
+            if (
+                text === null ||
+                typeof text === "string" ||
+                typeof text === "boolean" ||
+                (typeof text === "number" && isFinite(text))
+            ) {
+                return { type: "literal", value: text };
+            }
+
+            this.fail(
+                `${pointer}/value`,
+                "expected a string, number, boolean or null"
+            );
+        }
+
+        if (typeof text !== "string") {
+            this.fail(`${pointer}/value`, "expected a string");
+        }
+
+        const reader =
+            typeof kind === "string" &&
+            Object.prototype.hasOwnProperty.call(LITERAL_READERS, kind)
+                ? LITERAL_READERS[kind]
+                : undefined;
+
+        if (!reader) {
+            this.fail(
+                `${pointer}/kind`,
+                `unknown literal kind '${String(kind)}'`
+            );
+        }
+
+        const typeName =
+            kind === "enum" ? this.string(node, "typeName", pointer) : "";
+
+        try {
+            return { type: "literal", value: reader(text, typeName) };
+        } catch (error) {
+            this.fail(pointer, (error as Error).message);
+        }
+    }
+
+    private nodes(
+        node: Record<string, unknown>,
+        key: string,
+        pointer: string
+    ): FilterNode[] {
+        return this.array(node, key, pointer).map((item, index) =>
+            this.read(item, `${pointer}/${key}/${index}`)
+        );
+    }
+
+    read(value: unknown, pointer: string): FilterNode {
+        const node = this.object(value, pointer);
+        const child = (key: string) =>
+            this.read(node[key], `${pointer}/${key}`);
+
+        switch (node.type) {
+            case "property": {
+                const path = this.string(node, "path", pointer);
+
+                if (!PROPERTY_PATH.test(path)) {
+                    this.fail(
+                        `${pointer}/path`,
+                        `invalid property path '${path}'`
+                    );
+                }
+
+                return { type: "property", path };
+            }
+
+            case "parameter": {
+                const name = this.string(node, "name", pointer);
+
+                if (!IDENTIFIER.test(name)) {
+                    this.fail(
+                        `${pointer}/name`,
+                        `invalid parameter name '${name}'`
+                    );
+                }
+
+                return { type: "parameter", name };
+            }
+
+            case "literal":
+                return this.literal(node, pointer);
+
+            case "collection":
+                return {
+                    type: "collection",
+                    items: this.array(node, "items", pointer).map(
+                        (item, index) =>
+                            this.literal(item, `${pointer}/items/${index}`)
+                    ),
+                };
+
+            case "function": {
+                const name = this.string(node, "name", pointer);
+                const args = this.nodes(node, "args", pointer);
+                const arity = BUILT_IN_FUNCTIONS[name];
+
+                if (!FUNCTION_NAME.test(name)) {
+                    this.fail(
+                        `${pointer}/name`,
+                        `invalid function name '${name}'`
+                    );
+                }
+
+                if (!arity && !name.includes(".")) {
+                    this.fail(`${pointer}/name`, `unknown function '${name}'`);
+                }
+
+                if (
+                    arity &&
+                    (args.length < arity[0] || args.length > arity[1])
+                ) {
+                    this.fail(
+                        `${pointer}/args`,
+                        `function '${name}' does not take ${args.length} arguments`
+                    );
+                }
+
+                return { type: "function", name, args };
+            }
+
+            case "comparison":
+                return {
+                    type: "comparison",
+                    operator: this.operator(
+                        node,
+                        COMPARISON_OPERATORS,
+                        pointer
+                    ) as ComparisonOperator,
+                    left: child("left"),
+                    right: child("right"),
+                };
+
+            case "arithmetic":
+                return {
+                    type: "arithmetic",
+                    operator: this.operator(
+                        node,
+                        ARITHMETIC_OPERATORS,
+                        pointer
+                    ) as ArithmeticOperator,
+                    left: child("left"),
+                    right: child("right"),
+                };
+
+            case "logical":
+                return {
+                    type: "logical",
+                    operator: this.operator(
+                        node,
+                        LOGICAL_OPERATORS,
+                        pointer
+                    ) as LogicalOperator,
+                    left: child("left"),
+                    right: child("right"),
+                };
+
+            case "in":
+                return {
+                    type: "in",
+                    left: child("left"),
+                    values: this.nodes(node, "values", pointer),
+                };
+
+            case "not":
+            case "group":
+                return { type: node.type, expression: child("expression") };
+
+            case "lambda":
+                return this.lambda(node, pointer);
+
+            default:
+                return this.fail(
+                    `${pointer}/type`,
+                    `unknown node type '${String(node.type)}'`
+                );
+        }
+    }
+
+    private lambda(node: Record<string, unknown>, pointer: string): FilterNode {
+        const operator = this.operator(
+            node,
+            LAMBDA_OPERATORS,
+            pointer
+        ) as LambdaOperator;
+        const collection = this.string(node, "collection", pointer);
+        const variable = this.string(node, "variable", pointer);
+
+        if (!PROPERTY_PATH.test(collection)) {
+            this.fail(
+                `${pointer}/collection`,
+                `invalid collection path '${collection}'`
+            );
+        }
+
+        if (node.expression === undefined) {
+            return { type: "lambda", operator, collection, variable };
+        }
+
+        if (!IDENTIFIER.test(variable)) {
+            this.fail(
+                `${pointer}/variable`,
+                `invalid variable name '${variable}'`
+            );
+        }
+
+        if (this.variables.includes(variable)) {
+            this.fail(
+                `${pointer}/variable`,
+                `variable '${variable}' is already used by an enclosing lambda`
+            );
+        }
+
+        this.variables.push(variable);
+
+        try {
+            return {
+                type: "lambda",
+                operator,
+                collection,
+                variable,
+                expression: this.read(node.expression, `${pointer}/expression`),
+            };
+        } finally {
+            this.variables.pop();
+        }
+    }
+}
+
+/**
+ * Converts an expression tree to the versioned JSON filter format. Dates, typed literals and
+ * non-finite numbers are written with their kind, so fromFilterJSON() restores them exactly.
+ *
+ * @param node The root node of the expression tree, or undefined for an empty filter
+ * @returns The filter document, ready for JSON.stringify()
+ * @throws Error if the tree contains an invalid Date
+ * @example
+ * toFilterJSON(SearchParser.parseAST("born lt 2000-01-01")!);
+ * // {
+ * //     version: 1,
+ * //     filter: {
+ * //         type: "comparison",
+ * //         operator: "lt",
+ * //         left: { type: "property", path: "born" },
+ * //         right: { type: "literal", kind: "date", value: "2000-01-01" },
+ * //     },
+ * // }
+ */
+export function toFilterJSON(node: FilterNode | undefined): FilterDocument {
+    return {
+        version: FILTER_JSON_VERSION,
+        filter: node ? encode(node) : null,
+    };
+}
+
+/**
+ * Reads a filter in the versioned JSON format, checking its structure, operators, function
+ * names and literal values
+ *
+ * @param json The filter document, or its JSON text
+ * @returns The root node of the expression tree, or undefined for an empty filter
+ * @throws Error with the JSON pointer of the problem if the document is invalid,
+ * or if its version is not supported
+ * @example
+ * fromFilterJSON('{"version":1,"filter":{"type":"property","path":"active"}}');
+ * // { type: "property", path: "active" }
+ */
+export function fromFilterJSON(
+    json: FilterDocument | string
+): FilterNode | undefined {
+    let document: unknown = json;
+
+    if (typeof json === "string") {
+        try {
+            document = JSON.parse(json);
+        } catch {
+            throw new Error("Invalid filter JSON: the text is not valid JSON");
+        }
+    }
+
+    if (
+        typeof document !== "object" ||
+        document === null ||
+        Array.isArray(document)
+    ) {
+        throw new Error("Invalid filter JSON at '/': expected an object");
+    }
+
+    const { version, filter } = document as Record<string, unknown>;
+
+    if (version !== FILTER_JSON_VERSION) {
+        throw new Error(`Unsupported filter JSON version '${String(version)}'`);
+    }
+
+    return filter === null
+        ? undefined
+        : new FilterJSONReader().read(filter, "/filter");
+}
@@ -0,0 +1,305 @@
+import { FilterSyntaxError } from "./FilterSyntaxError";
+
+/**
+ * Kinds of tokens produced by the FilterLexer
+ */
+export type TokenKind =
+    | "identifier" // Property names, keywords and function names
+    | "string" // Single-quoted string literal
+    | "number" // Integer or floating-point number, INF, -INF or NaN
+    | "decimal" // Decimal number with an 'M' suffix, e.g. 1.5M
+    | "dateTime" // Unquoted ISO 8601 date-time
+    | "date" // Unquoted ISO 8601 date, e.g. 2024-01-01
+    | "timeOfDay" // Unquoted time of day, e.g. 13:20:00
+    | "guid" // Unquoted GUID
+    | "typed" // Type-prefixed string, e.g. duration'PT1H' or Namespace.Color'Red'
+    | "collection" // JSON array literal, e.g. ["a","b"]
+    | "(" // Opening parenthesis
+    | ")" // Closing parenthesis
+    | "," // Argument separator
+    | ":" // Lambda variable separator
+    | "/" // Navigation path separator
+    | "eof"; // End of input
+
+/**
+ * A token of an OData filter expression
+ * @example
+ * // The input "name eq 'O''Brien'" produces:
+ * // { kind: "identifier", value: "name", start: 0, end: 4 }
+ * // { kind: "identifier", value: "eq", start: 5, end: 7 }
+ * // { kind: "string", value: "O'Brien", start: 8, end: 18 }
+ * // { kind: "eof", value: "", start: 18, end: 18 }
+ */
+export type Token = {
+    kind: TokenKind;
+    /**
+     * The token value; for strings this is the unescaped content without quotes
+     */
+    value: string;
+    /**
+     * The type prefix of a 'typed' token, e.g. "duration" or "Namespace.Color"
+     */
+    prefix?: string;
+    /**
+     * Offset of the first character of the token in the input
+     */
+    start: number;
+    /**
+     * Offset just past the last character of the token in the input
+     */
+    end: number;
+};
+
+const PUNCTUATION = new Set(["(", ")", ",", ":", "/"]);
+
+const IDENTIFIER_START = /[A-Za-z_$@]/;
+const IDENTIFIER_PART = /[A-Za-z0-9_.$@]/;
+const NUMBER_LIKE = /-?[0-9][0-9A-Za-z.:+\-]*|-INF(?![\w.])/y;
+const GUID_LIKE =
+    /[0-9A-Fa-f]{8}-[0-9A-Fa-f]{4}-[0-9A-Fa-f]{4}-[0-9A-Fa-f]{4}-[0-9A-Fa-f]{12}(?![\w-])/y;
+
+/**
+ * Token kinds of unquoted literals, by the pattern their text must match
+ */
+const LITERAL_PATTERNS: [TokenKind, RegExp][] = [
+    ["number", /^(-?\d+(\.\d+)?([eE][+-]?\d+)?|-INF)$/],
+    ["decimal", /^-?\d+(\.\d+)?([eE][+-]?\d+)?[mM]$/],
+    [
+        "dateTime",
+        /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/,
+    ],
+    ["date", /^\d{4}-\d{2}-\d{2}$/],
+    ["timeOfDay", /^\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/],
+    ["guid", /^[0-9A-Fa-f]{8}-([0-9A-Fa-f]{4}-){3}[0-9A-Fa-f]{12}$/],
+];
+
+/**
+ * Splits OData filter expressions into tokens
+ *
+ * @example
+ * const tokens = FilterLexer.tokenize("contains(name, 'John')");
+ * console.log(tokens.map((token) => token.value));
+ * // ["contains", "(", "name", ",", "John", ")", ""]
+ */
+export class FilterLexer {
+    /**
+     * Converts an OData filter expression into a list of tokens ending with an 'eof' token
+     * @param input The OData filter expression
+     * @returns The tokens of the expression
+     * @throws FilterSyntaxError if the input contains an unterminated string or an unexpected character
+     */
+    static tokenize(input: string): Token[] {
+        const tokens: Token[] = [];
+        let index = 0;
+
+        while (index < input.length) {
+            const char = input[index] as string;
+
+            if (/\s/.test(char)) {
+                index++;
+
+                continue;
+            }
+
+            if (PUNCTUATION.has(char)) {
+                tokens.push({
+                    kind: char as TokenKind,
+                    value: char,
+                    start: index,
+                    end: index + 1,
+                });
+                index++;
+
+                continue;
+            }
+
+            if (char === "[") {
+                const token = this.readCollection(input, index);
+
+                tokens.push(token);
+                index = token.end;
+
+                continue;
+            }
+
+            if (char === "'") {
+                const token = this.readString(input, index);
+
+                tokens.push(token);
+                index = token.end;
+
+                continue;
+            }
+
+            GUID_LIKE.lastIndex = index;
+            NUMBER_LIKE.lastIndex = index;
+
+            const literalMatch =
+                GUID_LIKE.exec(input) ?? NUMBER_LIKE.exec(input);
+
+            if (literalMatch) {
+                const text = literalMatch[0];
+                const [kind] =
+                    LITERAL_PATTERNS.find(([, pattern]) =>
+                        pattern.test(text)
+                    ) ?? [];
+
+                if (!kind) {
+                    throw new FilterSyntaxError(
+                        `Invalid literal '${text}'`,
+                        input,
+                        index,
+                        `'${text}'`,
+                        ["number", "date-time", "date", "time of day", "GUID"]
+                    );
+                }
+
+                tokens.push({
+                    kind,
+                    value: kind === "decimal" ? text.slice(0, -1) : text,
+                    start: index,
+                    end: index + text.length,
+                });
+                index += text.length;
+
+                continue;
+            }
+
+            if (IDENTIFIER_START.test(char)) {
+                const start = index;
+
+                while (
+                    index < input.length &&
+                    IDENTIFIER_PART.test(input[index] as string)
+                ) {
+                    index++;
+                }
+
+                if (input[index] === "'") {
+                    const token = this.readString(input, index);
+
+                    tokens.push({
+                        kind: "typed",
+                        value: token.value,
+                        prefix: input.slice(start, index),
+                        start,
+                        end: token.end,
+                    });
+                    index = token.end;
+
+                    continue;
+                }
+
+                tokens.push({
+                    kind: "identifier",
+                    value: input.slice(start, index),
+                    start,
+                    end: index,
+                });
+
+                continue;
+            }
+
+            throw new FilterSyntaxError(
+                `Unexpected character '${char}'`,
+                input,
+                index,
+                `'${char}'`
+            );
+        }
+
+        tokens.push({
+            kind: "eof",
+            value: "",
+            start: input.length,
+            end: input.length,
+        });
+
+        return tokens;
+    }
+
+    /**
+     * Reads a single-quoted string literal, where `''` is an escaped quote
+     * @param input The OData filter expression
+     * @param start Offset of the opening quote
+     * @returns The string token
+     * @throws FilterSyntaxError if the string is not terminated
+     */
+    private static readString(input: string, start: number): Token {
+        let index = start + 1;
+        let value = "";
+
+        while (index < input.length) {
+            const char = input[index] as string;
+
+            if (char === "'") {
+                if (input[index + 1] === "'") {
+                    value += "'";
+                    index += 2;
+
+                    continue;
+                }
+
+                return { kind: "string", value, start, end: index + 1 };
+            }
+
+            value += char;
+            index++;
+        }
+
+        throw new FilterSyntaxError(
+            "Unterminated string literal",
+            input,
+            input.length,
+            "end of filter",
+            ["'"]
+        );
+    }
+
+    /**
+     * Reads a JSON array literal such as `["a","b"]`, keeping its raw text as the token value
+     * @param input The OData filter expression
+     * @param start Offset of the opening bracket
+     * @returns The collection token
+     * @throws FilterSyntaxError if the array is not terminated
+     */
+    private static readCollection(input: string, start: number): Token {
+        let depth = 0;
+        let inString = false;
+
+        for (let index = start; index < input.length; index++) {
+            const char = input[index] as string;
+
+            if (inString) {
+                if (char === "\\") {
+                    index++;
+                } else if (char === '"') {
+                    inString = false;
+                }
+
+                continue;
+            }
+
+            if (char === '"') {
+                inString = true;
+            } else if (char === "[") {
+                depth++;
+            } else if (char === "]" && --depth === 0) {
+                return {
+                    kind: "collection",
+                    value: input.slice(start, index + 1),
+                    start,
+                    end: index + 1,
+                };
+            }
+        }
+
+        throw new FilterSyntaxError(
+            "Unterminated collection literal",
+            input,
+            input.length,
+            "end of filter",
+            ["']'"]
+        );
+    }
+}
@@ -0,0 +1,307 @@
+import {
+    literal,
+    serialize,
+    type ComparisonOperator,
+    type FilterNode,
+    type LiteralNode,
+    type LogicalOperator,
+} from "./FilterAST";
+
+/**
+ * The operator that keeps a comparison's meaning when its operands are swapped
+ */
+const MIRRORED: Record<ComparisonOperator, ComparisonOperator> = {
+    eq: "eq",
+    ne: "ne",
+    gt: "lt",
+    ge: "le",
+    lt: "gt",
+    le: "ge",
+};
+
+/**
+ * Sort rank of operand kinds, so that properties come before the values they are compared with
+ */
+const OPERAND_RANK: Partial<Record<FilterNode["type"], number>> = {
+    property: 0,
+    lambda: 1,
+    function: 2,
+    arithmetic: 3,
+    parameter: 5,
+    literal: 5,
+    collection: 5,
+};
+
+/**
+ * Orders two operands deterministically: by kind first, then by their serialized text
+ * @returns A negative number, zero or a positive number
+ */
+function compareOperands(left: FilterNode, right: FilterNode): number {
+    const rank =
+        (OPERAND_RANK[left.type] ?? 4) - (OPERAND_RANK[right.type] ?? 4);
+
+    if (rank) {
+        return rank;
+    }
+
+    const a = serialize(left);
+    const b = serialize(right);
+
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Removes operands with the same serialized text, keeping the first
+ */
+function unique<T extends FilterNode>(nodes: T[]): T[] {
+    const seen = new Set<string>();
+
+    return nodes.filter((node) => {
+        const key = serialize(node);
+
+        return !seen.has(key) && !!seen.add(key);
+    });
+}
+
+/**
+ * Collects the operands of a chain of the same logical operator
+ * @example
+ * operands(SearchParser.parseAST("a and (b and c)")!, "and") // [a, b, c], as nodes
+ */
+function operands(node: FilterNode, operator: LogicalOperator): FilterNode[] {
+    return node.type === "logical" && node.operator === operator
+        ? [...operands(node.left, operator), ...operands(node.right, operator)]
+        : [node];
+}
+
+/**
+ * Joins operands with a logical operator, left-associatively
+ */
+function join(nodes: FilterNode[], operator: LogicalOperator): FilterNode {
+    return nodes.reduce((left, right) => ({
+        type: "logical",
+        operator,
+        left,
+        right,
+    }));
+}
+
+/**
+ * Reads the property and literal values of an `eq` comparison or an `in` over literals
+ * @returns The membership test, or undefined if the node is neither
+ */
+function membershipOf(
+    node: FilterNode
+): { path: string; values: LiteralNode[] } | undefined {
+    if (
+        node.type === "comparison" &&
+        node.operator === "eq" &&
+        node.left.type === "property" &&
+        node.right.type === "literal"
+    ) {
+        return { path: node.left.path, values: [node.right] };
+    }
+
+    if (
+        node.type === "in" &&
+        node.left.type === "property" &&
+        node.values.every((value) => value.type === "literal")
+    ) {
+        return { path: node.left.path, values: node.values as LiteralNode[] };
+    }
+
+    return undefined;
+}
+
+/**
+ * Creates the membership test for a property: `eq` for a single value, `in` otherwise
+ */
+function membership(path: string, values: LiteralNode[]): FilterNode {
+    const sorted = unique(values).sort(compareOperands);
+    const left: FilterNode = { type: "property", path };
+
+    return sorted.length === 1
+        ? {
+              type: "comparison",
+              operator: "eq",
+              left,
+              right: sorted[0] as LiteralNode,
+          }
+        : { type: "in", left, values: sorted };
+}
+
+/**
+ * Merges the `eq` and `in` tests on the same property in a disjunction into one `in`
+ * @example
+ * mergeMemberships([a eq 1, b eq 2, a in (3, 4)]) // [a in (1, 3, 4), b eq 2]
+ */
+function mergeMemberships(nodes: FilterNode[]): FilterNode[] {
+    const groups = new Map<string, LiteralNode[]>();
+    const rest: FilterNode[] = [];
+
+    for (const node of nodes) {
+        const test = membershipOf(node);
+
+        if (test) {
+            groups.set(test.path, [
+                ...(groups.get(test.path) ?? []),
+                ...test.values,
+            ]);
+        } else {
+            rest.push(node);
+        }
+    }
+
+    return [
+        ...[...groups].map(([path, values]) => membership(path, values)),
+        ...rest,
+    ];
+}
+
+/**
+ * Normalizes a chain of `and` or `or`: flattens it, folds boolean constants, drops duplicates,
+ * merges equality tests into `in` for `or` and sorts the operands
+ */
+function normalizeLogical(node: FilterNode & { type: "logical" }): FilterNode {
+    const { operator } = node;
+    const absorbing = operator === "or";
+    let nodes = operands(node, operator)
+        .map(normalize)
+        .flatMap((child) => operands(child, operator));
+
+    if (
+        nodes.some(
+            (child) => child.type === "literal" && child.value === absorbing
+        )
+    ) {
+        return literal(absorbing);
+    }
+
+    nodes = nodes.filter(
+        (child) => !(child.type === "literal" && child.value === !absorbing)
+    );
+
+    if (operator === "or") {
+        nodes = mergeMemberships(nodes);
+    }
+
+    nodes = unique(nodes).sort(compareOperands);
+
+    return nodes.length ? join(nodes, operator) : literal(!absorbing);
+}
+
+/**
+ * Returns the normalized negation of an expression, pushing `not` inward
+ * (De Morgan for `and`/`or`, `eq` and `ne` swapped, double negation removed)
+ */
+function negate(node: FilterNode): FilterNode {
+    switch (node.type) {
+        case "group":
+            return negate(node.expression);
+
+        case "not":
+            return normalize(node.expression);
+
+        case "logical":
+            return normalize({
+                type: "logical",
+                operator: node.operator === "and" ? "or" : "and",
+                left: { type: "not", expression: node.left },
+                right: { type: "not", expression: node.right },
+            });
+
+        case "comparison":
+            // 'gt', 'ge', 'lt' and 'le' are false for null, so they have no exact inverse
+            if (node.operator === "eq" || node.operator === "ne") {
+                return normalize({
+                    ...node,
+                    operator: node.operator === "eq" ? "ne" : "eq",
+                });
+            }
+            break;
+
+        case "literal":
+            if (typeof node.value === "boolean") {
+                return literal(!node.value);
+            }
+            break;
+    }
+
+    return { type: "not", expression: normalize(node) };
+}
+
+/**
+ * Rewrites an expression tree into a canonical form, so that equivalent filters serialize
+ * to the same string, e.g. for cache keys or deduplication.
+ *
+ * - Groups are removed; serialization adds the parentheses precedence requires
+ * - Nested `and`/`or` are flattened, duplicates removed and boolean constants folded
+ * - `eq` tests on the same property joined with `or` are merged into `in`, with sorted values
+ * - `not` is pushed inward with De Morgan's laws, and double negation removed
+ * - Operands of `and`, `or`, `eq`, `ne`, `add` and `mul` are sorted, properties first
+ *
+ * The normalized tree matches the same items as the original.
+ *
+ * @param node The root node of the expression tree
+ * @returns The normalized tree
+ * @example
+ * serialize(normalize(SearchParser.parseAST("not (b eq 2 and a gt 1) or (c eq 1 or c eq 3)")!));
+ * // "b ne 2 or c in (1, 3) or not (a gt 1)"
+ */
+export function normalize(node: FilterNode): FilterNode {
+    switch (node.type) {
+        case "group":
+            return normalize(node.expression);
+
+        case "not":
+            return negate(node.expression);
+
+        case "logical":
+            return normalizeLogical(node);
+
+        case "comparison": {
+            const left = normalize(node.left);
+            const right = normalize(node.right);
+
+            return compareOperands(left, right) > 0
+                ? {
+                      ...node,
+                      operator: MIRRORED[node.operator],
+                      left: right,
+                      right: left,
+                  }
+                : { ...node, left, right };
+        }
+
+        case "in": {
+            const left = normalize(node.left);
+            const test = membershipOf({ ...node, left });
+
+            return test
+                ? membership(test.path, test.values)
+                : { ...node, left, values: node.values.map(normalize) };
+        }
+
+        case "arithmetic": {
+            const left = normalize(node.left);
+            const right = normalize(node.right);
+            const commutative =
+                node.operator === "add" || node.operator === "mul";
+
+            return commutative && compareOperands(left, right) > 0
+                ? { ...node, left: right, right: left }
+                : { ...node, left, right };
+        }
+
+        case "function":
+            return { ...node, args: node.args.map(normalize) };
+
+        case "lambda":
+            return node.expression
+                ? { ...node, expression: normalize(node.expression) }
+                : node;
+
+        default:
+            return node;
+    }
+}
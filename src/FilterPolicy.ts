@@ -0,0 +1,448 @@
+import type {
+    ArithmeticOperator,
+    ComparisonOperator,
+    FilterNode,
+    LambdaOperator,
+} from "./FilterAST";
+import { SearchParser, type FilterInput } from "./SearchParser";
+import { TypedLiteral } from "./TypedLiteral";
+
+/**
+ * Functions whose arguments may include a qualified type name, which is not a field
+ */
+const TYPE_FUNCTIONS = new Set(["cast", "isof"]);
+
+const QUALIFIED_NAME = /^[A-Za-z_]\w*(\.[A-Za-z_]\w*)+$/;
+
+/**
+ * An operator or function a policy can allow on a field
+ */
+export type PolicyOperator =
+    | ComparisonOperator
+    | ArithmeticOperator
+    | LambdaOperator
+    | "in"
+    | (string & {});
+
+/**
+ * Limits on the filters accepted from untrusted clients. Limits that are not set are not enforced.
+ * @example
+ * const policy: FilterPolicy = {
+ *     fields: {
+ *         name: ["eq", "contains", "startswith"],
+ *         age: ["eq", "gt", "ge", "lt", "le"],
+ *         status: ["eq", "in"],
+ *         tags: ["any"],
+ *         "tags/$this": ["eq"],
+ *         createdAt: true,
+ *     },
+ *     maxDepth: 4,
+ *     maxConditions: 10,
+ *     maxInLength: 50,
+ *     maxLambdaDepth: 1,
+ *     maxStringLength: 100,
+ * };
+ */
+export type FilterPolicy = {
+    /**
+     * The fields that may be used, with the operators and functions allowed on each, or `true`
+     * for any. Navigation paths are listed in full, e.g. `customer/name`, and paths inside
+     * lambdas through their collection, e.g. `orders/total` for `orders/any(o:o/total gt 1)`.
+     * The elements of a primitive collection are listed as `$this` of the collection, e.g.
+     * `tags/$this` for `tags/any(t:t eq 'x')`.
+     */
+    fields?: Record<string, true | readonly PolicyOperator[]>;
+    /**
+     * Maximum nesting of parentheses, `not`, function calls and lambdas
+     */
+    maxDepth?: number;
+    /**
+     * Maximum number of conditions, including the conditions inside lambdas
+     */
+    maxConditions?: number;
+    /**
+     * Maximum number of values in an `in` list
+     */
+    maxInLength?: number;
+    /**
+     * Maximum nesting of `any` and `all`
+     */
+    maxLambdaDepth?: number;
+    /**
+     * Maximum length of a string literal, or of the text of a typed literal such as `binary'...'`
+     */
+    maxStringLength?: number;
+};
+
+/**
+ * The rule of a policy that a filter broke
+ */
+export type FilterPolicyViolation =
+    | "fieldNotAllowed"
+    | "operatorNotAllowed"
+    | "maxDepth"
+    | "maxConditions"
+    | "maxInLength"
+    | "maxLambdaDepth"
+    | "maxStringLength";
+
+/**
+ * Error thrown when a filter breaks a FilterPolicy. Its `code` tells which rule was broken,
+ * so it can be mapped to a client error response.
+ *
+ * @example
+ * try {
+ *     SearchParser.parse(request.query.$filter, { policy });
+ * } catch (error) {
+ *     if (error instanceof FilterPolicyError) {
+ *         return response.status(400).json({ code: error.code, message: error.message });
+ *     }
+ *
+ *     throw error;
+ * }
+ */
+export class FilterPolicyError extends Error {
+    override name = "FilterPolicyError";
+
+    /**
+     * @param code The rule that was broken
+     * @param message Description of the violation
+     * @param path The field the violation concerns, if any
+     * @param limit The limit that was exceeded, for the `max` rules
+     */
+    constructor(
+        readonly code: FilterPolicyViolation,
+        message: string,
+        readonly path?: string,
+        readonly limit?: number
+    ) {
+        super(message);
+    }
+}
+
+/**
+ * Throws the error for a nesting depth over the policy limit
+ * @throws FilterPolicyError if the depth is over the limit
+ */
+export function assertDepth(depth: number, policy: FilterPolicy) {
+    if (policy.maxDepth !== undefined && depth > policy.maxDepth) {
+        throw new FilterPolicyError(
+            "maxDepth",
+            `Filter is nested more than ${policy.maxDepth} levels deep`,
+            undefined,
+            policy.maxDepth
+        );
+    }
+}
+
+/**
+ * Walks an expression tree and checks it against a policy
+ */
+class PolicyChecker {
+    private conditions = 0;
+
+    private depth = 0;
+
+    /**
+     * Collection paths of the enclosing lambdas, by range variable
+     */
+    private variables = new Map<string, string>();
+
+    constructor(private readonly policy: FilterPolicy) {}
+
+    /**
+     * Checks an expression used as a condition
+     */
+    check(node: FilterNode) {
+        switch (node.type) {
+            case "group":
+            case "not":
+                this.nested(() => this.check(node.expression));
+                break;
+
+            case "logical":
+                this.check(node.left);
+                this.check(node.right);
+                break;
+
+            case "property":
+                this.count();
+                this.use(this.resolve(node.path), "eq");
+                break;
+
+            default:
+                this.count();
+                this.operand(node);
+        }
+    }
+
+    /**
+     * Checks an operand, and the fields and operators used in it
+     */
+    private operand(node: FilterNode) {
+        const { policy } = this;
+
+        switch (node.type) {
+            case "group":
+            case "not":
+                this.nested(() => this.operand(node.expression));
+                break;
+
+            case "logical":
+                this.check(node);
+                break;
+
+            case "literal":
+                this.literal(node.value);
+                break;
+
+            case "collection":
+                node.items.forEach((item) => this.literal(item.value));
+                break;
+
+            case "property":
+                this.use(this.resolve(node.path));
+                break;
+
+            case "comparison":
+            case "arithmetic":
+                this.apply(node.operator, [node.left, node.right]);
+                break;
+
+            case "in":
+                if (
+                    policy.maxInLength !== undefined &&
+                    node.values.length > policy.maxInLength
+                ) {
+                    throw new FilterPolicyError(
+                        "maxInLength",
+                        `'in' list has ${node.values.length} values; the maximum is ${policy.maxInLength}`,
+                        this.field(node.left),
+                        policy.maxInLength
+                    );
+                }
+
+                this.apply("in", [node.left, ...node.values]);
+                break;
+
+            case "function":
+                this.nested(() =>
+                    this.apply(
+                        node.name,
+                        TYPE_FUNCTIONS.has(node.name)
+                            ? node.args.filter(
+                                  (arg) =>
+                                      arg.type !== "property" ||
+                                      !QUALIFIED_NAME.test(arg.path)
+                              )
+                            : node.args
+                    )
+                );
+                break;
+
+            case "lambda":
+                this.lambda(node);
+                break;
+        }
+    }
+
+    /**
+     * Checks that an operator is allowed on the fields it is applied to, then checks its operands
+     */
+    private apply(operator: PolicyOperator, operands: FilterNode[]) {
+        for (const operand of operands) {
+            const field = this.field(operand);
+
+            if (field !== undefined) {
+                this.use(field, operator);
+            }
+        }
+
+        operands.forEach((operand) => this.operand(operand));
+    }
+
+    private lambda(node: FilterNode & { type: "lambda" }) {
+        const { policy } = this;
+        const collection = this.resolve(node.collection);
+
+        this.use(collection, node.operator);
+
+        if (
+            policy.maxLambdaDepth !== undefined &&
+            this.variables.size >= policy.maxLambdaDepth
+        ) {
+            throw new FilterPolicyError(
+                "maxLambdaDepth",
+                `Lambdas are nested more than ${policy.maxLambdaDepth} levels deep`,
+                collection,
+                policy.maxLambdaDepth
+            );
+        }
+
+        const { variable, expression } = node;
+
+        if (!expression) {
+            return;
+        }
+
+        this.variables.set(variable, collection);
+
+        try {
+            this.nested(() => this.check(expression));
+        } finally {
+            this.variables.delete(variable);
+        }
+    }
+
+    /**
+     * Returns the field an operand reads directly, through functions and arithmetic
+     * @returns The resolved field path, or undefined for other operands
+     */
+    private field(node: FilterNode): string | undefined {
+        switch (node.type) {
+            case "property":
+                return this.resolve(node.path);
+
+            case "group":
+                return this.field(node.expression);
+
+            default:
+                return undefined;
+        }
+    }
+
+    /**
+     * Replaces the lambda range variable at the start of a path with its collection path,
+     * and the range variable alone with `$this` of the collection
+     * @example
+     * // inside orders/any(o:...)
+     * resolve("o/total") // "orders/total"
+     * resolve("o") // "orders/$this"
+     */
+    private resolve(path: string): string {
+        const [first, ...rest] = path.split("/") as [string, ...string[]];
+        const collection = this.variables.get(first);
+
+        if (collection === undefined) {
+            return path;
+        }
+
+        return [collection, ...(rest.length ? rest : ["$this"])].join("/");
+    }
+
+    /**
+     * Checks that a field, and optionally an operator on it, is allowed
+     * @param field The field path, with lambda range variables resolved
+     */
+    private use(field: string, operator?: PolicyOperator) {
+        const { fields } = this.policy;
+
+        if (!fields) {
+            return;
+        }
+
+        const allowed = Object.prototype.hasOwnProperty.call(fields, field)
+            ? fields[field]
+            : undefined;
+
+        if (!allowed) {
+            throw new FilterPolicyError(
+                "fieldNotAllowed",
+                `Field '${field}' is not allowed`,
+                field
+            );
+        }
+
+        if (
+            operator !== undefined &&
+            allowed !== true &&
+            !allowed.includes(operator)
+        ) {
+            throw new FilterPolicyError(
+                "operatorNotAllowed",
+                `Operator '${operator}' is not allowed on '${field}'`,
+                field
+            );
+        }
+    }
+
+    private literal(value: unknown) {
+        const { maxStringLength } = this.policy;
+        const text =
+            value instanceof TypedLiteral
+                ? value.value
+                : typeof value === "string"
+                ? value
+                : undefined;
+
+        if (
+            text !== undefined &&
+            maxStringLength !== undefined &&
+            text.length > maxStringLength
+        ) {
+            throw new FilterPolicyError(
+                "maxStringLength",
+                `Literal is longer than ${maxStringLength} characters`,
+                undefined,
+                maxStringLength
+            );
+        }
+    }
+
+    private count() {
+        const { maxConditions } = this.policy;
+
+        if (maxConditions !== undefined && ++this.conditions > maxConditions) {
+            throw new FilterPolicyError(
+                "maxConditions",
+                `Filter has more than ${maxConditions} conditions`,
+                undefined,
+                maxConditions
+            );
+        }
+    }
+
+    /**
+     * Runs a check one nesting level deeper
+     */
+    private nested(check: () => void) {
+        assertDepth(++this.depth, this.policy);
+
+        try {
+            check();
+        } finally {
+            this.depth--;
+        }
+    }
+}
+
+/**
+ * Checks a filter against a policy, for filters built or parsed without one.
+ * SearchParser.parse() enforces a policy itself when one is passed in its options.
+ *
+ * @param filter - A SearchBuilder, an expression tree or a filter string
+ * @param policy - The limits to enforce
+ * @returns The expression tree of the filter, or undefined for an empty filter
+ * @throws FilterPolicyError for the first rule the filter breaks
+ * @throws FilterSyntaxError if a filter string is invalid
+ *
+ * @example
+ * enforcePolicy("salary gt 1000", { fields: { name: true } });
+ * // throws FilterPolicyError { code: "fieldNotAllowed", path: "salary" }
+ */
+export function enforcePolicy(
+    filter: FilterInput,
+    policy: FilterPolicy
+): FilterNode | undefined {
+    if (typeof filter === "string") {
+        return SearchParser.parseAST(filter, { policy });
+    }
+
+    const ast = SearchParser.toAST(filter);
+
+    if (ast) {
+        new PolicyChecker(policy).check(ast);
+    }
+
+    return ast;
+}
@@ -0,0 +1,122 @@
+/**
+ * A problem found while reading an OData filter expression
+ * @example
+ * // Diagnostic for "(status eq 'x'":
+ * // {
+ * //     message: "Expected ')' but found end of filter",
+ * //     offset: 14,
+ * //     line: 1,
+ * //     column: 15,
+ * //     found: "end of filter",
+ * //     expected: ["'and'", "'or'", "')'"],
+ * //     snippet: "(status eq 'x'\n              ^",
+ * // }
+ */
+export type FilterDiagnostic = {
+    message: string;
+    /**
+     * Zero-based character offset of the problem in the filter
+     */
+    offset: number;
+    /**
+     * One-based line number of the problem
+     */
+    line: number;
+    /**
+     * One-based column number of the problem
+     */
+    column: number;
+    /**
+     * Description of the token found at the offset
+     */
+    found: string;
+    /**
+     * Descriptions of the tokens that would have been accepted at the offset
+     */
+    expected: string[];
+    /**
+     * The offending line of the filter with a caret under the offset
+     */
+    snippet: string;
+};
+
+/**
+ * Error thrown when an OData filter expression cannot be parsed.
+ * Carries the position of the problem and a caret-annotated snippet of the source.
+ *
+ * @example
+ * try {
+ *     SearchParser.parse("name eq 'John' and");
+ * } catch (error) {
+ *     if (error instanceof FilterSyntaxError) {
+ *         console.log(error.message); // "Expected an expression but found end of filter (line 1, column 19)"
+ *         console.log(error.snippet);
+ *         // name eq 'John' and
+ *         //                   ^
+ *     }
+ * }
+ */
+export class FilterSyntaxError extends Error {
+    override name = "FilterSyntaxError";
+
+    /**
+     * One-based line number of the problem
+     */
+    readonly line: number;
+
+    /**
+     * One-based column number of the problem
+     */
+    readonly column: number;
+
+    /**
+     * The offending line of the filter with a caret under the offset
+     */
+    readonly snippet: string;
+
+    /**
+     * @param reason Description of the problem, without position information
+     * @param source The complete filter expression
+     * @param offset Zero-based character offset of the problem
+     * @param found Description of the token found at the offset
+     * @param expected Descriptions of the tokens that would have been accepted
+     */
+    constructor(
+        readonly reason: string,
+        readonly source: string,
+        readonly offset: number,
+        readonly found: string,
+        readonly expected: string[] = []
+    ) {
+        const before = source.slice(0, offset);
+        const lineStart = before.lastIndexOf("\n") + 1;
+        const lineEnd = source.indexOf("\n", offset);
+        const line = before.split("\n").length;
+        const column = offset - lineStart + 1;
+
+        super(`${reason} (line ${line}, column ${column})`);
+
+        this.line = line;
+        this.column = column;
+        this.snippet = `${source.slice(
+            lineStart,
+            lineEnd === -1 ? undefined : lineEnd
+        )}\n${" ".repeat(column - 1)}^`;
+    }
+
+    /**
+     * Converts the error into a plain diagnostic object
+     * @returns The diagnostic describing this error
+     */
+    toDiagnostic(): FilterDiagnostic {
+        return {
+            message: this.reason,
+            offset: this.offset,
+            line: this.line,
+            column: this.column,
+            found: this.found,
+            expected: [...this.expected],
+            snippet: this.snippet,
+        };
+    }
+}
@@ -0,0 +1,191 @@
+import { children, type FilterNode, type LiteralNode } from "./FilterAST";
+
+/**
+ * The node type with the given `type` tag
+ */
+type NodeOfType<K extends FilterNode["type"]> = Extract<
+    FilterNode,
+    { type: K }
+>;
+
+/**
+ * Where a node sits in the expression tree
+ */
+export type FilterContext = {
+    /**
+     * The parent node, or undefined for the root
+     */
+    parent?: FilterNode;
+    /**
+     * Range variables of the enclosing lambdas, outermost first. Property paths starting with
+     * one of them refer to a collection element rather than to the entity.
+     */
+    variables: readonly string[];
+};
+
+/**
+ * Callbacks called for each node of a given type. Returning `false` skips the node's children.
+ * @example
+ * const visitor: FilterVisitor = {
+ *     property: (node) => console.log(node.path),
+ *     lambda: (node) => console.log(node.collection),
+ * };
+ */
+export type FilterVisitor = {
+    [K in FilterNode["type"]]?: (
+        node: NodeOfType<K>,
+        context: FilterContext
+    ) => void | false;
+};
+
+/**
+ * Callbacks that rewrite the nodes of a given type. Each is called with the node after its
+ * children have been transformed, and returns the replacement, or undefined to keep the node.
+ * @example
+ * const transformer: FilterTransformer = {
+ *     property: (node) => (node.path === "userName" ? property("user/name") : undefined),
+ * };
+ */
+export type FilterTransformer = {
+    [K in FilterNode["type"]]?: (
+        node: NodeOfType<K>,
+        context: FilterContext
+    ) => FilterNode | void;
+};
+
+/**
+ * Returns a copy of a node with new children, or the node itself if they did not change
+ * @param node The node to copy
+ * @param next The new children, in the order returned by children()
+ * @throws Error if a collection item is replaced by something other than a literal
+ */
+function withChildren(node: FilterNode, next: FilterNode[]): FilterNode {
+    if (children(node).every((child, index) => child === next[index])) {
+        return node;
+    }
+
+    switch (node.type) {
+        case "arithmetic":
+        case "comparison":
+        case "logical":
+            return {
+                ...node,
+                left: next[0] as FilterNode,
+                right: next[1] as FilterNode,
+            };
+
+        case "in": {
+            const [left, ...values] = next as [FilterNode, ...FilterNode[]];
+
+            return { ...node, left, values };
+        }
+
+        case "function":
+            return { ...node, args: next };
+
+        case "collection":
+            if (next.some((item) => item.type !== "literal")) {
+                throw new Error(
+                    "Collection items can only be replaced by literals"
+                );
+            }
+
+            return { ...node, items: next as LiteralNode[] };
+
+        case "not":
+        case "group":
+        case "lambda":
+            return { ...node, expression: next[0] as FilterNode };
+
+        default:
+            return node;
+    }
+}
+
+/**
+ * Returns the range variables in scope for the children of a node
+ */
+function scopeOf(
+    node: FilterNode,
+    variables: readonly string[]
+): readonly string[] {
+    return node.type === "lambda" && node.expression
+        ? [...variables, node.variable]
+        : variables;
+}
+
+/**
+ * Walks an expression tree depth-first, in source order, calling the visitor's callback for
+ * each node before visiting its children.
+ *
+ * @param node The root node of the expression tree
+ * @param visitor Callbacks by node type
+ * @example
+ * // Collect the fields a filter references, e.g. to check they are indexed
+ * const fields = new Set<string>();
+ *
+ * visit(SearchParser.parseAST("name eq 'x' and orders/any(o:o/total gt 10)")!, {
+ *     property: (node, { variables }) => {
+ *         if (!variables.includes(node.path.split("/")[0]!)) fields.add(node.path);
+ *     },
+ *     lambda: (node) => void fields.add(node.collection),
+ * });
+ * // fields: name, orders
+ */
+export function visit(
+    node: FilterNode,
+    visitor: FilterVisitor,
+    context: FilterContext = { variables: [] }
+) {
+    const callback = visitor[node.type] as
+        | ((node: FilterNode, context: FilterContext) => void | false)
+        | undefined;
+
+    if (callback?.(node, context) === false) {
+        return;
+    }
+
+    const variables = scopeOf(node, context.variables);
+
+    for (const child of children(node)) {
+        visit(child, visitor, { parent: node, variables });
+    }
+}
+
+/**
+ * Rewrites an expression tree bottom-up: the children of a node are transformed first, then
+ * the transformer's callback for the node's type is called with the result. Nodes returned
+ * by a callback are not transformed again. Unchanged subtrees are shared with the original.
+ *
+ * @param node The root node of the expression tree
+ * @param transformer Callbacks by node type
+ * @returns The rewritten tree; the original is not modified
+ * @throws Error if a collection item is replaced by something other than a literal
+ * @example
+ * // Compare string fields case-insensitively
+ * const ast = transform(SearchParser.parseAST("name eq 'John' and age eq 30")!, {
+ *     comparison: (node) =>
+ *         node.operator === "eq" && node.right.type === "literal" && typeof node.right.value === "string"
+ *             ? { ...node, left: FilterFunctions.tolower(node.left), right: FilterFunctions.tolower(node.right) }
+ *             : undefined,
+ * });
+ * serialize(ast); // "tolower(name) eq tolower('John') and age eq 30"
+ */
+export function transform(
+    node: FilterNode,
+    transformer: FilterTransformer,
+    context: FilterContext = { variables: [] }
+): FilterNode {
+    const variables = scopeOf(node, context.variables);
+    const next = withChildren(
+        node,
+        children(node).map((child) =>
+            transform(child, transformer, { parent: node, variables })
+        )
+    );
+    const callback = transformer[next.type] as
+        | ((node: FilterNode, context: FilterContext) => FilterNode | void)
+        | undefined;
+
+    return callback?.(next, context) ?? next;
+}
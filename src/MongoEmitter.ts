@@ -0,0 +1,514 @@
+import type {
+    ComparisonOperator,
+    FilterNode,
+    FunctionCallNode,
+    LambdaNode,
+} from "./FilterAST";
+import { SearchParser, type FilterInput } from "./SearchParser";
+import { TypedLiteral } from "./TypedLiteral";
+
+/**
+ * A MongoDB query document
+ */
+export type MongoFilter = Record<string, unknown>;
+
+/**
+ * Maps filter property paths to MongoDB fields. Both are full paths from the entity, so the
+ * elements of a collection are mapped under its own field, e.g. `"orders/total": "orders.amount"`.
+ * A record lists the allowed paths; a function returns undefined for paths that are not allowed.
+ * @example
+ * const fields: MongoFields = { name: "fullName", "address/city": "address.city", tags: "tags" };
+ */
+export type MongoFields =
+    | Record<string, string>
+    | ((path: string) => string | undefined);
+
+/**
+ * Options for MongoDB query generation
+ */
+export type MongoOptions = {
+    /**
+     * The fields that may be queried. By default every path is allowed: its segments become a
+     * dotted field, type cast segments such as `Sales.Customer` are dropped, and segments that are
+     * not plain identifiers, such as `$where`, are rejected.
+     */
+    fields?: MongoFields;
+    /**
+     * Converts typed literals to the values stored in MongoDB, e.g. decimals to Decimal128.
+     * By default decimals become numbers and other typed literals their text.
+     */
+    literal?: (value: TypedLiteral) => unknown;
+};
+
+/**
+ * A lambda range variable, with the path and field of the collection it ranges over
+ */
+type MongoScope = { variable: string; path: string; field: string };
+
+const SIMPLE_IDENTIFIER = /^[A-Za-z_]\w*$/;
+
+const QUALIFIED_NAME = /^[A-Za-z_]\w*(\.[A-Za-z_]\w*)+$/;
+
+/**
+ * The operator that keeps a comparison's meaning when its operands are swapped
+ */
+const MIRRORED: Record<ComparisonOperator, ComparisonOperator> = {
+    eq: "eq",
+    ne: "ne",
+    gt: "lt",
+    ge: "le",
+    lt: "gt",
+    le: "ge",
+};
+
+/**
+ * MongoDB query operators for the comparison operators
+ */
+const COMPARISON_OPERATORS: Record<ComparisonOperator, string> = {
+    eq: "$eq",
+    ne: "$ne",
+    gt: "$gt",
+    ge: "$gte",
+    lt: "$lt",
+    le: "$lte",
+};
+
+/**
+ * Regular expressions for the string matching functions, where `%s` is the escaped search text
+ */
+const REGEX_PATTERNS: Record<string, string> = {
+    contains: "%s",
+    startswith: "^%s",
+    endswith: "%s$",
+};
+
+/**
+ * Escapes the regular expression metacharacters in a search text
+ * @param text The text to search for
+ * @returns The escaped text
+ * @example
+ * escapeRegExp("a.b*") // "a\\.b\\*"
+ */
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Checks whether a query document is an operator expression on the current array element,
+ * such as `{ $gt: 1 }`, rather than a query on fields
+ */
+function isOperatorExpression(filter: MongoFilter): boolean {
+    return Object.keys(filter).some(
+        (key) => key.startsWith("$") && !["$and", "$or", "$nor"].includes(key)
+    );
+}
+
+/**
+ * Checks whether a value is a document of query operators such as `{ $gt: 1 }`
+ */
+function isOperatorDocument(value: unknown): value is MongoFilter {
+    return (
+        typeof value === "object" &&
+        value !== null &&
+        !Array.isArray(value) &&
+        !(value instanceof Date) &&
+        Object.keys(value).every((key) => key.startsWith("$"))
+    );
+}
+
+/**
+ * Combines query documents with `$and`, merging them into one document where their fields
+ * or operators do not overlap
+ * @param filters The documents to combine
+ * @returns The combined document
+ * @example
+ * mergeAnd([{ age: { $gt: 1 } }, { age: { $lt: 5 } }, { name: { $eq: "x" } }])
+ * // { age: { $gt: 1, $lt: 5 }, name: { $eq: "x" } }
+ */
+function mergeAnd(filters: MongoFilter[]): MongoFilter {
+    const merged: MongoFilter = {};
+    const rest: MongoFilter[] = [];
+
+    for (const filter of filters.flatMap((filter) =>
+        Object.keys(filter).length === 1 && Array.isArray(filter.$and)
+            ? (filter.$and as MongoFilter[])
+            : [filter]
+    )) {
+        const entries = Object.entries(filter);
+        const fits = entries.every(
+            ([key, value]) =>
+                !(key in merged) ||
+                (isOperatorDocument(merged[key]) &&
+                    isOperatorDocument(value) &&
+                    Object.keys(value).every(
+                        (operator) =>
+                            !(operator in (merged[key] as MongoFilter))
+                    ))
+        );
+
+        if (!fits) {
+            rest.push(filter);
+            continue;
+        }
+
+        for (const [key, value] of entries) {
+            merged[key] =
+                key in merged
+                    ? {
+                          ...(merged[key] as MongoFilter),
+                          ...(value as MongoFilter),
+                      }
+                    : value;
+        }
+    }
+
+    return rest.length ? { $and: [merged, ...rest] } : merged;
+}
+
+/**
+ * Converts a property path to a dotted MongoDB field when no field mapping is given
+ * @param path The full property path
+ * @returns The dotted field
+ * @throws Error if a segment is not a plain identifier, so that no filter can name an operator
+ * such as `$where` or reach into another field with a dot
+ * @example
+ * defaultField("customer/Sales.Vip/level") // "customer.level"
+ */
+function defaultField(path: string): string {
+    // Type casts do not change where a value is stored
+    const segments = path
+        .split("/")
+        .filter((segment) => !QUALIFIED_NAME.test(segment));
+    const invalid = segments.find(
+        (segment) => !SIMPLE_IDENTIFIER.test(segment)
+    );
+
+    if (invalid !== undefined || !segments.length) {
+        throw new Error(
+            `Invalid field '${path}'; MongoDB fields must be identifiers and cannot start with '$'`
+        );
+    }
+
+    return segments.join(".");
+}
+
+/**
+ * Walks an expression tree and writes a MongoDB query document
+ */
+class MongoWriter {
+    /**
+     * Range variables of the enclosing lambdas, innermost first
+     */
+    private scopes: MongoScope[] = [];
+
+    constructor(private readonly options: MongoOptions) {}
+
+    write(node: FilterNode): MongoFilter {
+        switch (node.type) {
+            case "group":
+                return this.write(node.expression);
+
+            case "logical": {
+                const filters = [this.write(node.left), this.write(node.right)];
+
+                const merged =
+                    node.operator === "and" ? mergeAnd(filters) : undefined;
+
+                if (merged && !merged.$and) {
+                    return merged;
+                }
+
+                this.assertFieldQueries(node.operator, filters);
+
+                if (merged) {
+                    return merged;
+                }
+
+                return {
+                    $or: filters.flatMap((filter) =>
+                        Object.keys(filter).length === 1 &&
+                        Array.isArray(filter.$or)
+                            ? (filter.$or as MongoFilter[])
+                            : [filter]
+                    ),
+                };
+            }
+
+            case "not":
+                return this.negate(this.write(node.expression));
+
+            case "property":
+                return this.field(node.path, { $eq: true });
+
+            case "comparison":
+                return this.comparison(node.operator, node.left, node.right);
+
+            case "in": {
+                if (
+                    node.left.type !== "property" ||
+                    node.values.some((value) => value.type !== "literal")
+                ) {
+                    throw new Error(
+                        "'in' in MongoDB needs a property on the left and literal values"
+                    );
+                }
+
+                return this.field(node.left.path, {
+                    $in: node.values.map((value) => this.value(value)),
+                });
+            }
+
+            case "function":
+                return this.call(node);
+
+            case "lambda":
+                return this.lambda(node);
+
+            default:
+                throw new Error(
+                    `A ${node.type} cannot be used as a condition in MongoDB`
+                );
+        }
+    }
+
+    /**
+     * Negates a query document; operator expressions on array elements use $not
+     */
+    private negate(filter: MongoFilter): MongoFilter {
+        return isOperatorExpression(filter)
+            ? { $not: filter }
+            : { $nor: [filter] };
+    }
+
+    /**
+     * Rejects operator expressions on array elements, which cannot be combined with `$or`
+     */
+    private assertFieldQueries(operator: string, filters: MongoFilter[]) {
+        if (filters.some(isOperatorExpression)) {
+            throw new Error(
+                `'${operator}' on elements of a primitive collection has no MongoDB equivalent`
+            );
+        }
+    }
+
+    /**
+     * Converts a property path to a dotted MongoDB field, relative to the innermost lambda element
+     * @returns The field name, or "" for the lambda element itself
+     * @throws Error if the path refers to the entity or an outer element from inside a lambda,
+     * or is not an allowed field
+     */
+    private path(path: string): string {
+        const scope = this.scopes[0];
+
+        if (!scope) {
+            return this.lookup(path);
+        }
+
+        const [first, ...rest] = path.split("/");
+
+        if (first !== scope.variable) {
+            throw new Error(
+                `'${path}' cannot be used inside a lambda in MongoDB; $elemMatch only sees the current element '${scope.variable}'`
+            );
+        }
+
+        if (!rest.length) {
+            return "";
+        }
+
+        const field = this.lookup(`${scope.path}/${rest.join("/")}`);
+
+        if (!field.startsWith(`${scope.field}.`)) {
+            throw new Error(
+                `'${path}' is mapped to '${field}', which is not a field of the elements of '${scope.field}'`
+            );
+        }
+
+        return field.slice(scope.field.length + 1);
+    }
+
+    /**
+     * Finds the MongoDB field of a full property path
+     * @throws Error if the path is not an allowed field
+     */
+    private lookup(path: string): string {
+        const { fields } = this.options;
+
+        if (fields === undefined) {
+            return defaultField(path);
+        }
+
+        const field =
+            typeof fields === "function"
+                ? fields(path)
+                : Object.prototype.hasOwnProperty.call(fields, path)
+                ? fields[path]
+                : undefined;
+
+        if (field === undefined) {
+            throw new Error(`Unknown field '${path}'`);
+        }
+
+        return field;
+    }
+
+    /**
+     * Applies an operator document to a field, or to the current element for ""
+     */
+    private field(path: string, operators: MongoFilter): MongoFilter {
+        const field = this.path(path);
+
+        return field ? { [field]: operators } : operators;
+    }
+
+    private value(node: FilterNode): unknown {
+        if (node.type !== "literal") {
+            throw new Error(`Expected a literal but found a ${node.type}`);
+        }
+
+        const { value } = node;
+
+        if (value instanceof TypedLiteral) {
+            return this.options.literal
+                ? this.options.literal(value)
+                : value.kind === "decimal"
+                ? Number(value.value)
+                : value.value;
+        }
+
+        return value;
+    }
+
+    private comparison(
+        operator: ComparisonOperator,
+        left: FilterNode,
+        right: FilterNode
+    ): MongoFilter {
+        if (left.type === "literal" && right.type === "property") {
+            return this.comparison(MIRRORED[operator], right, left);
+        }
+
+        if (left.type !== "property" || right.type !== "literal") {
+            throw new Error(
+                `Comparisons in MongoDB need a property on one side and a literal on the other, found ${left.type} ${operator} ${right.type}`
+            );
+        }
+
+        return this.field(left.path, {
+            [COMPARISON_OPERATORS[operator]]: this.value(right),
+        });
+    }
+
+    /**
+     * Converts the string matching functions to regular expressions
+     * @throws Error for any other function
+     */
+    private call({ name, args }: FunctionCallNode): MongoFilter {
+        const pattern = REGEX_PATTERNS[name];
+
+        if (!pattern && name !== "matchesPattern") {
+            throw new Error(`Function '${name}' has no MongoDB equivalent`);
+        }
+
+        const [field, search] = args as [FilterNode, FilterNode];
+
+        if (
+            field.type !== "property" ||
+            search.type !== "literal" ||
+            typeof search.value !== "string"
+        ) {
+            throw new Error(
+                `${name}() in MongoDB needs a property and a string literal`
+            );
+        }
+
+        const text = search.value;
+
+        return this.field(field.path, {
+            // A function, so `$&` and the like in the text are not replacement patterns
+            $regex: pattern
+                ? pattern.replace("%s", () => escapeRegExp(text))
+                : text,
+        });
+    }
+
+    /**
+     * Converts any() to $elemMatch, and all() to the absence of an element that fails the condition
+     */
+    private lambda(node: LambdaNode): MongoFilter {
+        const collection = this.path(node.collection);
+
+        if (!node.expression) {
+            return {
+                [`${collection ? `${collection}.` : ""}0`]: { $exists: true },
+            };
+        }
+
+        const outer = this.scopes[0];
+
+        this.scopes.unshift({
+            variable: node.variable,
+            path: outer
+                ? node.collection.replace(/^[^/]*/, outer.path)
+                : node.collection,
+            field: !outer
+                ? collection
+                : collection
+                ? `${outer.field}.${collection}`
+                : outer.field,
+        });
+
+        try {
+            const condition = this.write(node.expression);
+
+            const operators =
+                node.operator === "any"
+                    ? { $elemMatch: condition }
+                    : { $not: { $elemMatch: this.negate(condition) } };
+
+            return collection ? { [collection]: operators } : operators;
+        } finally {
+            this.scopes.shift();
+        }
+    }
+}
+
+/**
+ * MongoEmitter translates filters into MongoDB query documents.
+ *
+ * - `eq`, `ne`, `gt`, `ge`, `lt` and `le` become `$eq`, `$ne`, `$gt`, `$gte`, `$lt` and `$lte`
+ * - `in` becomes `$in`, and `and`, `or` and `not` become `$and`, `$or` and `$nor`
+ * - `contains`, `startswith` and `endswith` become escaped, anchored `$regex` queries
+ * - `any` becomes `$elemMatch`, and `all` the absence of an element that fails the condition
+ *
+ * Navigation paths become dotted fields, or are looked up in the `fields` mapping, which then
+ * lists the only fields a filter can reach. Comparisons need a property and a literal;
+ * arithmetic and functions other than the string matching ones throw an Error.
+ *
+ * @author Keven Leone
+ * @example
+ * const query = MongoEmitter.emit("startswith(name, 'J.') and age ge 18 and tags/any(t:t eq 'vip')");
+ * // { name: { $regex: "^J\\." }, age: { $gte: 18 }, tags: { $elemMatch: { $eq: "vip" } } }
+ *
+ * await db.collection("people").find(query).toArray();
+ */
+export class MongoEmitter {
+    /**
+     * Translates a filter into a MongoDB query document
+     * @param filter - A SearchBuilder, an expression tree or a filter string
+     * @param options - Conversion options, such as the field mapping and the conversion of typed literals
+     * @returns The query document; an empty filter gives `{}`
+     * @throws FilterSyntaxError if a filter string is invalid
+     * @throws Error if the filter uses an operator or function without a MongoDB equivalent,
+     * or a field that is not allowed
+     *
+     * @example
+     * MongoEmitter.emit("not (status eq 'closed' or total lt 10)");
+     * // { $nor: [{ $or: [{ status: { $eq: "closed" } }, { total: { $lt: 10 } }] }] }
+     */
+    static emit(filter: FilterInput, options: MongoOptions = {}): MongoFilter {
+        const ast = SearchParser.toAST(filter);
+
+        return ast ? new MongoWriter(options).write(ast) : {};
+    }
+}
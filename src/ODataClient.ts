@@ -0,0 +1,378 @@
+import { ODataError } from "./ODataError";
+import { QueryBuilder } from "./QueryBuilder";
+import { SearchBuilder } from "./SearchBuilder";
+
+/**
+ * The request options ODataClient passes to fetch
+ */
+export type ODataRequestInit = {
+    method: "GET";
+    headers: Record<string, string>;
+    signal?: AbortSignal;
+};
+
+/**
+ * The parts of a fetch Response that ODataClient reads
+ */
+export type ODataResponse = {
+    ok: boolean;
+    status: number;
+    statusText: string;
+    text(): Promise<string>;
+};
+
+/**
+ * A fetch implementation; the global fetch fits, and so does a mock returning plain objects
+ * @example
+ * const mock: ODataFetch = async (url) => ({
+ *     ok: true,
+ *     status: 200,
+ *     statusText: "OK",
+ *     text: async () => JSON.stringify({ value: [{ id: 1 }] }),
+ * });
+ */
+export type ODataFetch = (
+    url: string,
+    init: ODataRequestInit
+) => Promise<ODataResponse>;
+
+/**
+ * Options for ODataClient
+ */
+export type ODataClientOptions = {
+    /**
+     * The service root URL, e.g. `https://services.odata.org/V4/TripPinService`
+     */
+    serviceRoot: string;
+    /**
+     * The entity set to query, e.g. `People`
+     */
+    entitySet: string;
+    /**
+     * The fetch implementation
+     * @default globalThis.fetch
+     */
+    fetch?: ODataFetch;
+    /**
+     * Headers sent with every request, e.g. for authorization
+     */
+    headers?: Record<string, string>;
+};
+
+/**
+ * Options for a single request
+ */
+export type ODataRequestOptions = {
+    /**
+     * Headers sent with this request, in addition to the client's
+     */
+    headers?: Record<string, string>;
+    /**
+     * Aborts the request
+     */
+    signal?: AbortSignal;
+};
+
+/**
+ * One page of a collection response
+ */
+export type ODataPage<TEntity> = {
+    /**
+     * The entities of the page
+     */
+    value: TEntity[];
+    /**
+     * The total number of matching entities, from `@odata.count` when `$count=true` was requested
+     */
+    count?: number;
+    /**
+     * The absolute URL of the next page, from `@odata.nextLink`, or undefined on the last page
+     */
+    nextLink?: string;
+};
+
+/**
+ * The query of a request: a filter, or a complete set of query options
+ */
+export type ODataQuery<TEntity> =
+    | SearchBuilder<TEntity>
+    | QueryBuilder<TEntity>;
+
+/**
+ * Converts a query to query options
+ */
+function toQueryBuilder<TEntity>(
+    query: ODataQuery<TEntity> | undefined
+): QueryBuilder<TEntity> {
+    if (query instanceof SearchBuilder) {
+        return new QueryBuilder<TEntity>().filter(query);
+    }
+
+    return query ?? new QueryBuilder<TEntity>();
+}
+
+/**
+ * A small typed client for querying an OData entity set with the builders.
+ * It encodes the query, follows server-driven paging through `@odata.nextLink`, reads
+ * `@odata.count`, and throws an ODataError with the details of OData JSON error responses.
+ *
+ * @author Keven Leone
+ * @example
+ * type Person = { UserName: string; FirstName: string; Age: number };
+ *
+ * const people = new ODataClient<Person>({
+ *     serviceRoot: "https://services.odata.org/V4/TripPinService",
+ *     entitySet: "People",
+ * });
+ *
+ * const page = await people.get(new QueryBuilder<Person>().filter(new SearchBuilder<Person>().gt('Age', 30)).count());
+ * console.log(page.count, page.value[0]?.FirstName);
+ *
+ * for await (const person of people.items(new SearchBuilder<Person>().startswith('FirstName', 'R'))) {
+ *     console.log(person.UserName);
+ * }
+ */
+export class ODataClient<TEntity = any> {
+    private readonly fetch: ODataFetch;
+
+    /**
+     * @param options The service root, entity set, fetch implementation and headers
+     * @throws Error if no fetch implementation is given and there is no global fetch
+     */
+    constructor(private readonly options: ODataClientOptions) {
+        // Bound, because some fetch implementations throw when called on another object
+        const fetch =
+            options.fetch ??
+            (globalThis.fetch?.bind(globalThis) as unknown as
+                | ODataFetch
+                | undefined);
+
+        if (!fetch) {
+            throw new Error(
+                "No fetch implementation available; pass one in the options"
+            );
+        }
+
+        this.fetch = fetch;
+    }
+
+    /**
+     * The URL of the entity set
+     */
+    get url(): string {
+        const { serviceRoot, entitySet } = this.options;
+
+        return `${serviceRoot.replace(/\/+$/, "")}/${entitySet}`;
+    }
+
+    /**
+     * Fetches the first page of the entities matching a query
+     * @param query A filter, or complete query options; all entities when omitted
+     * @param options Headers and an abort signal for the request
+     * @returns The page, with the total count when the query asks for `$count`
+     * @throws ODataError if the service responds with an error status
+     * @throws Error if the response is not an OData collection
+     * @example
+     * const { value } = await people.get(new QueryBuilder<Person>().select('UserName').top(10));
+     */
+    async get(
+        query?: ODataQuery<TEntity>,
+        options?: ODataRequestOptions
+    ): Promise<ODataPage<TEntity>> {
+        return this.page(this.address(query), options);
+    }
+
+    /**
+     * Iterates over the pages of the entities matching a query, following `@odata.nextLink`
+     * @param query A filter, or complete query options; all entities when omitted
+     * @param options Headers and an abort signal for the requests
+     * @returns An async iterator of pages; each page is fetched when the previous one is consumed.
+     * It ends when a next link leads back to a page that was already fetched.
+     * @throws ODataError if the service responds with an error status
+     * @throws Error if a response is not an OData collection, or if a next link leads to another
+     * origin than the service root, where the client's headers must not be sent
+     * @example
+     * for await (const page of people.pages(new QueryBuilder<Person>().top(500))) {
+     *     await save(page.value);
+     * }
+     */
+    async *pages(
+        query?: ODataQuery<TEntity>,
+        options?: ODataRequestOptions
+    ): AsyncGenerator<ODataPage<TEntity>, void> {
+        const origin = new URL(this.url).origin;
+        const visited = new Set<string>();
+        let url: string | undefined = new URL(this.address(query)).toString();
+
+        while (url && !visited.has(url)) {
+            visited.add(url);
+
+            const page: ODataPage<TEntity> = await this.page(url, options);
+
+            yield page;
+
+            url = page.nextLink;
+
+            if (url && new URL(url).origin !== origin) {
+                throw new Error(
+                    `Refusing to follow @odata.nextLink ${url}: it leaves the service origin ${origin}`
+                );
+            }
+        }
+    }
+
+    /**
+     * Iterates over the entities matching a query across all pages
+     * @param query A filter, or complete query options; all entities when omitted
+     * @param options Headers and an abort signal for the requests
+     * @returns An async iterator of entities; pages are fetched as needed
+     * @throws ODataError if the service responds with an error status
+     * @throws Error if a response is not an OData collection
+     * @example
+     * const adults: Person[] = [];
+     *
+     * for await (const person of people.items(new SearchBuilder<Person>().ge('Age', 18))) {
+     *     adults.push(person);
+     * }
+     */
+    async *items(
+        query?: ODataQuery<TEntity>,
+        options?: ODataRequestOptions
+    ): AsyncGenerator<TEntity, void> {
+        for await (const page of this.pages(query, options)) {
+            yield* page.value;
+        }
+    }
+
+    /**
+     * Counts the entities matching a query with the `$count` path segment. Only the query's
+     * `$filter`, `$search` and parameter aliases apply; other options such as `$top` are not sent.
+     * @param query A filter, or query options; all entities when omitted
+     * @param options Headers and an abort signal for the request
+     * @returns The number of matching entities
+     * @throws ODataError if the service responds with an error status
+     * @throws Error if the response is not a number
+     * @example
+     * await people.count(new SearchBuilder<Person>().gt('Age', 30)); // 7
+     */
+    async count(
+        query?: ODataQuery<TEntity>,
+        options?: ODataRequestOptions
+    ): Promise<number> {
+        const { filter, search, custom } = toQueryBuilder(query).toOptions();
+        const countQuery = new QueryBuilder<TEntity>();
+
+        if (filter) {
+            countQuery.filter(filter);
+        }
+
+        if (search !== undefined) {
+            countQuery.search(search);
+        }
+
+        // Keep the parameter alias values the filter refers to
+        for (const [name, value] of Object.entries(custom)) {
+            if (name.startsWith("@")) {
+                countQuery.option(name, value);
+            }
+        }
+
+        const url = `${this.url}/$count`;
+        const params = countQuery.build();
+        const text = await this.request(
+            params ? `${url}?${params}` : url,
+            "text/plain",
+            options
+        );
+        const count = Number(text.trim());
+
+        if (!text.trim() || !Number.isInteger(count)) {
+            throw new Error(`Expected a count from ${url} but got '${text}'`);
+        }
+
+        return count;
+    }
+
+    /**
+     * Builds the URL of a query on the entity set
+     */
+    private address(query: ODataQuery<TEntity> | undefined): string {
+        const search = toQueryBuilder(query).build();
+
+        return search ? `${this.url}?${search}` : this.url;
+    }
+
+    /**
+     * Fetches a page of a collection
+     * @param url The absolute URL of the page
+     */
+    private async page(
+        url: string,
+        options?: ODataRequestOptions
+    ): Promise<ODataPage<TEntity>> {
+        const text = await this.request(url, "application/json", options);
+        let body: Record<string, unknown> | undefined;
+
+        try {
+            body = JSON.parse(text);
+        } catch {
+            // Reported below
+        }
+
+        if (
+            typeof body !== "object" ||
+            body === null ||
+            !Array.isArray(body.value)
+        ) {
+            throw new Error(
+                `Expected an OData collection response from ${url}`
+            );
+        }
+
+        const count = body["@odata.count"];
+        const nextLink = body["@odata.nextLink"];
+
+        return {
+            value: body.value as TEntity[],
+            ...(count !== undefined ? { count: Number(count) } : {}),
+            // The next link may be relative to the request URL
+            ...(typeof nextLink === "string"
+                ? { nextLink: new URL(nextLink, url).toString() }
+                : {}),
+        };
+    }
+
+    /**
+     * Sends a GET request
+     * @returns The response body, without the byte order mark some services write before it
+     * @throws ODataError if the response has an error status
+     */
+    private async request(
+        url: string,
+        accept: string,
+        options: ODataRequestOptions = {}
+    ): Promise<string> {
+        // Called without the client as `this`, which a fetch passed in unbound would reject
+        const fetch = this.fetch;
+        const response = await fetch(url, {
+            method: "GET",
+            headers: {
+                Accept: accept,
+                ...this.options.headers,
+                ...options.headers,
+            },
+            ...(options.signal ? { signal: options.signal } : {}),
+        });
+        const text = (await response.text()).replace(/^\uFEFF/, "");
+
+        if (!response.ok) {
+            throw ODataError.fromResponse(
+                response.status,
+                response.statusText,
+                text
+            );
+        }
+
+        return text;
+    }
+}
@@ -0,0 +1,143 @@
+/**
+ * A single problem reported by an OData service, as in the `details` of an error response
+ */
+export type ODataErrorDetail = {
+    code: string;
+    message: string;
+    /**
+     * The part of the request the problem concerns, such as a property name
+     */
+    target?: string;
+};
+
+/**
+ * Reads the error object of an OData JSON error response.
+ * OData 4 writes `{ "error": { ... } }`; OData 2 and 3 write `{ "odata.error": { ... } }`
+ * with the message in `message.value`.
+ * @param body The parsed response body
+ * @returns The error object, or undefined if the body is not an OData error
+ */
+function errorObject(body: unknown): Record<string, unknown> | undefined {
+    if (typeof body !== "object" || body === null) {
+        return undefined;
+    }
+
+    const error =
+        (body as Record<string, unknown>).error ??
+        (body as Record<string, unknown>)["odata.error"];
+
+    return typeof error === "object" && error !== null
+        ? (error as Record<string, unknown>)
+        : undefined;
+}
+
+/**
+ * Reads a message that is either a string or an OData 2/3 `{ lang, value }` object
+ */
+function messageOf(message: unknown): string | undefined {
+    if (typeof message === "string") {
+        return message;
+    }
+
+    const value = (message as { value?: unknown } | null)?.value;
+
+    return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Error thrown by ODataClient when a request fails. For OData JSON error responses it carries
+ * the service's error code, message, target and details; otherwise the message describes the
+ * HTTP status.
+ *
+ * @example
+ * try {
+ *     await client.get(new SearchBuilder().eq('Age', 'old'));
+ * } catch (error) {
+ *     if (error instanceof ODataError) {
+ *         console.log(error.status); // 400
+ *         console.log(error.code); // "BadRequest"
+ *         console.log(error.message); // "The types 'Edm.Int32' and 'Edm.String' are not compatible."
+ *     }
+ * }
+ */
+export class ODataError extends Error {
+    override name = "ODataError";
+
+    /**
+     * @param status The HTTP status code
+     * @param message The error message
+     * @param code The service's error code, if it sent one
+     * @param target The part of the request the error concerns, if the service sent one
+     * @param details Further problems reported by the service
+     * @param body The response body, parsed as JSON when possible
+     */
+    constructor(
+        readonly status: number,
+        message: string,
+        readonly code?: string,
+        readonly target?: string,
+        readonly details: ODataErrorDetail[] = [],
+        readonly body?: unknown
+    ) {
+        super(message);
+    }
+
+    /**
+     * Creates the error for a failed response
+     * @param status The HTTP status code
+     * @param statusText The HTTP status text
+     * @param text The response body
+     * @returns The error, with the service's error details when the body is an OData JSON error
+     * @example
+     * ODataError.fromResponse(404, "Not Found", '{"error":{"code":"NotFound","message":"No such entity set"}}');
+     * // ODataError { status: 404, code: "NotFound", message: "No such entity set" }
+     */
+    static fromResponse(
+        status: number,
+        statusText: string,
+        text: string
+    ): ODataError {
+        let body: unknown = text || undefined;
+
+        try {
+            body = JSON.parse(text);
+        } catch {
+            // Not JSON: keep the text
+        }
+
+        const error = errorObject(body);
+        const fallback = `Request failed with status ${status}${
+            statusText ? ` ${statusText}` : ""
+        }`;
+
+        if (!error) {
+            return new ODataError(
+                status,
+                fallback,
+                undefined,
+                undefined,
+                [],
+                body
+            );
+        }
+
+        const details = Array.isArray(error.details)
+            ? (error.details as Record<string, unknown>[]).map((detail) => ({
+                  code: String(detail?.code ?? ""),
+                  message: messageOf(detail?.message) ?? "",
+                  ...(typeof detail?.target === "string"
+                      ? { target: detail.target }
+                      : {}),
+              }))
+            : [];
+
+        return new ODataError(
+            status,
+            messageOf(error.message) ?? fallback,
+            typeof error.code === "string" ? error.code : undefined,
+            typeof error.target === "string" ? error.target : undefined,
+            details,
+            body
+        );
+    }
+}
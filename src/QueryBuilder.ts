@@ -0,0 +1,399 @@
+import { serialize, type FilterNode } from "./FilterAST";
+import type { FieldPath, FieldType } from "./FieldPath";
+import { fieldOperand } from "./FilterFunctions";
+import { SearchBuilder, type Value } from "./SearchBuilder";
+import { SearchParser } from "./SearchParser";
+
+/**
+ * Sort direction for $orderby
+ */
+export type OrderDirection = "asc" | "desc";
+
+/**
+ * A single $orderby item
+ * @example
+ * // tolower(name) desc
+ * const order: OrderByItem = { expression: FilterFunctions.tolower("name"), direction: "desc" };
+ */
+export type OrderByItem = { expression: FilterNode; direction: OrderDirection };
+
+/**
+ * A single $expand item with its nested query options
+ * @example
+ * // orders($filter=total gt 100;$top=5)
+ * const item: ExpandItem = { path: "orders", options: new QueryBuilder().filter("total gt 100").top(5) };
+ */
+export type ExpandItem = { path: string; options: QueryBuilder };
+
+/**
+ * The entity type reached by expanding a navigation property;
+ * for collection-valued properties this is the element type
+ */
+type ExpandTarget<TEntity, TPath extends string> = NonNullable<
+    FieldType<TEntity, TPath>
+> extends readonly (infer E)[]
+    ? E
+    : NonNullable<FieldType<TEntity, TPath>>;
+
+/**
+ * Characters that are left readable in encoded option values.
+ * They are valid in a query string and common in OData URLs: `$ , / : ; = @`
+ */
+const READABLE_CHARACTERS = /%(24|2C|2F|3A|3B|3D|40)/gi;
+
+/**
+ * Percent-encodes a query option value, keeping OData punctuation readable
+ * @param value The raw value
+ * @returns The encoded value
+ * @example
+ * encodeValue("name eq 'A&B'") // "name%20eq%20'A%26B'"
+ */
+function encodeValue(value: string): string {
+    return encodeURIComponent(value).replace(READABLE_CHARACTERS, (match) =>
+        decodeURIComponent(match)
+    );
+}
+
+/**
+ * A builder for complete OData query strings, combining a SearchBuilder filter with
+ * $select, $expand, $orderby, $top, $skip, $count, $search and $apply
+ *
+ * @author Keven Leone
+ * @example
+ * const query = new QueryBuilder<Customer>()
+ *   .filter(new SearchBuilder<Customer>().eq('country', 'PT'))
+ *   .select('id', 'name')
+ *   .expand('orders', (orders) =>
+ *     orders.filter('total gt 100').select('id', 'total').orderBy('total', 'desc').top(5))
+ *   .orderBy('name')
+ *   .top(20)
+ *   .skip(40)
+ *   .count()
+ *   .build();
+ * // Result: "$filter=country%20eq%20'PT'&$select=id,name&$expand=orders($filter=total%20gt%20100;$select=id,total;$orderby=total%20desc;$top=5)&$orderby=name%20asc&$top=20&$skip=40&$count=true"
+ */
+export class QueryBuilder<TEntity = any> {
+    private filterBuilder?: SearchBuilder<TEntity>;
+    private selectFields: string[] = [];
+    private expandItems: ExpandItem[] = [];
+    private orderByItems: OrderByItem[] = [];
+    private topValue?: number;
+    private skipValue?: number;
+    private countValue?: boolean;
+    private searchValue?: string;
+    private applyValue?: string;
+
+    /**
+     * Custom query options that are passed through unchanged, in insertion order
+     */
+    private customOptions = new Map<string, string>();
+
+    /**
+     * Sets the $filter option, replacing any previous filter
+     * @param filter A SearchBuilder, or a filter string that is parsed and validated
+     * @returns The current QueryBuilder instance for method chaining
+     * @throws FilterSyntaxError if a filter string is invalid
+     * @example
+     * new QueryBuilder().filter(new SearchBuilder().gt('age', 18)).build(); // "$filter=age%20gt%2018"
+     * new QueryBuilder().filter("age gt 18").build(); // "$filter=age%20gt%2018"
+     */
+    public filter(filter: SearchBuilder<TEntity> | string) {
+        this.filterBuilder =
+            typeof filter === "string"
+                ? SearchParser.parse<TEntity>(filter)
+                : filter;
+
+        return this;
+    }
+
+    /**
+     * Adds properties to the $select option
+     * @param fields The property names or paths to return
+     * @returns The current QueryBuilder instance for method chaining
+     * @example
+     * new QueryBuilder().select('id', 'name').build(); // "$select=id,name"
+     */
+    public select(...fields: FieldPath<TEntity>[]) {
+        this.selectFields.push(...fields);
+
+        return this;
+    }
+
+    /**
+     * Adds a navigation property to the $expand option
+     * @param path The navigation property to expand
+     * @param configure Optional callback that sets the nested query options of the expansion
+     * @returns The current QueryBuilder instance for method chaining
+     * @example
+     * new QueryBuilder()
+     *   .expand('orders', (orders) => orders.select('id').top(5))
+     *   .build();
+     * // Result: "$expand=orders($select=id;$top=5)"
+     */
+    public expand<P extends FieldPath<TEntity>>(
+        path: P,
+        configure?: (
+            options: QueryBuilder<ExpandTarget<TEntity, P>>
+        ) => QueryBuilder<ExpandTarget<TEntity, P>> | void
+    ) {
+        const options = new QueryBuilder<ExpandTarget<TEntity, P>>();
+
+        configure?.(options);
+        this.expandItems.push({ path, options });
+
+        return this;
+    }
+
+    /**
+     * Adds a sort key to the $orderby option
+     * @param field The property path or expression to sort by
+     * @param direction The sort direction, ascending by default
+     * @returns The current QueryBuilder instance for method chaining
+     * @example
+     * new QueryBuilder().orderBy('lastName').orderBy('age', 'desc').build();
+     * // Result: "$orderby=lastName%20asc,age%20desc"
+     */
+    public orderBy(
+        field: FieldPath<TEntity> | FilterNode,
+        direction: OrderDirection = "asc"
+    ) {
+        if (direction !== "asc" && direction !== "desc") {
+            throw new Error(`Invalid sort direction '${direction}'`);
+        }
+
+        this.orderByItems.push({ expression: fieldOperand(field), direction });
+
+        return this;
+    }
+
+    /**
+     * Sets the $top option
+     * @param count The maximum number of results
+     * @returns The current QueryBuilder instance for method chaining
+     * @throws Error if count is not a non-negative integer
+     */
+    public top(count: number) {
+        this.topValue = this.assertCount("$top", count);
+
+        return this;
+    }
+
+    /**
+     * Sets the $skip option
+     * @param count The number of results to skip
+     * @returns The current QueryBuilder instance for method chaining
+     * @throws Error if count is not a non-negative integer
+     */
+    public skip(count: number) {
+        this.skipValue = this.assertCount("$skip", count);
+
+        return this;
+    }
+
+    /**
+     * Sets the $count option
+     * @param include Whether the total count of matching results should be returned
+     * @returns The current QueryBuilder instance for method chaining
+     */
+    public count(include = true) {
+        this.countValue = include;
+
+        return this;
+    }
+
+    /**
+     * Sets the $search option
+     * @param expression The free-text search expression
+     * @returns The current QueryBuilder instance for method chaining
+     * @example
+     * new QueryBuilder().search('blue OR green').build(); // "$search=blue%20OR%20green"
+     */
+    public search(expression: string) {
+        this.searchValue = expression;
+
+        return this;
+    }
+
+    /**
+     * Sets the $apply option; the transformation is passed through unchanged
+     * @param transformations The data aggregation transformations
+     * @returns The current QueryBuilder instance for method chaining
+     * @example
+     * new QueryBuilder().apply('groupby((category))').build(); // "$apply=groupby((category))"
+     */
+    public apply(transformations: string) {
+        this.applyValue = transformations;
+
+        return this;
+    }
+
+    /**
+     * Sets a custom query option that is passed through unchanged
+     * @param name The option name
+     * @param value The option value
+     * @returns The current QueryBuilder instance for method chaining
+     * @example
+     * new QueryBuilder().option('debug', 'true').build(); // "debug=true"
+     */
+    public option(name: string, value: string) {
+        this.customOptions.set(name, value);
+
+        return this;
+    }
+
+    /**
+     * Sets the parameter alias options for the parameters of the current filter, e.g. `@s='active'`
+     * @param bindings The value of each parameter, by name without the leading `@`
+     * @returns The current QueryBuilder instance for method chaining
+     * @throws Error if a parameter has no value, or a value is given for an unknown parameter
+     * @example
+     * new QueryBuilder()
+     *   .filter("status eq @s")
+     *   .aliases({ s: 'active' })
+     *   .build(); // "$filter=status%20eq%20@s&@s='active'"
+     */
+    public aliases(bindings: Record<string, Value>) {
+        const aliases = (this.filterBuilder ?? new SearchBuilder()).aliases(
+            bindings
+        );
+
+        for (const [name, value] of Object.entries(aliases)) {
+            this.customOptions.set(name, value);
+        }
+
+        return this;
+    }
+
+    /**
+     * Returns the filter builder, if a filter was set
+     */
+    public getFilter(): SearchBuilder<TEntity> | undefined {
+        return this.filterBuilder;
+    }
+
+    /**
+     * Returns the query options as name/value pairs, unencoded, in output order
+     * @returns The query options
+     * @example
+     * new QueryBuilder().select('id').top(5).toEntries(); // [["$select", "id"], ["$top", "5"]]
+     */
+    public toEntries(): [string, string][] {
+        const entries: [string, string][] = [];
+        const filter = this.filterBuilder?.build();
+
+        if (filter) {
+            entries.push(["$filter", filter]);
+        }
+
+        if (this.selectFields.length) {
+            entries.push(["$select", this.selectFields.join(",")]);
+        }
+
+        if (this.expandItems.length) {
+            entries.push([
+                "$expand",
+                this.expandItems
+                    .map(({ path, options }) => {
+                        const nested = options
+                            .toEntries()
+                            .map(([name, value]) => `${name}=${value}`)
+                            .join(";");
+
+                        return nested ? `${path}(${nested})` : path;
+                    })
+                    .join(","),
+            ]);
+        }
+
+        if (this.orderByItems.length) {
+            entries.push([
+                "$orderby",
+                this.orderByItems
+                    .map(
+                        ({ expression, direction }) =>
+                            `${serialize(expression)} ${direction}`
+                    )
+                    .join(","),
+            ]);
+        }
+
+        if (this.topValue !== undefined) {
+            entries.push(["$top", String(this.topValue)]);
+        }
+
+        if (this.skipValue !== undefined) {
+            entries.push(["$skip", String(this.skipValue)]);
+        }
+
+        if (this.countValue !== undefined) {
+            entries.push(["$count", String(this.countValue)]);
+        }
+
+        if (this.searchValue !== undefined) {
+            entries.push(["$search", this.searchValue]);
+        }
+
+        if (this.applyValue !== undefined) {
+            entries.push(["$apply", this.applyValue]);
+        }
+
+        entries.push(...this.customOptions);
+
+        return entries;
+    }
+
+    /**
+     * Builds the percent-encoded query string, without a leading '?'
+     * @returns The query string
+     * @example
+     * const url = `https://api.example.com/People?${new QueryBuilder().filter("name eq 'A&B'").build()}`;
+     * // "https://api.example.com/People?$filter=name%20eq%20'A%26B'"
+     */
+    public build(): string {
+        return this.toEntries()
+            .map(
+                ([name, value]) => `${encodeValue(name)}=${encodeValue(value)}`
+            )
+            .join("&");
+    }
+
+    /**
+     * Returns the query options as URLSearchParams
+     * @returns The URLSearchParams instance
+     * @example
+     * const url = new URL("https://api.example.com/People");
+     * url.search = new QueryBuilder().top(5).toURLSearchParams().toString();
+     */
+    public toURLSearchParams(): URLSearchParams {
+        return new URLSearchParams(this.toEntries());
+    }
+
+    /**
+     * Returns the structured query options
+     * @returns A snapshot of the options set on this builder
+     */
+    public toOptions() {
+        return {
+            filter: this.filterBuilder,
+            select: [...this.selectFields],
+            expand: [...this.expandItems],
+            orderBy: [...this.orderByItems],
+            top: this.topValue,
+            skip: this.skipValue,
+            count: this.countValue,
+            search: this.searchValue,
+            apply: this.applyValue,
+            custom: Object.fromEntries(this.customOptions),
+        };
+    }
+
+    private assertCount(option: string, count: number) {
+        if (!Number.isInteger(count) || count < 0) {
+            throw new Error(
+                `${option} requires a non-negative integer, got ${count}`
+            );
+        }
+
+        return count;
+    }
+}
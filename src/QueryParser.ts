@@ -0,0 +1,264 @@
+import { QueryBuilder, type OrderDirection } from "./QueryBuilder";
+import { SearchParser } from "./SearchParser";
+
+/**
+ * Splits a value on a separator, ignoring separators inside parentheses or quoted strings
+ * @param value The value to split
+ * @param separator The separator character
+ * @returns The trimmed, non-empty parts
+ * @throws Error if the parentheses are unbalanced
+ * @example
+ * splitTopLevel("a,b($select=c,d),e", ",") // ["a", "b($select=c,d)", "e"]
+ */
+function splitTopLevel(value: string, separator: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let inString = false;
+    let start = 0;
+
+    for (let index = 0; index < value.length; index++) {
+        const char = value[index];
+
+        if (char === "'") {
+            inString = !inString;
+        } else if (inString) {
+            continue;
+        } else if (char === "(") {
+            depth++;
+        } else if (char === ")") {
+            if (--depth < 0) {
+                throw new Error(`Unbalanced parentheses in '${value}'`);
+            }
+        } else if (char === separator && depth === 0) {
+            parts.push(value.slice(start, index));
+            start = index + 1;
+        }
+    }
+
+    if (depth !== 0 || inString) {
+        throw new Error(`Unbalanced parentheses or quotes in '${value}'`);
+    }
+
+    parts.push(value.slice(start));
+
+    return parts.map((part) => part.trim()).filter(Boolean);
+}
+
+/**
+ * Parses a non-negative integer option value
+ * @param name The option name, for error messages
+ * @param value The option value
+ * @returns The parsed number
+ * @throws Error if the value is not a non-negative integer
+ */
+function parseCount(name: string, value: string): number {
+    if (!/^\d+$/.test(value)) {
+        throw new Error(
+            `${name} requires a non-negative integer, got '${value}'`
+        );
+    }
+
+    return Number(value);
+}
+
+/**
+ * Matches the end of a time, before the sign of a time zone offset, e.g. `T10:30:00`
+ */
+const TIME_BEFORE_OFFSET = /\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?$/;
+
+/**
+ * Matches the start of a time zone offset after its sign, e.g. `01:00`
+ */
+const OFFSET_AFTER_SIGN = /^\d{2}:\d{2}/;
+
+/**
+ * Decodes a query string component. A '+' is a space, as written by URLSearchParams and
+ * HTML forms, except the sign of a time zone offset written unencoded outside a quoted string,
+ * e.g. in `created gt 2024-01-01T10:00:00+01:00`; an encoded '%2B' is always a '+'.
+ * @param value The raw component
+ * @returns The decoded component
+ * @throws Error if the component has an invalid percent-encoding
+ * @example
+ * decodeComponent("name+eq+'John+Doe'") // "name eq 'John Doe'"
+ * decodeComponent("at+gt+10:00:00+01:00") // "at gt 10:00:00+01:00"
+ */
+function decodeComponent(value: string): string {
+    let parts: string[];
+
+    try {
+        parts = value.split("+").map((part) => decodeURIComponent(part));
+    } catch {
+        throw new Error(`Invalid percent-encoding in '${value}'`);
+    }
+
+    let decoded = parts[0] as string;
+    let quotes = decoded.split("'").length - 1;
+
+    for (const part of parts.slice(1)) {
+        const isOffsetSign =
+            quotes % 2 === 0 &&
+            TIME_BEFORE_OFFSET.test(decoded) &&
+            OFFSET_AFTER_SIGN.test(part);
+
+        decoded += (isOffsetSign ? "+" : " ") + part;
+        quotes += part.split("'").length - 1;
+    }
+
+    return decoded;
+}
+
+/**
+ * QueryParser class provides functionality to parse OData query strings into QueryBuilder instances,
+ * the counterpart of QueryBuilder.build()
+ *
+ * @example
+ * const query = QueryParser.parse(
+ *   "https://api.example.com/People?$filter=age%20gt%2018&$select=id,name&$top=10"
+ * );
+ *
+ * query.getFilter()?.and().eq('active', true);
+ * console.log(query.build()); // "$filter=age%20gt%2018%20and%20active%20eq%20true&$select=id,name&$top=10"
+ *
+ * @author Keven Leone
+ */
+export class QueryParser {
+    /**
+     * Parses a URL or query string into a QueryBuilder.
+     *
+     * Values are percent-decoded and a '+' is read as a space, so the output of both `build()`
+     * and `toURLSearchParams()` can be parsed. The one exception is an unencoded '+' that is
+     * the sign of a time zone offset, such as `10:00:00+01:00`, which is kept.
+     * Options without a '$' prefix are kept as custom options.
+     *
+     * @param url - A full URL, or a query string with or without the leading '?'
+     * @returns A QueryBuilder instance representing the parsed options
+     * @throws FilterSyntaxError if $filter or $orderby contains an invalid expression
+     * @throws Error if another option is malformed
+     *
+     * @example
+     * const query = QueryParser.parse("$expand=orders($filter=total gt 100;$top=5)&$count=true");
+     * console.log(query.toOptions().expand[0]?.path); // "orders"
+     */
+    static parse<TEntity = any>(url: string): QueryBuilder<TEntity> {
+        const builder = new QueryBuilder<TEntity>();
+        const queryStart = url.indexOf("?");
+        const query = (
+            queryStart === -1 ? url : url.slice(queryStart + 1)
+        ).split("#")[0] as string;
+
+        for (const pair of query.split("&")) {
+            if (!pair) {
+                continue;
+            }
+
+            const separator = pair.indexOf("=");
+            const name = decodeComponent(
+                separator === -1 ? pair : pair.slice(0, separator)
+            );
+            const value =
+                separator === -1
+                    ? ""
+                    : decodeComponent(pair.slice(separator + 1));
+
+            this.applyOption(builder, name, value);
+        }
+
+        return builder;
+    }
+
+    private static applyOption(
+        builder: QueryBuilder,
+        name: string,
+        value: string
+    ) {
+        switch (name) {
+            case "$filter":
+                builder.filter(value);
+                break;
+
+            case "$select":
+                builder.select(...splitTopLevel(value, ","));
+                break;
+
+            case "$expand":
+                splitTopLevel(value, ",").forEach((item) =>
+                    this.applyExpand(builder, item)
+                );
+                break;
+
+            case "$orderby":
+                splitTopLevel(value, ",").forEach((item) => {
+                    const [, expression, direction] = item.match(
+                        /^(.*?)(?:\s+(asc|desc))?$/s
+                    ) as RegExpMatchArray;
+
+                    const ast = SearchParser.parseAST(expression as string);
+
+                    if (!ast) {
+                        throw new Error(`Invalid $orderby item '${item}'`);
+                    }
+
+                    builder.orderBy(
+                        ast,
+                        (direction as OrderDirection | undefined) ?? "asc"
+                    );
+                });
+                break;
+
+            case "$top":
+                builder.top(parseCount(name, value));
+                break;
+
+            case "$skip":
+                builder.skip(parseCount(name, value));
+                break;
+
+            case "$count":
+                if (value !== "true" && value !== "false") {
+                    throw new Error(
+                        `$count requires 'true' or 'false', got '${value}'`
+                    );
+                }
+
+                builder.count(value === "true");
+                break;
+
+            case "$search":
+                builder.search(value);
+                break;
+
+            case "$apply":
+                builder.apply(value);
+                break;
+
+            default:
+                builder.option(name, value);
+        }
+    }
+
+    private static applyExpand(builder: QueryBuilder, item: string) {
+        const match = item.match(/^([^()]+?)\s*(?:\((.*)\))?$/s);
+
+        if (!match) {
+            throw new Error(`Invalid $expand item '${item}'`);
+        }
+
+        const [, path, nested = ""] = match;
+
+        builder.expand(path as string, (options) => {
+            for (const option of splitTopLevel(nested, ";")) {
+                const separator = option.indexOf("=");
+
+                if (separator === -1) {
+                    throw new Error(`Invalid $expand option '${option}'`);
+                }
+
+                this.applyOption(
+                    options,
+                    option.slice(0, separator).trim(),
+                    option.slice(separator + 1).trim()
+                );
+            }
+        });
+    }
+}
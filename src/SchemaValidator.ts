@@ -0,0 +1,673 @@
+import type { EdmModel, EdmTypeReference } from "./EdmModel";
+import type { FilterNode, FunctionCallNode, LambdaNode } from "./FilterAST";
+import { SearchParser, type FilterInput } from "./SearchParser";
+import { TypedLiteral } from "./TypedLiteral";
+
+/**
+ * A problem found by checking a filter against an entity model
+ */
+export type SchemaIssue = {
+    message: string;
+    /**
+     * The field path the problem concerns, e.g. `customer/address/city`, or "" if none
+     */
+    path: string;
+};
+
+/**
+ * The type of an operand; `path` is the field it was read from, if any
+ */
+type Operand = { type: string; collection: boolean; path: string };
+
+/**
+ * Kinds of values that can be compared with each other
+ */
+type Category =
+    | "binary"
+    | "boolean"
+    | "date"
+    | "dateTimeOffset"
+    | "duration"
+    | "enum"
+    | "guid"
+    | "null"
+    | "number"
+    | "spatial"
+    | "string"
+    | "structured"
+    | "timeOfDay";
+
+const PRIMITIVE_CATEGORIES: Record<string, Category> = {
+    "Edm.Binary": "binary",
+    "Edm.Boolean": "boolean",
+    "Edm.Byte": "number",
+    "Edm.Date": "date",
+    "Edm.DateTimeOffset": "dateTimeOffset",
+    "Edm.Decimal": "number",
+    "Edm.Double": "number",
+    "Edm.Duration": "duration",
+    "Edm.Guid": "guid",
+    "Edm.Int16": "number",
+    "Edm.Int32": "number",
+    "Edm.Int64": "number",
+    "Edm.SByte": "number",
+    "Edm.Single": "number",
+    "Edm.String": "string",
+    "Edm.TimeOfDay": "timeOfDay",
+};
+
+const LITERAL_TYPES: Record<Exclude<TypedLiteral["kind"], "enum">, string> = {
+    binary: "Edm.Binary",
+    date: "Edm.Date",
+    decimal: "Edm.Decimal",
+    duration: "Edm.Duration",
+    guid: "Edm.Guid",
+    timeOfDay: "Edm.TimeOfDay",
+};
+
+const NULL: Operand = { type: "null", collection: false, path: "" };
+
+/**
+ * Argument categories and return type of the built-in functions. `returns` is undefined
+ * when the result has the type of the first argument.
+ */
+const SIGNATURES: Record<string, { args: Category[][]; returns?: string }> = {
+    ceiling: { args: [["number"]] },
+    concat: { args: [["string"], ["string"]], returns: "Edm.String" },
+    contains: { args: [["string"], ["string"]], returns: "Edm.Boolean" },
+    date: { args: [["dateTimeOffset"]], returns: "Edm.Date" },
+    day: { args: [["date", "dateTimeOffset"]], returns: "Edm.Int32" },
+    endswith: { args: [["string"], ["string"]], returns: "Edm.Boolean" },
+    floor: { args: [["number"]] },
+    fractionalseconds: {
+        args: [["dateTimeOffset", "timeOfDay"]],
+        returns: "Edm.Decimal",
+    },
+    hour: { args: [["dateTimeOffset", "timeOfDay"]], returns: "Edm.Int32" },
+    indexof: { args: [["string"], ["string"]], returns: "Edm.Int32" },
+    length: { args: [["string"]], returns: "Edm.Int32" },
+    matchesPattern: { args: [["string"], ["string"]], returns: "Edm.Boolean" },
+    maxdatetime: { args: [], returns: "Edm.DateTimeOffset" },
+    mindatetime: { args: [], returns: "Edm.DateTimeOffset" },
+    minute: { args: [["dateTimeOffset", "timeOfDay"]], returns: "Edm.Int32" },
+    month: { args: [["date", "dateTimeOffset"]], returns: "Edm.Int32" },
+    now: { args: [], returns: "Edm.DateTimeOffset" },
+    round: { args: [["number"]] },
+    second: { args: [["dateTimeOffset", "timeOfDay"]], returns: "Edm.Int32" },
+    startswith: { args: [["string"], ["string"]], returns: "Edm.Boolean" },
+    substring: {
+        args: [["string"], ["number"], ["number"]],
+        returns: "Edm.String",
+    },
+    time: { args: [["dateTimeOffset"]], returns: "Edm.TimeOfDay" },
+    tolower: { args: [["string"]], returns: "Edm.String" },
+    totaloffsetminutes: { args: [["dateTimeOffset"]], returns: "Edm.Int32" },
+    totalseconds: { args: [["duration"]], returns: "Edm.Decimal" },
+    toupper: { args: [["string"]], returns: "Edm.String" },
+    trim: { args: [["string"]], returns: "Edm.String" },
+    year: { args: [["date", "dateTimeOffset"]], returns: "Edm.Int32" },
+};
+
+/**
+ * Functions that also accept a collection as their first argument
+ */
+const COLLECTION_FUNCTIONS = ["concat", "length"];
+
+/**
+ * Describes an operand for messages
+ * @example
+ * describe({ type: "Edm.Int32", collection: false, path: "age" }) // "'age' (Edm.Int32)"
+ */
+function describe({ type, collection, path }: Operand): string {
+    const name = collection ? `Collection(${type})` : type;
+
+    return path ? `'${path}' (${name})` : name;
+}
+
+/**
+ * Finds the first field path in an expression, used to locate issues that are not about one property
+ */
+function pathOf(node: FilterNode): string {
+    switch (node.type) {
+        case "property":
+            return node.path;
+
+        case "lambda":
+            return node.collection;
+
+        case "comparison":
+        case "arithmetic":
+        case "logical":
+            return pathOf(node.left) || pathOf(node.right);
+
+        case "in":
+            return pathOf(node.left);
+
+        case "not":
+        case "group":
+            return pathOf(node.expression);
+
+        case "function":
+            return node.args.map(pathOf).find(Boolean) ?? "";
+
+        default:
+            return "";
+    }
+}
+
+/**
+ * Walks an expression tree, inferring the type of each operand from the model and
+ * collecting the issues found
+ */
+class SchemaChecker {
+    readonly issues: SchemaIssue[] = [];
+
+    /**
+     * Element types of the range variables of the enclosing lambdas
+     */
+    private variables = new Map<string, EdmTypeReference>();
+
+    constructor(
+        private readonly model: EdmModel,
+        private readonly root: string
+    ) {}
+
+    private report(message: string, path: string) {
+        this.issues.push({ message, path });
+    }
+
+    /**
+     * Returns the category of a type, following type definitions
+     * @returns The category, or undefined for types that cannot be checked, such as Edm.Untyped
+     */
+    private category(type: string): Category | undefined {
+        const declared = this.model.getType(type);
+
+        if (declared?.kind === "TypeDefinition") {
+            return this.category(declared.underlyingType);
+        }
+
+        if (declared?.kind === "EnumType") {
+            return "enum";
+        }
+
+        if (declared) {
+            return "structured";
+        }
+
+        if (type === "null") {
+            return "null";
+        }
+
+        return /^Edm\.(Geography|Geometry)/.test(type)
+            ? "spatial"
+            : PRIMITIVE_CATEGORIES[type];
+    }
+
+    /**
+     * Checks an expression used as a condition
+     */
+    check(node: FilterNode) {
+        switch (node.type) {
+            case "group":
+            case "not":
+                this.check(node.expression);
+                break;
+
+            case "logical":
+                this.check(node.left);
+                this.check(node.right);
+                break;
+
+            default: {
+                const operand = this.typeOf(node);
+
+                if (
+                    operand &&
+                    (operand.collection ||
+                        !["boolean", "null", undefined].includes(
+                            this.category(operand.type)
+                        ))
+                ) {
+                    this.report(
+                        `${describe(operand)} is not a boolean condition`,
+                        operand.path
+                    );
+                }
+            }
+        }
+    }
+
+    /**
+     * Infers the type of an operand, reporting the issues found inside it
+     * @returns The type, or undefined if it is unknown or invalid
+     */
+    private typeOf(node: FilterNode): Operand | undefined {
+        switch (node.type) {
+            case "group":
+                return this.typeOf(node.expression);
+
+            case "literal":
+                return this.literal(node.value);
+
+            case "collection": {
+                const item = node.items.map((item) => this.literal(item.value));
+
+                return item[0] && { ...item[0], collection: true };
+            }
+
+            case "property":
+                return this.property(node.path);
+
+            case "logical":
+            case "not":
+                this.check(node);
+                return { type: "Edm.Boolean", collection: false, path: "" };
+
+            case "comparison": {
+                const left = this.typeOf(node.left);
+                const right = this.typeOf(node.right);
+
+                if (left && right) {
+                    this.compare(left, right, node.left, node.right);
+                }
+
+                return { type: "Edm.Boolean", collection: false, path: "" };
+            }
+
+            case "in": {
+                const left = this.typeOf(node.left);
+
+                for (const value of node.values) {
+                    const right = this.typeOf(value);
+
+                    if (left && right) {
+                        this.compare(left, right, node.left, value);
+                    }
+                }
+
+                return { type: "Edm.Boolean", collection: false, path: "" };
+            }
+
+            case "arithmetic":
+                return this.arithmetic(node);
+
+            case "function":
+                return this.call(node);
+
+            case "lambda":
+                this.lambda(node);
+                return { type: "Edm.Boolean", collection: false, path: "" };
+        }
+    }
+
+    private literal(value: unknown): Operand {
+        const operand = (type: string) => ({
+            type,
+            collection: false,
+            path: "",
+        });
+
+        if (value instanceof TypedLiteral) {
+            return operand(
+                value.kind === "enum"
+                    ? (value.typeName as string)
+                    : LITERAL_TYPES[value.kind]
+            );
+        }
+
+        switch (typeof value) {
+            case "string":
+                return operand("Edm.String");
+
+            case "number":
+                return operand(
+                    Number.isInteger(value) ? "Edm.Int32" : "Edm.Double"
+                );
+
+            case "boolean":
+                return operand("Edm.Boolean");
+        }
+
+        return value instanceof Date ? operand("Edm.DateTimeOffset") : NULL;
+    }
+
+    /**
+     * Resolves a property path against the entity type, or against the element type of a
+     * lambda range variable when the first segment names one
+     * @returns The property type, or undefined if the path is invalid or an open type makes it unknown
+     */
+    private property(path: string): Operand | undefined {
+        const [first, ...rest] = path.split("/") as [string, ...string[]];
+        let current: EdmTypeReference = this.variables.get(first) ?? {
+            type: this.root,
+            collection: false,
+            nullable: false,
+        };
+        const segments =
+            this.variables.has(first) || first === "$it"
+                ? rest
+                : [first, ...rest];
+        let walked = this.variables.has(first) || first === "$it" ? first : "";
+
+        for (const segment of segments) {
+            const at = walked ? `${walked}/${segment}` : segment;
+
+            if (current.collection) {
+                if (segment === "$count") {
+                    current = {
+                        type: "Edm.Int32",
+                        collection: false,
+                        nullable: false,
+                    };
+                    walked = at;
+                    continue;
+                }
+
+                this.report(
+                    `'${walked}' is a collection; its elements can only be reached inside any() or all()`,
+                    at
+                );
+                return undefined;
+            }
+
+            if (this.model.getEntityType(current.type) === undefined) {
+                this.report(
+                    `'${walked}' is ${current.type} and has no property '${segment}'`,
+                    at
+                );
+                return undefined;
+            }
+
+            if (segment.includes(".")) {
+                if (!this.model.getEntityType(segment)) {
+                    this.report(`Unknown type '${segment}'`, at);
+                    return undefined;
+                }
+
+                current = { ...current, type: segment };
+                walked = at;
+                continue;
+            }
+
+            const property = this.model.getProperty(current.type, segment);
+
+            if (!property) {
+                if (!this.model.isOpen(current.type)) {
+                    this.report(
+                        `Unknown property '${segment}' on ${current.type}`,
+                        at
+                    );
+                }
+
+                return undefined;
+            }
+
+            current = property;
+            walked = at;
+        }
+
+        return { type: current.type, collection: current.collection, path };
+    }
+
+    /**
+     * Reports operands that cannot be compared with each other
+     */
+    private compare(
+        left: Operand,
+        right: Operand,
+        leftNode: FilterNode,
+        rightNode: FilterNode
+    ) {
+        const a = this.category(left.type);
+        const b = this.category(right.type);
+        const path =
+            left.path || right.path || pathOf(leftNode) || pathOf(rightNode);
+
+        if (
+            left.collection ||
+            right.collection ||
+            a === "structured" ||
+            b === "structured"
+        ) {
+            if (a !== "null" && b !== "null") {
+                this.report(
+                    `Cannot compare ${describe(left)} with ${describe(
+                        right
+                    )}; only primitive values can be compared`,
+                    path
+                );
+            }
+            return;
+        }
+
+        if (!a || !b || a === "null" || b === "null") {
+            return;
+        }
+
+        // Enumeration members can be written as plain strings
+        const enumMember = (category: Category, node: FilterNode) =>
+            category === "string" && node.type === "literal";
+
+        const compatible =
+            a === "enum" || b === "enum"
+                ? left.type === right.type ||
+                  (a === "enum" && enumMember(b, rightNode)) ||
+                  (b === "enum" && enumMember(a, leftNode))
+                : a === b;
+
+        if (!compatible) {
+            this.report(
+                `Cannot compare ${describe(left)} with ${describe(right)}`,
+                path
+            );
+        }
+    }
+
+    private arithmetic(
+        node: FilterNode & { type: "arithmetic" }
+    ): Operand | undefined {
+        const left = this.typeOf(node.left);
+        const right = this.typeOf(node.right);
+
+        if (!left || !right) {
+            return undefined;
+        }
+
+        const a = this.category(left.type);
+        const b = this.category(right.type);
+        const path = left.path || right.path;
+
+        if (a === "null" || b === "null") {
+            return NULL;
+        }
+
+        if (a === "number" && b === "number") {
+            return {
+                type: left.type === right.type ? left.type : "Edm.Double",
+                collection: false,
+                path,
+            };
+        }
+
+        if (node.operator === "add" || node.operator === "sub") {
+            if ((a === "date" || a === "dateTimeOffset") && b === "duration") {
+                return { ...left, path };
+            }
+
+            if (
+                node.operator === "sub" &&
+                a === b &&
+                (a === "date" || a === "dateTimeOffset")
+            ) {
+                return { type: "Edm.Duration", collection: false, path };
+            }
+        }
+
+        if (a && b) {
+            this.report(
+                `Cannot apply '${node.operator}' to ${describe(
+                    left
+                )} and ${describe(right)}`,
+                path
+            );
+        }
+
+        return undefined;
+    }
+
+    private call(node: FunctionCallNode): Operand | undefined {
+        const { name, args } = node;
+
+        if (name === "cast" || name === "isof") {
+            // The last argument names a type rather than a property
+            if (args.length > 1) {
+                this.typeOf(args[0] as FilterNode);
+            }
+
+            const target = args[args.length - 1];
+
+            return name === "isof"
+                ? { type: "Edm.Boolean", collection: false, path: "" }
+                : target?.type === "property"
+                ? { type: target.path, collection: false, path: pathOf(node) }
+                : undefined;
+        }
+
+        const operands = args.map((arg) => this.typeOf(arg));
+        const signature = SIGNATURES[name];
+
+        if (!signature) {
+            return undefined;
+        }
+
+        signature.args.forEach((categories, index) => {
+            const operand = operands[index];
+            const category = operand && this.category(operand.type);
+
+            if (!operand || !category || category === "null") {
+                return;
+            }
+
+            if (operand.collection) {
+                if (index === 0 && COLLECTION_FUNCTIONS.includes(name)) {
+                    return;
+                }
+            } else if (categories.includes(category)) {
+                return;
+            }
+
+            this.report(
+                `${name}() expects ${categories.join(" or ")} but ${describe(
+                    operand
+                )} was given`,
+                operand.path || pathOf(node)
+            );
+        });
+
+        if (signature.returns) {
+            return { type: signature.returns, collection: false, path: "" };
+        }
+
+        return operands[0] && { ...operands[0], path: "" };
+    }
+
+    /**
+     * Checks that a lambda ranges over a collection, then checks its condition with the range
+     * variable bound to the element type
+     */
+    private lambda(node: LambdaNode) {
+        const collection = this.property(node.collection);
+
+        if (!collection) {
+            return;
+        }
+
+        if (!collection.collection) {
+            this.report(
+                `${node.operator}() needs a collection but ${describe(
+                    collection
+                )} is not one`,
+                node.collection
+            );
+            return;
+        }
+
+        if (!node.expression) {
+            return;
+        }
+
+        const outer = this.variables.get(node.variable);
+
+        this.variables.set(node.variable, {
+            type: collection.type,
+            collection: false,
+            nullable: false,
+        });
+
+        try {
+            this.check(node.expression);
+        } finally {
+            if (outer) {
+                this.variables.set(node.variable, outer);
+            } else {
+                this.variables.delete(node.variable);
+            }
+        }
+    }
+}
+
+/**
+ * SchemaValidator checks filters against an entity model read from an OData `$metadata`
+ * document, finding the mistakes a service would reject before the request is sent:
+ *
+ * - Unknown properties, and navigation through primitive values or collections
+ * - Comparisons between incompatible types, such as a number with a string
+ * - Functions applied to the wrong types, such as `contains()` on a number
+ * - `any()` and `all()` over properties that are not collections
+ *
+ * Properties of open types, and operands whose type cannot be inferred, are not reported.
+ *
+ * @author Keven Leone
+ * @example
+ * const model = await EdmModel.fromFile("./metadata.xml");
+ *
+ * SchemaValidator.validate("contains(Age, '1') and Orders/any(o:o/Totl gt 10)", model, "Customers");
+ * // [
+ * //   { message: "contains() expects string but 'Age' (Edm.Int32) was given", path: "Age" },
+ * //   { message: "Unknown property 'Totl' on Sales.Order", path: "o/Totl" },
+ * // ]
+ */
+export class SchemaValidator {
+    /**
+     * Checks a filter against an entity type
+     * @param filter - A SearchBuilder, an expression tree or a filter string
+     * @param model - The entity model
+     * @param entityType - The qualified name of the entity type, or the name of an entity set
+     * @returns The issues found, in the order they appear in the filter; empty if it is valid
+     * @throws FilterSyntaxError if a filter string is invalid
+     * @throws Error if the entity type is not in the model
+     */
+    static validate(
+        filter: FilterInput,
+        model: EdmModel,
+        entityType: string
+    ): SchemaIssue[] {
+        const type = model.getEntityType(entityType);
+
+        if (!type) {
+            throw new Error(
+                `Unknown entity type or entity set '${entityType}'`
+            );
+        }
+
+        const ast = SearchParser.toAST(filter);
+        const checker = new SchemaChecker(model, type.name);
+
+        if (ast) {
+            checker.check(ast);
+        }
+
+        return checker.issues;
+    }
+}
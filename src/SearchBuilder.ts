@@ -1,3 +1,48 @@
+import {
+    children,
+    literal,
+    serialize,
+    type ComparisonOperator,
+    type FilterNode,
+    type LambdaOperator,
+} from "./FilterAST";
+import { compile, type CompileOptions } from "./FilterEvaluator";
+import { diff, type FilterChange } from "./FilterDiff";
+import {
+    FilterFormatter,
+    type ExplainOptions,
+    type FormatOptions,
+} from "./FilterFormatter";
+import {
+    fromFilterJSON,
+    toFilterJSON,
+    type FilterDocument,
+} from "./FilterJSON";
+import { normalize } from "./FilterNormalizer";
+import {
+    transform,
+    visit,
+    type FilterTransformer,
+    type FilterVisitor,
+} from "./FilterVisitor";
+import type { FilterInput } from "./SearchParser";
+import type { TypedLiteral } from "./TypedLiteral";
+import type {
+    CollectionElement,
+    CollectionFieldPath,
+    FieldPath,
+    FieldValue,
+    LambdaScope,
+    StringFieldPath,
+} from "./FieldPath";
+import {
+    FilterFunctions,
+    fieldOperand,
+    valueOperand,
+    type FieldOperand,
+    type ValueOperand,
+} from "./FilterFunctions";
+
 /**
  * Options for the 'any' operator that applies a condition to elements in a collection
  * @example
@@ -6,6 +51,19 @@
  */
 type AnyOptions = { operator: Operators; value: Value };
 
+/**
+ * Callback that builds the body of a lambda expression on a fresh builder.
+ * Reference the current element with the range variable, and its properties
+ * with `${variable}/Property`.
+ * @example
+ * // Find orders where any item has quantity over 10 and is not cancelled
+ * builder.any('items', (item, i) => item.gt(`${i}/quantity`, 10).and().ne(`${i}/status`, 'cancelled'), 'i')
+ */
+export type LambdaPredicate<TScope = any, TVariable extends string = string> = (
+    builder: SearchBuilder<TScope>,
+    variable: TVariable
+) => SearchBuilder<TScope> | void;
+
 /**
  * Supported value types for OData filter conditions
  * @example
@@ -14,8 +72,10 @@ type AnyOptions = { operator: Operators; value: Value };
  * const numValue: Value = 42;
  * const strValue: Value = "example";
  * const dateValue: Value = new Date();
+ * const nullValue: Value = null;
+ * const guidValue: Value = TypedLiteral.guid("01234567-89ab-cdef-0123-456789abcdef");
  */
-export type Value = boolean | number | string | Date;
+export type Value = boolean | number | string | Date | null | TypedLiteral;
 
 /**
  * Supported OData filter operators
@@ -27,37 +87,547 @@ export type Value = boolean | number | string | Date;
  */
 export type Operators =
     | "contains" // String contains substring
+    | "endswith" // String ends with substring
     | "eq" // Equal to
     | "ge" // Greater than or equal to
     | "gt" // Greater than
     | "lambda" // Lambda expression (for collections)
     | "le" // Less than or equal to
     | "lt" // Less than
+    | "matchesPattern" // String matches a regular expression
     | "ne" // Not equal to
-    | "startsWith"; // String starts with substring
+    | "startsWith" // String starts with substring
+    | "startswith"; // String starts with substring
+
+/**
+ * A single entry recorded by the fluent API: either a complete condition node
+ * or one of the structural tokens that is resolved when the tree is assembled
+ */
+type QueryPart = FilterNode | "and" | "or" | "not" | "(" | ")";
+
+/**
+ * Options for a SearchBuilder
+ */
+export type SearchBuilderOptions = {
+    /**
+     * Inserts 'and' between two conditions added without a logical operator,
+     * instead of reporting the missing operator
+     * @default false
+     */
+    implicitAnd?: boolean;
+};
 
 /**
- * Formats a value according to OData syntax rules
- * - Strings are wrapped in single quotes with proper escaping
- * - Dates are converted to ISO strings
- * - Other values are converted to strings
- * @param value The value to format
- * @returns Formatted value string ready for OData query
+ * A structural problem in the sequence of calls recorded by a SearchBuilder
  * @example
- * formatValue("John's data") // "'John''s data'" (note the escaped single quote)
- * formatValue(new Date("2023-01-01")) // "2023-01-01T00:00:00.000Z"
- * formatValue(42) // "42"
+ * // new SearchBuilder().eq('name', 'a').and().build()
+ * const issue: StructureIssue = { message: "Filter ends with 'and' after name eq 'a'", position: 1 };
+ */
+export type StructureIssue = {
+    message: string;
+    /**
+     * Zero-based position of the offending call among the recorded conditions and operators
+     */
+    position: number;
+};
+
+/**
+ * Creates a comparison node between a field and a value
+ * @param operator The comparison operator
+ * @param field The field name or expression
+ * @param value The value or expression to compare against
+ * @returns A ComparisonNode
+ */
+function comparison(
+    operator: ComparisonOperator,
+    field: FieldOperand,
+    value: ValueOperand
+): FilterNode {
+    return {
+        type: "comparison",
+        operator,
+        left: fieldOperand(field),
+        right: valueOperand(value),
+    };
+}
+
+/**
+ * Creates an 'in' node
+ * @param field The field name or expression
+ * @param values Array of values or expressions to check against
+ * @returns An InNode
+ * @throws Error if values is not an array
+ */
+function membership(field: FieldOperand, values: ValueOperand[]): FilterNode {
+    if (!Array.isArray(values)) {
+        throw new Error(`'in' requires array`);
+    }
+
+    return {
+        type: "in",
+        left: fieldOperand(field),
+        values: values.map(valueOperand),
+    };
+}
+
+/**
+ * Creates the node for a condition described by an operator name
+ * @param operator The operator to apply
+ * @param field The field name
+ * @param value The value to compare against
+ * @returns The condition node
+ * @throws Error if the operator cannot be used as a single condition
+ */
+function condition(
+    operator: Operators,
+    field: string,
+    value: Value
+): FilterNode {
+    switch (operator) {
+        case "eq":
+        case "ne":
+        case "gt":
+        case "ge":
+        case "lt":
+        case "le":
+            return comparison(operator, field, value);
+        case "contains":
+        case "endswith":
+        case "matchesPattern":
+        case "startswith":
+            return FilterFunctions[operator](field, value);
+        case "startsWith":
+            return FilterFunctions.startswith(field, value);
+        default:
+            throw new Error("Invalid operator");
+    }
+}
+
+/**
+ * Throws if a lambda body declares the range variable of an enclosing lambda again
+ * @param node The lambda body
+ * @param variable The range variable of the enclosing lambda
+ * @throws Error if a nested lambda reuses the variable
+ */
+function assertUniqueVariable(node: FilterNode, variable: string) {
+    if (node.type === "lambda" && node.variable === variable) {
+        throw new Error(
+            `Lambda variable '${variable}' is already used by an enclosing lambda`
+        );
+    }
+
+    children(node).forEach((child) => assertUniqueVariable(child, variable));
+}
+
+/**
+ * Creates a lambda node over a collection
+ * @param operator The lambda operator
+ * @param field The collection field name
+ * @param predicate A single condition or a callback that builds the lambda body
+ * @param variable The range variable name
+ * @returns A LambdaNode
+ * @throws Error if the body is invalid, or if the variable is reused by a nested lambda
  */
-function formatValue(value: Value): string {
-    if (typeof value === "string") {
-        return `'${value.replace(/'/g, "''")}'`;
+function lambda(
+    operator: LambdaOperator,
+    field: string,
+    predicate: AnyOptions | LambdaPredicate<any, any> | undefined,
+    variable: string
+): FilterNode {
+    if (!/^[A-Za-z_]\w*$/.test(variable)) {
+        throw new Error(`Invalid lambda variable '${variable}'`);
     }
 
-    if (value instanceof Date) {
-        return value.toISOString();
+    let expression: FilterNode | undefined;
+
+    if (typeof predicate === "function") {
+        const builder = new SearchBuilder();
+
+        expression = (predicate(builder, variable) ?? builder).toAST();
+    } else if (predicate) {
+        expression = condition(predicate.operator, variable, predicate.value);
+    }
+
+    if (!expression) {
+        if (operator === "all") {
+            throw new Error(`'all' requires a condition for '${field}'`);
+        }
+
+        return { type: "lambda", operator, collection: field, variable: "" };
     }
 
-    return String(value);
+    assertUniqueVariable(expression, variable);
+
+    return {
+        type: "lambda",
+        operator,
+        collection: field,
+        variable,
+        expression,
+    };
+}
+
+/**
+ * A condition to match in a filter: a property path, matching every condition that reads the
+ * property or a property beneath it, or a callback that tests each condition
+ */
+type ConditionMatcher = string | ((condition: FilterNode) => boolean);
+
+/**
+ * Checks whether an expression reads a property or a navigation path beneath it.
+ * Paths that start with a lambda range variable refer to the collection element and never match.
+ * @param node The expression to inspect
+ * @param field The property path
+ * @param variables Range variables bound by enclosing lambdas
+ * @returns True if the property is referenced
+ */
+function references(
+    node: FilterNode,
+    field: string,
+    variables: string[] = []
+): boolean {
+    const matches = (path: string) =>
+        !variables.includes(path.split("/")[0] as string) &&
+        (path === field || path.startsWith(`${field}/`));
+
+    if (node.type === "property") {
+        return matches(node.path);
+    }
+
+    if (node.type === "lambda") {
+        return (
+            matches(node.collection) ||
+            (!!node.expression &&
+                references(node.expression, field, [
+                    ...variables,
+                    node.variable,
+                ]))
+        );
+    }
+
+    return children(node).some((child) => references(child, field, variables));
+}
+
+/**
+ * Rewrites the conditions of an expression, keeping its `and`/`or`/`not` structure.
+ * Conditions are the operands of the logical operators, such as comparisons and function calls.
+ * @param node The expression to rewrite
+ * @param rewrite Returns the replacement of a condition, or undefined to remove it
+ * @returns The rewritten expression, or undefined if every condition was removed
+ */
+function rewriteConditions(
+    node: FilterNode,
+    rewrite: (condition: FilterNode) => FilterNode | undefined
+): FilterNode | undefined {
+    switch (node.type) {
+        case "logical": {
+            const left = rewriteConditions(node.left, rewrite);
+            const right = rewriteConditions(node.right, rewrite);
+
+            return left && right ? { ...node, left, right } : left ?? right;
+        }
+
+        case "not": {
+            const expression = rewriteConditions(node.expression, rewrite);
+
+            return expression && { ...node, expression };
+        }
+
+        case "group": {
+            const expression = rewriteConditions(node.expression, rewrite);
+
+            // Parentheses around what is left of a rewritten group are kept only if still needed
+            return expression === node.expression ||
+                expression?.type === "logical"
+                ? expression && { ...node, expression }
+                : expression;
+        }
+
+        default:
+            return rewrite(node);
+    }
+}
+
+/**
+ * Checks that bindings give a value to every parameter of a filter, and to nothing else
+ * @param names The parameter names used by the filter
+ * @param bindings The values by parameter name
+ * @throws Error listing the missing and unexpected bindings
+ */
+function assertBindings(names: string[], bindings: Record<string, Value>) {
+    const missing = names.filter((name) => bindings[name] === undefined);
+    const extra = Object.keys(bindings).filter((name) => !names.includes(name));
+    const problems = [
+        missing.length &&
+            `missing values for ${missing
+                .map((name) => `@${name}`)
+                .join(", ")}`,
+        extra.length && `unexpected bindings for ${extra.join(", ")}`,
+    ].filter(Boolean);
+
+    if (problems.length) {
+        throw new Error(`Invalid parameter bindings: ${problems.join("; ")}`);
+    }
+}
+
+/**
+ * Creates the matching test for a condition matcher
+ */
+function conditionTest(match: ConditionMatcher) {
+    return typeof match === "function"
+        ? match
+        : (condition: FilterNode) => references(condition, match);
+}
+
+/**
+ * Joins the filters of several builders with a logical operator, skipping empty builders
+ * @returns The combined expression, or undefined if every builder is empty
+ */
+function combine(
+    operator: "and" | "or",
+    builders: SearchBuilder<any>[]
+): FilterNode | undefined {
+    return builders
+        .map((builder) => builder.toAST())
+        .filter((ast): ast is FilterNode => !!ast)
+        .reduce<FilterNode | undefined>(
+            (left, right) =>
+                left ? { type: "logical", operator, left, right } : right,
+            undefined
+        );
+}
+
+/**
+ * Describes a query part for structural messages
+ */
+function describePart(part: QueryPart): string {
+    if (typeof part === "object") {
+        return serialize(part);
+    }
+
+    return part === "("
+        ? "openGroup()"
+        : part === ")"
+        ? "closeGroup()"
+        : `'${part}'`;
+}
+
+/**
+ * Checks that recorded query parts form a complete expression, and reports every problem found:
+ * unbalanced groups, empty groups, logical operators without an operand on either side,
+ * conditions without a logical operator between them and 'in' conditions without values
+ * @param parts The recorded query parts
+ * @returns The problems, ordered by position; empty when the parts are valid
+ * @example
+ * validateParts(["and", condition]) // [{ message: "Filter starts with 'and'", position: 0 }]
+ */
+function validateParts(parts: QueryPart[]): StructureIssue[] {
+    const issues: StructureIssue[] = [];
+    const groups: number[] = [];
+    let expectOperand = true;
+
+    const report = (message: string, position: number) =>
+        issues.push({ message, position });
+
+    parts.forEach((part, position) => {
+        const previous = parts[position - 1];
+
+        if (part === "and" || part === "or") {
+            if (!expectOperand) {
+                expectOperand = true;
+            } else if (previous === undefined) {
+                report(`Filter starts with '${part}'`, position);
+            } else if (previous === "(") {
+                report(`Group starts with '${part}'`, position);
+            } else {
+                report(
+                    `'${part}' follows ${describePart(
+                        previous
+                    )} without a condition in between`,
+                    position
+                );
+            }
+
+            return;
+        }
+
+        if (part === ")") {
+            if (!groups.length) {
+                report("closeGroup() without a matching openGroup()", position);
+
+                return;
+            }
+
+            if (previous === "(") {
+                report("Empty group", position);
+            } else if (expectOperand) {
+                report(
+                    `Group ends with ${describePart(previous as QueryPart)}`,
+                    position
+                );
+            }
+
+            groups.pop();
+            expectOperand = false;
+
+            return;
+        }
+
+        if (typeof part === "object") {
+            visit(part, {
+                in: (node) => {
+                    if (!node.values.length) {
+                        report(
+                            `'in' on ${serialize(node.left)} has no values`,
+                            position
+                        );
+                    }
+                },
+            });
+        }
+
+        // A condition, 'not' or an opening group starts an operand
+        if (!expectOperand) {
+            report(
+                `Missing 'and' or 'or' between ${describePart(
+                    previous as QueryPart
+                )} and ${describePart(part)}`,
+                position
+            );
+        }
+
+        if (part === "(") {
+            groups.push(position);
+        }
+
+        expectOperand = part === "(" || part === "not";
+    });
+
+    const last = parts[parts.length - 1];
+
+    if (last !== undefined && expectOperand && last !== "(") {
+        const before = parts[parts.length - 2];
+
+        report(
+            `Filter ends with ${describePart(last)}${
+                before !== undefined && typeof before === "object"
+                    ? ` after ${describePart(before)}`
+                    : ""
+            }`,
+            parts.length - 1
+        );
+    }
+
+    for (const position of groups) {
+        report("openGroup() without a matching closeGroup()", position);
+    }
+
+    return issues.sort((a, b) => a.position - b.position);
+}
+
+/**
+ * Assembles the recorded query parts into a single expression tree,
+ * applying OData precedence (`not` > `and` > `or`)
+ */
+class PartsReader {
+    private index = 0;
+
+    constructor(private readonly parts: QueryPart[]) {}
+
+    /**
+     * Reads all parts into a tree
+     * @returns The root node, or undefined when there are no parts
+     * @throws Error if the parts do not form a valid expression
+     */
+    read(): FilterNode | undefined {
+        if (!this.parts.length) {
+            return undefined;
+        }
+
+        const node = this.readOr();
+
+        if (this.index < this.parts.length) {
+            throw new Error(
+                `Unexpected '${this.describe(
+                    this.parts[this.index]
+                )}' in filter`
+            );
+        }
+
+        return node;
+    }
+
+    private readOr(): FilterNode {
+        let left = this.readAnd();
+
+        while (this.parts[this.index] === "or") {
+            this.index++;
+            left = {
+                type: "logical",
+                operator: "or",
+                left,
+                right: this.readAnd(),
+            };
+        }
+
+        return left;
+    }
+
+    private readAnd(): FilterNode {
+        let left = this.readNot();
+
+        while (this.parts[this.index] === "and") {
+            this.index++;
+            left = {
+                type: "logical",
+                operator: "and",
+                left,
+                right: this.readNot(),
+            };
+        }
+
+        return left;
+    }
+
+    private readNot(): FilterNode {
+        if (this.parts[this.index] === "not") {
+            this.index++;
+
+            return { type: "not", expression: this.readNot() };
+        }
+
+        return this.readPrimary();
+    }
+
+    private readPrimary(): FilterNode {
+        const part = this.parts[this.index++];
+
+        if (part === undefined) {
+            throw new Error("Unexpected end of filter, expected a condition");
+        }
+
+        if (part === "(") {
+            const expression = this.readOr();
+
+            if (this.parts[this.index++] !== ")") {
+                throw new Error("Missing closing group");
+            }
+
+            return { type: "group", expression };
+        }
+
+        if (typeof part === "string") {
+            throw new Error(
+                `Unexpected '${part}' in filter, expected a condition`
+            );
+        }
+
+        return part;
+    }
+
+    private describe(part: QueryPart | undefined): string {
+        return typeof part === "object" ? serialize(part) : String(part);
+    }
 }
 
 /**
@@ -85,26 +655,137 @@ function formatValue(value: Value): string {
  *   .gt('createdDate', new Date('2023-01-01'))
  *   .build();
  * // Result: "(status eq 'active' or status eq 'pending') and createdDate gt 2023-01-01T00:00:00.000Z"
+ *
+ * @example
+ * // Type-safe fields and values driven by an entity interface:
+ * interface Order { id: number; customer: { name: string }; tags: string[] }
+ *
+ * new SearchBuilder<Order>()
+ *   .contains('customer/name', 'Smith') // ok
+ *   .and()
+ *   .any('tags', (tag, t) => tag.eq(t, 'rush')) // ok
+ *   .and()
+ *   .gt('id', 'x'); // compile error: 'id' is a number
  */
-export class SearchBuilder {
+export class SearchBuilder<TEntity = any> {
     /**
-     * Array of query parts that will be joined to create the final OData filter expression
+     * Conditions and structural tokens recorded by the fluent API,
+     * assembled into an expression tree by toAST()
      * @private
      */
-    private queryParts: string[] = [];
+    private queryParts: QueryPart[] = [];
+
+    /**
+     * Creates an empty SearchBuilder
+     * @param options Builder options, such as inserting 'and' between adjacent conditions
+     * @example
+     * new SearchBuilder({ implicitAnd: true }).eq('a', 1).eq('b', 2).build(); // "a eq 1 and b eq 2"
+     */
+    constructor(private readonly options: SearchBuilderOptions = {}) {}
 
     /**
-     * Adds a condition to the query parts array
-     * @param condition The condition string to add
+     * Adds a condition or structural token to the query parts array
+     * @param part The condition node or token to add
      * @returns The current SearchBuilder instance for method chaining
      * @private
      */
-    private add(condition: string) {
-        this.queryParts.push(condition);
+    private add(part: QueryPart) {
+        const last = this.queryParts[this.queryParts.length - 1];
+        const startsOperand =
+            typeof part === "object" || part === "(" || part === "not";
+        const endsOperand = typeof last === "object" || last === ")";
+
+        if (this.options.implicitAnd && startsOperand && endsOperand) {
+            this.queryParts.push("and");
+        }
+
+        this.queryParts.push(part);
 
         return this;
     }
 
+    /**
+     * Creates a SearchBuilder from an expression tree
+     * @param ast The root node of the expression tree
+     * @returns A new SearchBuilder instance that can be further chained
+     * @example
+     * const builder = SearchBuilder.fromAST({
+     *     type: "comparison",
+     *     operator: "eq",
+     *     left: { type: "property", path: "name" },
+     *     right: { type: "literal", value: "John" },
+     * });
+     *
+     * builder.and().gt('age', 18).build(); // "name eq 'John' and age gt 18"
+     */
+    static fromAST<TEntity = any>(ast: FilterNode): SearchBuilder<TEntity> {
+        return new SearchBuilder<TEntity>().add(ast);
+    }
+
+    /**
+     * Creates a SearchBuilder from a filter saved in the versioned JSON format
+     * @param json The filter document written by toJSON(), or its JSON text
+     * @returns A new SearchBuilder instance that can be further chained
+     * @throws Error with the JSON pointer of the problem if the document is invalid
+     * @example
+     * const saved = JSON.stringify(new SearchBuilder().ge('createdAt', new Date('2024-01-01')));
+     *
+     * SearchBuilder.fromJSON(saved).build(); // "createdAt ge 2024-01-01T00:00:00.000Z"
+     */
+    static fromJSON<TEntity = any>(
+        json: FilterDocument | string
+    ): SearchBuilder<TEntity> {
+        const ast = fromFilterJSON(json);
+
+        return ast
+            ? SearchBuilder.fromAST<TEntity>(ast)
+            : new SearchBuilder<TEntity>();
+    }
+
+    /**
+     * Combines builders with 'and'. Each filter is kept intact: parentheses are added
+     * where a filter's own operators would otherwise bind differently.
+     * @param builders The builders to combine; empty builders are skipped
+     * @returns A new SearchBuilder instance with the combined filter
+     * @example
+     * const userFilter = SearchParser.parse("status eq 'open' or status eq 'new'");
+     * const tenant = new SearchBuilder().eq('tenantId', 42);
+     *
+     * SearchBuilder.and(userFilter, tenant).build();
+     * // Result: "(status eq 'open' or status eq 'new') and tenantId eq 42"
+     */
+    static and<TEntity = any>(
+        ...builders: SearchBuilder<TEntity>[]
+    ): SearchBuilder<TEntity> {
+        const ast = combine("and", builders);
+
+        return ast
+            ? SearchBuilder.fromAST<TEntity>(ast)
+            : new SearchBuilder<TEntity>();
+    }
+
+    /**
+     * Combines builders with 'or'. Each filter is kept intact: parentheses are added
+     * where a filter's own operators would otherwise bind differently.
+     * @param builders The builders to combine; empty builders are skipped
+     * @returns A new SearchBuilder instance with the combined filter
+     * @example
+     * SearchBuilder.or(
+     *   new SearchBuilder().eq('owner', 'me').and().eq('draft', true),
+     *   new SearchBuilder().eq('draft', false)
+     * ).build();
+     * // Result: "owner eq 'me' and draft eq true or draft eq false"
+     */
+    static or<TEntity = any>(
+        ...builders: SearchBuilder<TEntity>[]
+    ): SearchBuilder<TEntity> {
+        const ast = combine("or", builders);
+
+        return ast
+            ? SearchBuilder.fromAST<TEntity>(ast)
+            : new SearchBuilder<TEntity>();
+    }
+
     /**
      * Creates a copy of the current SearchBuilder instance
      * @returns A new SearchBuilder instance with the same query parts
@@ -115,17 +796,69 @@ export class SearchBuilder {
      * const userQuery = baseQuery.clone().and().eq('type', 'user');
      * const adminQuery = baseQuery.clone().and().eq('type', 'admin');
      */
-    public clone(): SearchBuilder {
-        const clone = new SearchBuilder();
+    public clone(): SearchBuilder<TEntity> {
+        const clone = new SearchBuilder<TEntity>(this.options);
 
         clone.queryParts = [...this.queryParts];
 
         return clone;
     }
 
+    /**
+     * Returns the expression tree for the current query
+     * @returns The root node, or undefined when the builder is empty
+     * @throws Error if the recorded operators and groups do not form a valid expression
+     * @example
+     * const ast = new SearchBuilder()
+     *   .eq('name', 'John')
+     *   .or()
+     *   .eq('name', 'Jane')
+     *   .toAST();
+     *
+     * console.log(ast?.type); // "logical"
+     */
+    public toAST(): FilterNode | undefined {
+        const issues = this.validate();
+
+        if (issues.length) {
+            throw new Error(
+                `Invalid filter: ${issues
+                    .map(({ message }) => message)
+                    .join("; ")}`
+            );
+        }
+
+        return new PartsReader(this.queryParts).read();
+    }
+
+    /**
+     * Checks the structure of the recorded calls without building the filter
+     * @returns Every problem found, such as unbalanced groups, dangling operators,
+     * conditions without a logical operator between them or an 'in' without values;
+     * empty when the query is valid
+     * @example
+     * const issues = new SearchBuilder()
+     *   .openGroup()
+     *   .eq('status', 'x')
+     *   .eq('type', 'y')
+     *   .and()
+     *   .validate();
+     *
+     * issues.map((issue) => issue.message);
+     * // [
+     * //   "openGroup() without a matching closeGroup()",
+     * //   "Missing 'and' or 'or' between status eq 'x' and type eq 'y'",
+     * //   "Filter ends with 'and' after type eq 'y'"
+     * // ]
+     */
+    public validate(): StructureIssue[] {
+        return validateParts(this.queryParts);
+    }
+
     /**
      * Builds and returns the complete OData filter expression
      * @returns The OData filter expression as a string
+     * @throws Error if the recorded operators and groups do not form a valid expression
      * @example
      * const filter = new SearchBuilder()
      *   .eq('name', 'John')
@@ -139,7 +872,303 @@ export class SearchBuilder {
      * fetch(`https://api.example.com/users?$filter=${encodeURIComponent(filter)}`)
      */
     public build(): string {
-        return this.queryParts.join(" ");
+        const ast = this.toAST();
+
+        return ast ? serialize(ast) : "";
+    }
+
+    /**
+     * Returns a copy of the query in canonical form, so equivalent filters build the same string
+     * @returns A new SearchBuilder instance with the normalized expression tree
+     * @throws Error if the recorded operators and groups do not form a valid expression
+     * @example
+     * const a = SearchParser.parse("(status eq 'b' or status eq 'a') and not (not (age gt 18))");
+     * const b = SearchParser.parse("age gt 18 and status in ('a', 'b')");
+     *
+     * a.normalize().build() === b.normalize().build(); // true
+     */
+    public normalize(): SearchBuilder<TEntity> {
+        const ast = this.toAST();
+
+        return ast
+            ? SearchBuilder.fromAST<TEntity>(normalize(ast))
+            : new SearchBuilder<TEntity>();
+    }
+
+    /**
+     * Compares the query with another filter, condition by condition
+     * @param after The changed filter: a SearchBuilder, an expression tree or a filter string
+     * @returns The added, removed and modified conditions, with the fields they read;
+     * empty when the filters are equivalent
+     * @throws Error if the recorded operators and groups do not form a valid expression
+     * @example
+     * const saved = SearchParser.parse("status eq 'active' and price ge 10");
+     *
+     * saved.diff("price ge 20 and status eq 'active'");
+     * // [{ type: "modified", paths: ["price"], before: <price ge 10>, after: <price ge 20> }]
+     */
+    public diff(after: FilterInput): FilterChange[] {
+        return diff(this, after);
+    }
+
+    /**
+     * Returns the filter laid out over several lines, for reading long filters
+     * @param options The line width and indentation
+     * @returns The formatted filter, which parses back to the same filter
+     * @throws Error if the recorded operators and groups do not form a valid expression
+     * @example
+     * SearchParser.parse(filterFromLogs).format({ width: 60 });
+     */
+    public format(options?: FormatOptions): string {
+        return FilterFormatter.format(this, options);
+    }
+
+    /**
+     * Describes the filter in English, e.g. for filter chips
+     * @param options Display names of properties
+     * @returns The description
+     * @throws Error if the recorded operators and groups do not form a valid expression
+     * @example
+     * SearchParser.parse("status in ('active', 'pending') and tags/any(t:t eq 'important')").explain();
+     * // "status is 'active' or 'pending', and any tag equals 'important'"
+     */
+    public explain(options?: ExplainOptions): string {
+        return FilterFormatter.explain(this, options);
+    }
+
+    /**
+     * Calls the visitor's callbacks for each node of the expression tree, depth-first in source order
+     * @param visitor Callbacks by node type; returning false skips the node's children
+     * @throws Error if the recorded operators and groups do not form a valid expression
+     * @example
+     * const functions: string[] = [];
+     *
+     * SearchParser.parse("contains(name, 'a') and year(born) eq 2000").visit({
+     *     function: (node) => void functions.push(node.name),
+     * });
+     * // functions: ["contains", "year"]
+     */
+    public visit(visitor: FilterVisitor) {
+        const ast = this.toAST();
+
+        if (ast) {
+            visit(ast, visitor);
+        }
+    }
+
+    /**
+     * Returns a copy of the query with its expression tree rewritten by a transformer
+     * @param transformer Callbacks by node type, called bottom-up, returning replacement nodes
+     * @returns A new SearchBuilder instance with the rewritten expression tree
+     * @throws Error if the recorded operators and groups do not form a valid expression
+     * @example
+     * // Map public field names to internal ones
+     * const fields: Record<string, string> = { userName: "user/name" };
+     *
+     * SearchParser.parse("userName eq 'john'")
+     *     .transform({ property: (node) => property(fields[node.path] ?? node.path) })
+     *     .build(); // "user/name eq 'john'"
+     */
+    public transform(transformer: FilterTransformer): SearchBuilder<TEntity> {
+        const ast = this.toAST();
+
+        return ast
+            ? SearchBuilder.fromAST<TEntity>(transform(ast, transformer))
+            : new SearchBuilder<TEntity>();
+    }
+
+    /**
+     * Converts the query to the versioned JSON filter format, so it can be saved and restored
+     * with SearchBuilder.fromJSON() without parsing filter strings. Dates and typed literals
+     * keep their types. Also used by JSON.stringify().
+     * @returns The filter document
+     * @throws Error if the recorded operators and groups do not form a valid expression
+     * @example
+     * new SearchBuilder().eq('id', TypedLiteral.guid('01234567-89ab-cdef-0123-456789abcdef')).toJSON();
+     * // {
+     * //     version: 1,
+     * //     filter: {
+     * //         type: "comparison",
+     * //         operator: "eq",
+     * //         left: { type: "property", path: "id" },
+     * //         right: { type: "literal", kind: "guid", value: "01234567-89ab-cdef-0123-456789abcdef" },
+     * //     },
+     * // }
+     */
+    public toJSON(): FilterDocument {
+        return toFilterJSON(this.toAST());
+    }
+
+    /**
+     * Returns the names of the parameter aliases used by the query, in order of first use
+     * @returns The names, without the leading `@`
+     * @throws Error if the recorded operators and groups do not form a valid expression
+     * @example
+     * SearchParser.parse("status eq @s and (total gt @min or @s eq 'vip')").parameters(); // ["s", "min"]
+     */
+    public parameters(): string[] {
+        const names = new Set<string>();
+
+        this.visit({ parameter: (node) => void names.add(node.name) });
+
+        return [...names];
+    }
+
+    /**
+     * Returns a copy of the query with its parameter aliases replaced by values, so a filter
+     * can be built once as a template and bound for each request
+     * @param bindings The value of each parameter, by name without the leading `@`
+     * @returns A new SearchBuilder instance without parameters
+     * @throws Error if a parameter has no value, or a value is given for an unknown parameter
+     * @throws Error if the recorded operators and groups do not form a valid expression
+     * @example
+     * const template = new SearchBuilder().eq('status', param('s')).and().gt('total', param('min'));
+     *
+     * template.bind({ s: 'active', min: 100 }).build(); // "status eq 'active' and total gt 100"
+     * template.bind({ s: 'active' }); // throws: missing values for @min
+     */
+    public bind(bindings: Record<string, Value>): SearchBuilder<TEntity> {
+        assertBindings(this.parameters(), bindings);
+
+        return this.transform({
+            parameter: (node) => literal(bindings[node.name] as Value),
+        });
+    }
+
+    /**
+     * Returns the OData parameter alias options for the query's parameters. Sending the values
+     * as separate query options keeps the $filter text the same across requests, which lets the
+     * server and HTTP caches reuse it.
+     * @param bindings The value of each parameter, by name without the leading `@`
+     * @returns The query options by alias, with the values written as OData literals
+     * @throws Error if a parameter has no value, or a value is given for an unknown parameter
+     * @throws Error if the recorded operators and groups do not form a valid expression
+     * @example
+     * const filter = new SearchBuilder().eq('status', param('s'));
+     *
+     * filter.build(); // "status eq @s"
+     * filter.aliases({ s: 'active' }); // { "@s": "'active'" }
+     */
+    public aliases(bindings: Record<string, Value>): Record<string, string> {
+        const names = this.parameters();
+
+        assertBindings(names, bindings);
+
+        return Object.fromEntries(
+            names.map((name) => [
+                `@${name}`,
+                serialize(literal(bindings[name] as Value)),
+            ])
+        );
+    }
+
+    /**
+     * Negates the whole query
+     * @returns The current SearchBuilder instance for method chaining
+     * @throws Error if the recorded operators and groups do not form a valid expression
+     * @example
+     * SearchParser.parse("status eq 'open' or priority gt 2").negate().build();
+     * // Result: "not (status eq 'open' or priority gt 2)"
+     *
+     * // An empty builder matches everything, so its negation matches nothing
+     * new SearchBuilder().negate().build(); // "false"
+     */
+    public negate() {
+        const ast = this.toAST();
+
+        this.queryParts = [
+            ast ? { type: "not", expression: ast } : literal(false),
+        ];
+
+        return this;
+    }
+
+    /**
+     * Removes the conditions on a field, keeping the rest of the filter
+     * @param match A property path, matching every condition that reads it or a path beneath it,
+     * or a callback that tests each condition
+     * @returns The current SearchBuilder instance for method chaining
+     * @throws Error if the recorded operators and groups do not form a valid expression
+     * @example
+     * SearchParser.parse("tenantId eq 7 and (status eq 'open' or contains(tenantId, '1'))")
+     *   .removeWhere('tenantId')
+     *   .build();
+     * // Result: "status eq 'open'"
+     */
+    public removeWhere(match: FieldPath<TEntity> | ConditionMatcher) {
+        const test = conditionTest(match);
+
+        return this.rewrite((condition) =>
+            test(condition) ? undefined : condition
+        );
+    }
+
+    /**
+     * Replaces the conditions on a field, keeping the rest of the filter
+     * @param match A property path, matching every condition that reads it or a path beneath it,
+     * or a callback that tests each condition
+     * @param replacement The new condition, or a callback that returns it for each matching condition;
+     * returning undefined removes the condition
+     * @returns The current SearchBuilder instance for method chaining
+     * @throws Error if the recorded operators and groups do not form a valid expression
+     * @example
+     * SearchParser.parse("tenantId eq 7 and status eq 'open'")
+     *   .replaceCondition('tenantId', new SearchBuilder().eq('tenantId', 42))
+     *   .build();
+     * // Result: "tenantId eq 42 and status eq 'open'"
+     */
+    public replaceCondition(
+        match: FieldPath<TEntity> | ConditionMatcher,
+        replacement:
+            | SearchBuilder<TEntity>
+            | FilterNode
+            | ((
+                  condition: FilterNode
+              ) => SearchBuilder<TEntity> | FilterNode | undefined)
+    ) {
+        const test = conditionTest(match);
+
+        return this.rewrite((condition) => {
+            if (!test(condition)) {
+                return condition;
+            }
+
+            const result =
+                typeof replacement === "function"
+                    ? replacement(condition)
+                    : replacement;
+
+            return result instanceof SearchBuilder ? result.toAST() : result;
+        });
+    }
+
+    /**
+     * Rewrites the conditions of the query, keeping its logical structure
+     * @private
+     */
+    private rewrite(
+        rewrite: (condition: FilterNode) => FilterNode | undefined
+    ) {
+        const ast = this.toAST();
+        const result = ast && rewriteConditions(ast, rewrite);
+
+        this.queryParts = result ? [result] : [];
+
+        return this;
+    }
+
+    /**
+     * Compiles the query into a predicate that applies it to in-memory objects
+     * @param options Compile options, such as case sensitivity
+     * @returns A predicate with the same semantics as the OData filter
+     * @throws Error if the query uses a function that cannot be evaluated in memory
+     * @example
+     * const active = new SearchBuilder<User>().eq('status', 'active').toPredicate();
+     *
+     * users.filter(active);
+     */
+    public toPredicate(options?: CompileOptions): (item: TEntity) => boolean {
+        return compile(this, options);
     }
 
     /**
@@ -165,7 +1194,7 @@ export class SearchBuilder {
      *   .not()
      *   .eq('status', 'inactive')
      *   .build();
-     * // Result: "not status eq 'inactive'"
+     * // Result: "not (status eq 'inactive')"
      */
     public not() {
         return this.add("not");
@@ -218,27 +1247,66 @@ export class SearchBuilder {
     /**
      * Applies a condition to any element in a collection
      * @param field The collection field name
-     * @param options The operator and value to apply to collection elements
+     * @param predicate The operator and value to apply to collection elements,
+     * or a callback that builds the lambda body; omit it to check that the collection is not empty
+     * @param variable The range variable name, "x" by default; nested lambdas need distinct names
      * @returns The current SearchBuilder instance for method chaining
+     * @throws Error if a nested lambda reuses the range variable
      * @example
      * const query = new SearchBuilder()
      *   .any('tags', { operator: 'eq', value: 'important' })
      *   .build();
-     * // Result: "(tags/any(x:(x eq 'important')))"
+     * // Result: "tags/any(x:x eq 'important')"
      *
      * @example
-     * // Find products where any category contains 'electronics'
+     * // Compound conditions on sub-properties with a custom range variable
      * const query = new SearchBuilder()
-     *   .any('categories', { operator: 'contains', value: 'electronics' })
+     *   .any('orders', (order, o) =>
+     *     order.gt(`${o}/total`, 100).and().eq(`${o}/status`, 'paid'), 'o')
      *   .build();
+     * // Result: "orders/any(o:o/total gt 100 and o/status eq 'paid')"
+     *
+     * @example
+     * // Nested lambdas
+     * const query = new SearchBuilder()
+     *   .any('orders', (order, o) =>
+     *     order.all(`${o}/items`, (item, i) => item.gt(`${i}/qty`, 0), 'i'), 'o')
+     *   .build();
+     * // Result: "orders/any(o:o/items/all(i:i/qty gt 0))"
      */
-    public any(field: string, options: AnyOptions) {
-        return this.add(SearchBuilder.any(field, options));
+    public any<P extends CollectionFieldPath<TEntity>, V extends string = "x">(
+        field: P,
+        predicate?: AnyOptions | LambdaPredicate<LambdaScope<TEntity, P, V>, V>,
+        variable: V = "x" as V
+    ) {
+        return this.add(lambda("any", field, predicate, variable));
+    }
+
+    /**
+     * Applies a condition to all elements in a collection
+     * @param field The collection field name
+     * @param predicate The operator and value to apply to collection elements,
+     * or a callback that builds the lambda body
+     * @param variable The range variable name, "x" by default; nested lambdas need distinct names
+     * @returns The current SearchBuilder instance for method chaining
+     * @throws Error if the body is empty or a nested lambda reuses the range variable
+     * @example
+     * const query = new SearchBuilder()
+     *   .all('scores', (score, s) => score.ge(s, 50).and().le(s, 100), 's')
+     *   .build();
+     * // Result: "scores/all(s:s ge 50 and s le 100)"
+     */
+    public all<P extends CollectionFieldPath<TEntity>, V extends string = "x">(
+        field: P,
+        predicate: AnyOptions | LambdaPredicate<LambdaScope<TEntity, P, V>, V>,
+        variable: V = "x" as V
+    ) {
+        return this.add(lambda("all", field, predicate, variable));
     }
 
     /**
      * Adds an equality condition to the query
-     * @param field The field name
+     * @param field The field name or expression
      * @param value The value to compare against
      * @returns The current SearchBuilder instance for method chaining
      * @example
@@ -247,13 +1315,16 @@ export class SearchBuilder {
      *   .build();
      * // Result: "name eq 'John'"
      */
-    public eq(field: string, value: Value) {
-        return this.add(SearchBuilder.eq(field, value));
+    public eq<P extends FieldPath<TEntity>>(
+        field: P | FilterNode,
+        value: FieldValue<TEntity, P> | FilterNode
+    ) {
+        return this.add(comparison("eq", field, value));
     }
 
     /**
      * Adds a not-equal condition to the query
-     * @param field The field name
+     * @param field The field name or expression
      * @param value The value to compare against
      * @returns The current SearchBuilder instance for method chaining
      * @example
@@ -262,13 +1333,16 @@ export class SearchBuilder {
      *   .build();
      * // Result: "status ne 'inactive'"
      */
-    public ne(field: string, value: Value) {
-        return this.add(SearchBuilder.ne(field, value));
+    public ne<P extends FieldPath<TEntity>>(
+        field: P | FilterNode,
+        value: FieldValue<TEntity, P> | FilterNode
+    ) {
+        return this.add(comparison("ne", field, value));
     }
 
     /**
      * Adds a greater-than condition to the query
-     * @param field The field name
+     * @param field The field name or expression
      * @param value The value to compare against
      * @returns The current SearchBuilder instance for method chaining
      * @example
@@ -283,13 +1357,16 @@ export class SearchBuilder {
      *   .gt('createdDate', new Date('2023-01-01'))
      *   .build();
      */
-    public gt(field: string, value: Value) {
-        return this.add(SearchBuilder.gt(field, value));
+    public gt<P extends FieldPath<TEntity>>(
+        field: P | FilterNode,
+        value: FieldValue<TEntity, P> | FilterNode
+    ) {
+        return this.add(comparison("gt", field, value));
     }
 
     /**
      * Adds a less-than condition to the query
-     * @param field The field name
+     * @param field The field name or expression
      * @param value The value to compare against
      * @returns The current SearchBuilder instance for method chaining
      * @example
@@ -298,13 +1375,16 @@ export class SearchBuilder {
      *   .build();
      * // Result: "price lt 100"
      */
-    public lt(field: string, value: Value) {
-        return this.add(SearchBuilder.lt(field, value));
+    public lt<P extends FieldPath<TEntity>>(
+        field: P | FilterNode,
+        value: FieldValue<TEntity, P> | FilterNode
+    ) {
+        return this.add(comparison("lt", field, value));
     }
 
     /**
      * Adds a greater-than-or-equal condition to the query
-     * @param field The field name
+     * @param field The field name or expression
      * @param value The value to compare against
      * @returns The current SearchBuilder instance for method chaining
      * @example
@@ -313,13 +1393,16 @@ export class SearchBuilder {
      *   .build();
      * // Result: "rating ge 4"
      */
-    public ge(field: string, value: Value) {
-        return this.add(SearchBuilder.ge(field, value));
+    public ge<P extends FieldPath<TEntity>>(
+        field: P | FilterNode,
+        value: FieldValue<TEntity, P> | FilterNode
+    ) {
+        return this.add(comparison("ge", field, value));
     }
 
     /**
      * Adds a less-than-or-equal condition to the query
-     * @param field The field name
+     * @param field The field name or expression
      * @param value The value to compare against
      * @returns The current SearchBuilder instance for method chaining
      * @example
@@ -328,13 +1411,16 @@ export class SearchBuilder {
      *   .build();
      * // Result: "price le 50"
      */
-    public le(field: string, value: Value) {
-        return this.add(SearchBuilder.le(field, value));
+    public le<P extends FieldPath<TEntity>>(
+        field: P | FilterNode,
+        value: FieldValue<TEntity, P> | FilterNode
+    ) {
+        return this.add(comparison("le", field, value));
     }
 
     /**
      * Adds an 'in' condition to check if a field value is in a set of values
-     * @param field The field name
+     * @param field The field name or expression
      * @param values Array of values to check against
      * @returns The current SearchBuilder instance for method chaining
      * @example
@@ -349,13 +1435,16 @@ export class SearchBuilder {
      *   .in('id', [1, 2, 3])
      *   .build();
      */
-    public in(field: string, values: Value[]) {
-        return this.add(SearchBuilder.in(field, values));
+    public in<P extends FieldPath<TEntity>>(
+        field: P | FilterNode,
+        values: (FieldValue<TEntity, P> | FilterNode)[]
+    ) {
+        return this.add(membership(field, values));
     }
 
     /**
      * Adds a 'contains' condition to check if a string field contains a substring
-     * @param field The field name
+     * @param field The field name or expression
      * @param value The substring to check for
      * @returns The current SearchBuilder instance for method chaining
      * @example
@@ -364,13 +1453,16 @@ export class SearchBuilder {
      *   .build();
      * // Result: "contains(description, 'important')"
      */
-    public contains(field: string, value: Value) {
-        return this.add(SearchBuilder.contains(field, value));
+    public contains(
+        field: StringFieldPath<TEntity> | FilterNode,
+        value: ValueOperand
+    ) {
+        return this.add(FilterFunctions.contains(field, value));
     }
 
     /**
      * Adds a 'startswith' condition to check if a string field starts with a substring
-     * @param field The field name
+     * @param field The field name or expression
      * @param value The substring to check for
      * @returns The current SearchBuilder instance for method chaining
      * @example
@@ -379,13 +1471,16 @@ export class SearchBuilder {
      *   .build();
      * // Result: "startswith(name, 'J')"
      */
-    public startswith(field: string, value: Value) {
-        return this.add(SearchBuilder.startswith(field, value));
+    public startswith(
+        field: StringFieldPath<TEntity> | FilterNode,
+        value: ValueOperand
+    ) {
+        return this.add(FilterFunctions.startswith(field, value));
     }
 
     /**
      * Adds an 'endswith' condition to check if a string field ends with a substring
-     * @param field The field name
+     * @param field The field name or expression
      * @param value The substring to check for
      * @returns The current SearchBuilder instance for method chaining
      * @example
@@ -394,8 +1489,82 @@ export class SearchBuilder {
      *   .build();
      * // Result: "endswith(email, 'example.com')"
      */
-    public endswith(field: string, value: Value) {
-        return this.add(SearchBuilder.endswith(field, value));
+    public endswith(
+        field: StringFieldPath<TEntity> | FilterNode,
+        value: ValueOperand
+    ) {
+        return this.add(FilterFunctions.endswith(field, value));
+    }
+
+    /**
+     * Adds a 'matchesPattern' condition to check if a string field matches a regular expression
+     * @param field The field name or expression
+     * @param pattern The ECMAScript regular expression
+     * @returns The current SearchBuilder instance for method chaining
+     * @example
+     * const query = new SearchBuilder()
+     *   .matchesPattern('code', '^A[0-9]+$')
+     *   .build();
+     * // Result: "matchesPattern(code, '^A[0-9]+$')"
+     */
+    public matchesPattern(
+        field: StringFieldPath<TEntity> | FilterNode,
+        pattern: ValueOperand
+    ) {
+        return this.add(FilterFunctions.matchesPattern(field, pattern));
+    }
+
+    /**
+     * Adds a 'hassubset' condition to check if a collection contains all the values, in any order
+     * @param field The collection field name or expression
+     * @param values The values that must all be present
+     * @returns The current SearchBuilder instance for method chaining
+     * @example
+     * const query = new SearchBuilder()
+     *   .hassubset('tags', ['sale', 'new'])
+     *   .build();
+     * // Result: 'hassubset(tags, ["sale","new"])'
+     */
+    public hassubset<P extends CollectionFieldPath<TEntity>>(
+        field: P | FilterNode,
+        values: CollectionElement<TEntity, P>[]
+    ) {
+        return this.add(FilterFunctions.hassubset(field, values as Value[]));
+    }
+
+    /**
+     * Adds a 'hassubsequence' condition to check if a collection contains the values in the same order
+     * @param field The collection field name or expression
+     * @param values The values that must appear in order
+     * @returns The current SearchBuilder instance for method chaining
+     * @example
+     * const query = new SearchBuilder()
+     *   .hassubsequence('steps', [1, 3])
+     *   .build();
+     * // Result: "hassubsequence(steps, [1,3])"
+     */
+    public hassubsequence<P extends CollectionFieldPath<TEntity>>(
+        field: P | FilterNode,
+        values: CollectionElement<TEntity, P>[]
+    ) {
+        return this.add(
+            FilterFunctions.hassubsequence(field, values as Value[])
+        );
+    }
+
+    /**
+     * Adds an 'isof' condition to check if a field is of a given type
+     * @param field The field name or expression
+     * @param type The qualified type name
+     * @returns The current SearchBuilder instance for method chaining
+     * @example
+     * const query = new SearchBuilder()
+     *   .isof('shipTo', 'Model.Address')
+     *   .build();
+     * // Result: "isof(shipTo, Model.Address)"
+     */
+    public isof(field: FieldPath<TEntity> | FilterNode, type: string) {
+        return this.add(FilterFunctions.isof(field, type));
     }
 
     // These methods return the condition string without adding it to query parts
@@ -403,105 +1572,122 @@ export class SearchBuilder {
     /**
      * Creates an 'any' condition string for a collection
      * @param field The collection field name
-     * @param options The operator and value to apply to collection elements
+     * @param predicate The operator and value to apply to collection elements,
+     * or a callback that builds the lambda body
+     * @param variable The range variable name, "x" by default
      * @returns The condition string
      * @example
      * const condition = SearchBuilder.any('tags', { operator: 'eq', value: 'important' });
-     * console.log(condition); // "(tags/any(x:(x eq 'important')))"
+     * console.log(condition); // "tags/any(x:x eq 'important')"
      */
-    static any(field: string, options: AnyOptions) {
-        const fn = SearchBuilder[
-            options.operator as keyof typeof SearchBuilder
-        ] as any;
-
-        if (!fn) {
-            throw new Error("Invalid operator");
-        }
+    static any(
+        field: string,
+        predicate?: AnyOptions | LambdaPredicate,
+        variable = "x"
+    ) {
+        return serialize(lambda("any", field, predicate, variable));
+    }
 
-        return `(${field}/any(x:(${fn("x", options.value)}))`;
+    /**
+     * Creates an 'all' condition string for a collection
+     * @param field The collection field name
+     * @param predicate The operator and value to apply to collection elements,
+     * or a callback that builds the lambda body
+     * @param variable The range variable name, "x" by default
+     * @returns The condition string
+     * @example
+     * const condition = SearchBuilder.all('scores', { operator: 'ge', value: 50 });
+     * console.log(condition); // "scores/all(x:x ge 50)"
+     */
+    static all(
+        field: string,
+        predicate: AnyOptions | LambdaPredicate,
+        variable = "x"
+    ) {
+        return serialize(lambda("all", field, predicate, variable));
     }
 
     /**
      * Creates an equality condition string
-     * @param field The field name
+     * @param field The field name or expression
      * @param value The value to compare against
      * @returns The condition string
      * @example
      * const condition = SearchBuilder.eq('name', 'John');
      * console.log(condition); // "name eq 'John'"
      */
-    static eq(field: string, value: Value) {
-        return `${field} eq ${formatValue(value)}`;
+    static eq(field: FieldOperand, value: ValueOperand) {
+        return serialize(comparison("eq", field, value));
     }
 
     /**
      * Creates a not-equal condition string
-     * @param field The field name
+     * @param field The field name or expression
      * @param value The value to compare against
      * @returns The condition string
      * @example
      * const condition = SearchBuilder.ne('status', 'inactive');
      * console.log(condition); // "status ne 'inactive'"
      */
-    static ne(field: string, value: Value) {
-        return `${field} ne ${formatValue(value)}`;
+    static ne(field: FieldOperand, value: ValueOperand) {
+        return serialize(comparison("ne", field, value));
     }
 
     /**
      * Creates a greater-than condition string
-     * @param field The field name
+     * @param field The field name or expression
      * @param value The value to compare against
      * @returns The condition string
      * @example
      * const condition = SearchBuilder.gt('age', 18);
      * console.log(condition); // "age gt 18"
      */
-    static gt(field: string, value: Value) {
-        return `${field} gt ${formatValue(value)}`;
+    static gt(field: FieldOperand, value: ValueOperand) {
+        return serialize(comparison("gt", field, value));
     }
 
     /**
      * Creates a less-than condition string
-     * @param field The field name
+     * @param field The field name or expression
      * @param value The value to compare against
      * @returns The condition string
      * @example
      * const condition = SearchBuilder.lt('price', 100);
      * console.log(condition); // "price lt 100"
      */
-    static lt(field: string, value: Value) {
-        return `${field} lt ${formatValue(value)}`;
+    static lt(field: FieldOperand, value: ValueOperand) {
+        return serialize(comparison("lt", field, value));
     }
 
     /**
      * Creates a greater-than-or-equal condition string
-     * @param field The field name
+     * @param field The field name or expression
      * @param value The value to compare against
      * @returns The condition string
      * @example
      * const condition = SearchBuilder.ge('rating', 4);
      * console.log(condition); // "rating ge 4"
      */
-    static ge(field: string, value: Value) {
-        return `${field} ge ${formatValue(value)}`;
+    static ge(field: FieldOperand, value: ValueOperand) {
+        return serialize(comparison("ge", field, value));
     }
 
     /**
      * Creates a less-than-or-equal condition string
-     * @param field The field name
+     * @param field The field name or expression
      * @param value The value to compare against
      * @returns The condition string
      * @example
      * const condition = SearchBuilder.le('price', 50);
      * console.log(condition); // "price le 50"
      */
-    static le(field: string, value: Value) {
-        return `${field} le ${formatValue(value)}`;
+    static le(field: FieldOperand, value: ValueOperand) {
+        return serialize(comparison("le", field, value));
     }
 
     /**
      * Creates an 'in' condition string to check if a field value is in a set of values
-     * @param field The field name
+     * @param field The field name or expression
      * @param values Array of values to check against
      * @returns The condition string
      * @throws Error if values is not an array
@@ -509,50 +1695,97 @@ export class SearchBuilder {
      * const condition = SearchBuilder.in('status', ['active', 'pending']);
      * console.log(condition); // "status in ('active', 'pending')"
      */
-    static in(field: string, values: Value[]) {
-        if (!Array.isArray(values)) {
-            throw new Error(`'in' requires array`);
-        }
-
-        return `${field} in (${values.map(formatValue).join(", ")})`;
+    static in(field: FieldOperand, values: ValueOperand[]) {
+        return serialize(membership(field, values));
     }
 
     /**
      * Creates a 'contains' condition string to check if a string field contains a substring
-     * @param field The field name
+     * @param field The field name or expression
      * @param value The substring to check for
      * @returns The condition string
      * @example
      * const condition = SearchBuilder.contains('description', 'important');
      * console.log(condition); // "contains(description, 'important')"
      */
-    static contains(field: string, value: Value) {
-        return `contains(${field}, ${formatValue(value)})`;
+    static contains(field: FieldOperand, value: ValueOperand) {
+        return serialize(FilterFunctions.contains(field, value));
     }
 
     /**
      * Creates a 'startswith' condition string to check if a string field starts with a substring
-     * @param field The field name
+     * @param field The field name or expression
      * @param value The substring to check for
      * @returns The condition string
      * @example
      * const condition = SearchBuilder.startswith('name', 'J');
      * console.log(condition); // "startswith(name, 'J')"
      */
-    static startswith(field: string, value: Value) {
-        return `startswith(${field}, ${formatValue(value)})`;
+    static startswith(field: FieldOperand, value: ValueOperand) {
+        return serialize(FilterFunctions.startswith(field, value));
     }
 
     /**
      * Creates an 'endswith' condition string to check if a string field ends with a substring
-     * @param field The field name
+     * @param field The field name or expression
      * @param value The substring to check for
      * @returns The condition string
      * @example
      * const condition = SearchBuilder.endswith('email', 'example.com');
      * console.log(condition); // "endswith(email, 'example.com')"
      */
-    static endswith(field: string, value: Value) {
-        return `endswith(${field}, ${formatValue(value)})`;
+    static endswith(field: FieldOperand, value: ValueOperand) {
+        return serialize(FilterFunctions.endswith(field, value));
+    }
+    /**
+     * Creates a 'matchesPattern' condition string to check if a string field matches a regular expression
+     * @param field The field name or expression
+     * @param pattern The ECMAScript regular expression
+     * @returns The condition string
+     * @example
+     * const condition = SearchBuilder.matchesPattern('code', '^A[0-9]+$');
+     * console.log(condition); // "matchesPattern(code, '^A[0-9]+$')"
+     */
+    static matchesPattern(field: FieldOperand, pattern: ValueOperand) {
+        return serialize(FilterFunctions.matchesPattern(field, pattern));
+    }
+
+    /**
+     * Creates a 'hassubset' condition string to check if a collection contains all the values
+     * @param field The collection field name or expression
+     * @param values The values that must all be present
+     * @returns The condition string
+     * @example
+     * const condition = SearchBuilder.hassubset('tags', ['sale', 'new']);
+     * console.log(condition); // 'hassubset(tags, ["sale","new"])'
+     */
+    static hassubset(field: FieldOperand, values: Value[]) {
+        return serialize(FilterFunctions.hassubset(field, values));
+    }
+
+    /**
+     * Creates a 'hassubsequence' condition string to check if a collection contains the values in order
+     * @param field The collection field name or expression
+     * @param values The values that must appear in order
+     * @returns The condition string
+     * @example
+     * const condition = SearchBuilder.hassubsequence('steps', [1, 3]);
+     * console.log(condition); // "hassubsequence(steps, [1,3])"
+     */
+    static hassubsequence(field: FieldOperand, values: Value[]) {
+        return serialize(FilterFunctions.hassubsequence(field, values));
+    }
+
+    /**
+     * Creates an 'isof' condition string to check if a field is of a given type
+     * @param field The field name or expression
+     * @param type The qualified type name
+     * @returns The condition string
+     * @example
+     * const condition = SearchBuilder.isof('shipTo', 'Model.Address');
+     * console.log(condition); // "isof(shipTo, Model.Address)"
+     */
+    static isof(field: FieldOperand, type: string) {
+        return serialize(FilterFunctions.isof(field, type));
     }
 }
@@ -1,7 +1,651 @@
-import { SearchBuilder } from "./SearchBuilder";
+import type {
+    ArithmeticOperator,
+    ComparisonOperator,
+    FilterNode,
+    LambdaOperator,
+} from "./FilterAST";
+import { FilterLexer, type Token, type TokenKind } from "./FilterLexer";
+import { FilterSyntaxError, type FilterDiagnostic } from "./FilterSyntaxError";
+import { BUILT_IN_FUNCTIONS, isFilterNode } from "./FilterFunctions";
+import { assertDepth, enforcePolicy, type FilterPolicy } from "./FilterPolicy";
+import { SearchBuilder, type Value } from "./SearchBuilder";
+import { TypedLiteral } from "./TypedLiteral";
+
+const COMPARISON_OPERATORS: ComparisonOperator[] = [
+    "eq",
+    "ne",
+    "gt",
+    "ge",
+    "lt",
+    "le",
+];
+
+const ADDITIVE_OPERATORS: ArithmeticOperator[] = ["add", "sub"];
+
+const MULTIPLICATIVE_OPERATORS: ArithmeticOperator[] = [
+    "mul",
+    "div",
+    "divby",
+    "mod",
+];
+
+const LAMBDA_OPERATORS = new Set(["any", "all"]);
+
+/**
+ * Literal values written as keywords
+ */
+const KEYWORD_LITERALS = new Map<string, Value>([
+    ["true", true],
+    ["false", false],
+    ["null", null],
+    ["INF", Infinity],
+    ["NaN", NaN],
+]);
+
+/**
+ * Checks whether a number literal survives conversion to a JavaScript number
+ * without losing digits; longer literals are kept as decimals
+ * @param text The number literal
+ * @returns True if the literal has at most 15 significant digits, or is written
+ * exactly as the JavaScript number it converts to, such as 0.30000000000000004
+ */
+function isExactNumber(text: string): boolean {
+    const digits = (text.split(/[eE]/)[0] as string)
+        .replace(/[-.]/g, "")
+        .replace(/^0+/, "");
+
+    return (
+        digits.replace(/0+$/, "").length <= 15 || String(Number(text)) === text
+    );
+}
+
+/**
+ * Describes a token kind for error messages
+ */
+function describeKind(kind: TokenKind): string {
+    switch (kind) {
+        case "eof":
+            return "end of filter";
+        case "dateTime":
+            return "date-time";
+        case "timeOfDay":
+            return "time of day";
+        case "guid":
+            return "GUID";
+        case "typed":
+            return "typed literal";
+        case "collection":
+        case "date":
+        case "decimal":
+            return kind;
+        case "identifier":
+        case "number":
+        case "string":
+            return kind;
+        default:
+            return `'${kind}'`;
+    }
+}
+
+/**
+ * Describes a concrete token for error messages
+ */
+function describeToken(token: Token): string {
+    switch (token.kind) {
+        case "eof":
+            return "end of filter";
+        case "string":
+            return `'${token.value.replace(/'/g, "''")}'`;
+        case "typed":
+            return `${token.prefix}'${token.value.replace(/'/g, "''")}'`;
+        default:
+            return `'${token.value}'`;
+    }
+}
+
+/**
+ * Recursive-descent parser over the tokens of a single filter expression
+ *
+ * Grammar:
+ * ```
+ * expression     = or
+ * or             = and *( "or" and )
+ * and            = comparison *( "and" comparison )
+ * comparison     = additive [ compareOp additive / "in" list ]
+ * additive       = multiplicative *( ( "add" / "sub" ) multiplicative )
+ * multiplicative = unary *( ( "mul" / "div" / "divby" / "mod" ) unary )
+ * unary          = "not" unary / primary
+ * primary        = "(" expression ")" / literal / collection / call / path [ "/" lambda ]
+ * call           = identifier "(" [ expression *( "," expression ) ] ")"
+ * lambda         = ( "any" / "all" ) "(" [ identifier ":" expression ] ")"
+ * list           = "(" primary *( "," primary ) ")"
+ * ```
+ */
+class TokenReader {
+    private index = 0;
+
+    /**
+     * Descriptions of the tokens that would have been accepted at the furthest position reached
+     */
+    private expected = new Set<string>();
+
+    private expectedAt = 0;
+
+    /**
+     * Range variables of the lambdas enclosing the current position
+     */
+    private variables: string[] = [];
+
+    /**
+     * Nesting of parentheses, `not`, function calls and lambdas at the current position
+     */
+    private depth = 0;
+
+    constructor(
+        private readonly source: string,
+        private readonly tokens: Token[],
+        private readonly policy: FilterPolicy = {}
+    ) {}
+
+    peek(): Token {
+        return (this.tokens[this.index] ??
+            this.tokens[this.tokens.length - 1]) as Token;
+    }
+
+    next(): Token {
+        const token = this.peek();
+
+        if (token.kind !== "eof") {
+            this.index++;
+        }
+
+        return token;
+    }
+
+    expect(kind: TokenKind): Token {
+        if (!this.check(kind)) {
+            throw this.error(
+                `Expected ${describeKind(kind)} but found ${describeToken(
+                    this.peek()
+                )}`
+            );
+        }
+
+        return this.next();
+    }
+
+    parseExpression(): FilterNode {
+        return this.parseOr();
+    }
+
+    /**
+     * Checks the kind of the current token, remembering it as an accepted alternative
+     */
+    private check(kind: TokenKind) {
+        this.expecting(describeKind(kind));
+
+        return this.peek().kind === kind;
+    }
+
+    /**
+     * Checks whether the current token is the given keyword, remembering it as an accepted alternative
+     */
+    private isKeyword(keyword: string) {
+        const token = this.peek();
+
+        this.expecting(`'${keyword}'`);
+
+        return token.kind === "identifier" && token.value === keyword;
+    }
+
+    private expecting(description: string) {
+        if (this.index > this.expectedAt) {
+            this.expected.clear();
+            this.expectedAt = this.index;
+        }
+
+        if (this.index === this.expectedAt) {
+            this.expected.add(description);
+        }
+    }
+
+    /**
+     * Parses a nested part of the expression, stopping as soon as the policy's maximum depth
+     * is exceeded rather than after the whole filter has been read
+     * @throws FilterPolicyError if the maximum depth is exceeded
+     */
+    private nested<T>(parse: () => T): T {
+        assertDepth(++this.depth, this.policy);
+
+        const node = parse();
+
+        this.depth--;
+
+        return node;
+    }
+
+    private error(reason: string): FilterSyntaxError {
+        const token = this.peek();
+
+        return new FilterSyntaxError(
+            reason,
+            this.source,
+            token.start,
+            describeToken(token),
+            this.index === this.expectedAt ? [...this.expected] : []
+        );
+    }
+
+    private parseOr(): FilterNode {
+        let left = this.parseAnd();
+
+        while (this.isKeyword("or")) {
+            this.next();
+            left = {
+                type: "logical",
+                operator: "or",
+                left,
+                right: this.parseAnd(),
+            };
+        }
+
+        return left;
+    }
+
+    private parseAnd(): FilterNode {
+        let left = this.parseComparison();
+
+        while (this.isKeyword("and")) {
+            this.next();
+            left = {
+                type: "logical",
+                operator: "and",
+                left,
+                right: this.parseComparison(),
+            };
+        }
+
+        return left;
+    }
+
+    private parseComparison(): FilterNode {
+        const left = this.parseAdditive();
+        const operator = COMPARISON_OPERATORS.find((keyword) =>
+            this.isKeyword(keyword)
+        );
+
+        if (operator) {
+            this.next();
+
+            return {
+                type: "comparison",
+                operator,
+                left,
+                right: this.parseAdditive(),
+            };
+        }
+
+        if (this.isKeyword("in")) {
+            this.next();
+
+            return { type: "in", left, values: this.parseList() };
+        }
+
+        return left;
+    }
+
+    private parseAdditive(): FilterNode {
+        let left = this.parseMultiplicative();
+        let operator: ArithmeticOperator | undefined;
+
+        while (
+            (operator = ADDITIVE_OPERATORS.find((keyword) =>
+                this.isKeyword(keyword)
+            ))
+        ) {
+            this.next();
+            left = {
+                type: "arithmetic",
+                operator,
+                left,
+                right: this.parseMultiplicative(),
+            };
+        }
+
+        return left;
+    }
+
+    private parseMultiplicative(): FilterNode {
+        let left = this.parseUnary();
+        let operator: ArithmeticOperator | undefined;
+
+        while (
+            (operator = MULTIPLICATIVE_OPERATORS.find((keyword) =>
+                this.isKeyword(keyword)
+            ))
+        ) {
+            this.next();
+            left = {
+                type: "arithmetic",
+                operator,
+                left,
+                right: this.parseUnary(),
+            };
+        }
+
+        return left;
+    }
+
+    private parseUnary(): FilterNode {
+        if (this.isKeyword("not")) {
+            this.next();
+
+            return {
+                type: "not",
+                expression: this.nested(() => this.parseUnary()),
+            };
+        }
+
+        return this.parsePrimary();
+    }
+
+    private parsePrimary(): FilterNode {
+        this.expecting("'('");
+        this.expecting("literal");
+        this.expecting("identifier");
+
+        const token = this.peek();
+
+        switch (token.kind) {
+            case "(": {
+                this.next();
+
+                const expression = this.nested(() => this.parseExpression());
+
+                this.expect(")");
+
+                return { type: "group", expression };
+            }
+
+            case "string":
+                this.next();
+
+                return { type: "literal", value: token.value };
+
+            case "number":
+            case "decimal":
+            case "dateTime":
+            case "date":
+            case "timeOfDay":
+            case "guid":
+            case "typed":
+                this.next();
+
+                return { type: "literal", value: this.parseLiteral(token) };
+
+            case "collection":
+                return this.parseCollection(token);
+
+            case "identifier":
+                this.next();
+
+                return this.parseIdentifier(token);
+
+            default:
+                throw this.error(
+                    `Expected an expression but found ${describeToken(token)}`
+                );
+        }
+    }
+
+    private parseIdentifier(token: Token): FilterNode {
+        if (KEYWORD_LITERALS.has(token.value)) {
+            return {
+                type: "literal",
+                value: KEYWORD_LITERALS.get(token.value) as Value,
+            };
+        }
+
+        if (token.value.startsWith("@")) {
+            if (!/^@[A-Za-z_]\w*$/.test(token.value)) {
+                throw new FilterSyntaxError(
+                    `Invalid parameter alias '${token.value}'`,
+                    this.source,
+                    token.start,
+                    describeToken(token)
+                );
+            }
+
+            return { type: "parameter", name: token.value.slice(1) };
+        }
+
+        if (this.check("(")) {
+            return this.parseFunction(token);
+        }
+
+        let path = token.value;
+
+        while (this.check("/")) {
+            this.next();
+
+            const segment = this.expect("identifier");
+
+            if (LAMBDA_OPERATORS.has(segment.value) && this.check("(")) {
+                return this.parseLambda(path, segment.value as LambdaOperator);
+            }
+
+            path += `/${segment.value}`;
+        }
+
+        return { type: "property", path };
+    }
+
+    /**
+     * Converts an unquoted or type-prefixed literal token into its value
+     */
+    private parseLiteral(token: Token): Value {
+        try {
+            switch (token.kind) {
+                case "number":
+                    return token.value === "-INF"
+                        ? -Infinity
+                        : isExactNumber(token.value)
+                        ? Number(token.value)
+                        : TypedLiteral.decimal(token.value);
+                case "decimal":
+                    return TypedLiteral.decimal(token.value);
+                case "dateTime":
+                    return new Date(token.value);
+                case "date":
+                    return TypedLiteral.date(token.value);
+                case "timeOfDay":
+                    return TypedLiteral.timeOfDay(token.value);
+                case "guid":
+                    return TypedLiteral.guid(token.value);
+            }
+
+            switch (token.prefix) {
+                case "duration":
+                    return TypedLiteral.duration(token.value);
+                case "binary":
+                    return TypedLiteral.binary(token.value);
+                default:
+                    return TypedLiteral.enum(
+                        token.prefix as string,
+                        token.value
+                    );
+            }
+        } catch (error) {
+            throw new FilterSyntaxError(
+                (error as Error).message,
+                this.source,
+                token.start,
+                describeToken(token)
+            );
+        }
+    }
+
+    private parseFunction(token: Token): FilterNode {
+        const arity = BUILT_IN_FUNCTIONS[token.value];
+
+        if (!arity && !token.value.includes(".")) {
+            throw new FilterSyntaxError(
+                `Unknown function '${token.value}'`,
+                this.source,
+                token.start,
+                describeToken(token)
+            );
+        }
+
+        const args = this.nested(() => this.parseArguments());
+
+        if (arity && (args.length < arity[0] || args.length > arity[1])) {
+            const [min, max] = arity;
+
+            throw new FilterSyntaxError(
+                `Function '${token.value}' expects ${
+                    min === max ? min : `${min} to ${max}`
+                } argument${max === 1 ? "" : "s"} but got ${args.length}`,
+                this.source,
+                token.start,
+                describeToken(token)
+            );
+        }
+
+        return { type: "function", name: token.value, args };
+    }
+
+    private parseCollection(token: Token): FilterNode {
+        let items: unknown;
+
+        try {
+            items = JSON.parse(token.value);
+        } catch {
+            items = undefined;
+        }
+
+        if (
+            !Array.isArray(items) ||
+            items.some(
+                (item) =>
+                    item !== null &&
+                    !["boolean", "number", "string"].includes(typeof item)
+            )
+        ) {
+            throw this.error("Invalid collection literal");
+        }
+
+        this.next();
+
+        return {
+            type: "collection",
+            items: items.map((value: Value) => ({ type: "literal", value })),
+        };
+    }
+
+    private parseLambda(
+        collection: string,
+        operator: LambdaOperator
+    ): FilterNode {
+        this.expect("(");
+
+        if (this.check(")")) {
+            this.next();
+
+            return { type: "lambda", operator, collection, variable: "" };
+        }
+
+        const token = this.expect("identifier");
+        const variable = token.value;
+
+        if (this.variables.includes(variable)) {
+            throw new FilterSyntaxError(
+                `Lambda variable '${variable}' is already used by an enclosing lambda`,
+                this.source,
+                token.start,
+                describeToken(token)
+            );
+        }
+
+        this.expect(":");
+        this.variables.push(variable);
+
+        const expression = this.nested(() => this.parseExpression());
+
+        this.variables.pop();
+        this.expect(")");
+
+        return { type: "lambda", operator, collection, variable, expression };
+    }
+
+    private parseArguments(): FilterNode[] {
+        this.expect("(");
+
+        const args: FilterNode[] = [];
+
+        if (this.check(")")) {
+            this.next();
+
+            return args;
+        }
+
+        args.push(this.parseExpression());
+
+        while (this.check(",")) {
+            this.next();
+            args.push(this.parseExpression());
+        }
+
+        this.expect(")");
+
+        return args;
+    }
+
+    private parseList(): FilterNode[] {
+        this.expect("(");
+
+        const values: FilterNode[] = [this.parsePrimary()];
+
+        while (this.check(",")) {
+            this.next();
+            values.push(this.parsePrimary());
+        }
+
+        this.expect(")");
+
+        return values;
+    }
+}
+
+/**
+ * A filter in any of the forms accepted by the converters: a builder, an expression tree or a filter string
+ */
+export type FilterInput = SearchBuilder<any> | FilterNode | string;
+
+/**
+ * Options for parsing filters
+ */
+export type ParseOptions = {
+    /**
+     * Limits to enforce on filters from untrusted clients; violations throw a FilterPolicyError
+     */
+    policy?: FilterPolicy;
+};
+
+/**
+ * Result of SearchParser.tryParse
+ */
+export type ParseResult = {
+    /**
+     * The parsed filter, present only when there are no diagnostics
+     */
+    builder?: SearchBuilder;
+    diagnostics: FilterDiagnostic[];
+};
 
 /**
  * SearchParser class provides functionality to parse OData filter expressions into SearchBuilder instances.
+ * Filters are tokenized by the FilterLexer and parsed into an expression tree with a recursive-descent parser.
  * This allows converting existing OData filter strings into SearchBuilder objects for manipulation.
  *
  * @example
@@ -25,14 +669,21 @@ export class SearchParser {
      *
      * Supports parsing of:
      * - Comparison operators (eq, ne, gt, ge, lt, le)
-     * - Logical operators (and, or, not)
-     * - Grouping with parentheses
-     * - String functions (contains, startswith, endswith)
+     * - Logical operators (and, or, not) with OData precedence
+     * - Grouping with arbitrarily nested parentheses
+     * - OData v4 built-in functions, including nested calls (e.g. contains(tolower(name), 'john'))
+     * - Functions on either side of a comparison (e.g. year(created) ge 2024)
+     * - Arithmetic operators (add, sub, mul, div, divby, mod)
      * - The 'in' operator
+     * - Lambda operators (e.g. tags/any(t:t eq 'important'))
+     * - Typed literals: null, GUIDs, dates, times of day, durations, decimals, enums and binary
      *
      * @param filter - The OData filter expression to parse (e.g., "name eq 'John' and age gt 18")
-     * @returns A SearchBuilder instance representing the parsed filter
-     * @throws Error if the filter syntax is invalid or contains unsupported operations
+     * @param options - Parsing options, such as a policy for filters from untrusted clients
+     * @returns A SearchBuilder instance representing the parsed filter; pass an entity type
+     * to get a typed builder for further chaining (the parsed fields themselves are not checked)
+     * @throws FilterSyntaxError if the filter syntax is invalid, with the position of the problem
+     * @throws FilterPolicyError if the filter breaks the policy
      *
      * @example
      * // Parse a simple filter
@@ -54,125 +705,106 @@ export class SearchParser {
      * // Parse a filter with the 'in' operator
      * const builder = SearchParser.parse("status in ('active', 'pending', 'review')");
      * console.log(builder.build()); // "status in ('active', 'pending', 'review')"
+     *
+     * @example
+     * // Parse a filter from a client, limiting what it may do
+     * const builder = SearchParser.parse(request.query.$filter, {
+     *     policy: { fields: { name: ["eq", "contains"], age: true }, maxConditions: 10 },
+     * });
      */
-    static parse(filter: string): SearchBuilder {
-        const searchBuilder = new SearchBuilder();
-        const tokens = this.tokenize(filter);
-
-        for (let i = 0; i < tokens.length; i++) {
-            const token = tokens[i] as string;
-
-            if (token === "and" || token === "or") {
-                searchBuilder[token]();
-
-                continue;
-            }
-
-            if (token === "(") {
-                searchBuilder.openGroup();
-
-                continue;
-            }
-
-            if (token === ")") {
-                searchBuilder.closeGroup();
-
-                continue;
-            }
-
-            // Function calls like contains(field, "value")
-            const funcMatch = token.match(/^(\w+)\(([^,]+),\s*(.+)\)$/);
-
-            if (funcMatch) {
-                const [, fn, field, rawVal] = funcMatch;
-                const value = this.parseValue(rawVal as string);
-                (searchBuilder as any)[fn as any](field, value);
-
-                continue;
-            }
-
-            const field = token;
-            const operator = tokens[++i];
-
-            if (!operator) {
-                throw new Error(
-                    `Expected operator after field '${field}', but got nothing`
-                );
-            }
-
-            if (operator === "in") {
-                const openParen = tokens[++i];
-                if (openParen !== "(") {
-                    throw new Error(
-                        `Expected '(' after 'in' for field '${field}'`
-                    );
-                }
-
-                const values: any[] = [];
-
-                while (tokens[++i] !== ")") {
-                    if (tokens[i] === ",") continue;
-
-                    values.push(this.parseValue(tokens[i] as string));
-                }
-
-                searchBuilder.in(field, values);
-
-                continue;
-            }
-
-            const rawValue = tokens[++i];
-
-            if (!rawValue) {
-                throw new Error(
-                    `Expected value after operator '${operator}' for field '${field}'`
-                );
-            }
+    static parse<TEntity = any>(
+        filter: string,
+        options: ParseOptions = {}
+    ): SearchBuilder<TEntity> {
+        const ast = this.parseAST(filter, options);
+
+        return ast
+            ? SearchBuilder.fromAST<TEntity>(ast)
+            : new SearchBuilder<TEntity>();
+    }
 
-            const value = this.parseValue(rawValue);
+    /**
+     * Parses an OData filter expression into an expression tree.
+     *
+     * Operator precedence follows the OData specification, from tightest to loosest:
+     * `not`, multiplicative (`mul`, `div`, `divby`, `mod`), additive (`add`, `sub`),
+     * comparison (`eq`, `ne`, `gt`, `ge`, `lt`, `le`, `in`), `and`, `or`.
+     *
+     * @param filter - The OData filter expression to parse
+     * @param options - Parsing options, such as a policy for filters from untrusted clients
+     * @returns The root node of the expression tree, or undefined for an empty filter
+     * @throws FilterSyntaxError if the filter syntax is invalid, with the position of the problem
+     * @throws FilterPolicyError if the filter breaks the policy
+     *
+     * @example
+     * const ast = SearchParser.parseAST("not contains(name, 'test') and age gt 18");
+     * console.log(ast?.type); // "logical"
+     */
+    static parseAST(
+        filter: string,
+        options: ParseOptions = {}
+    ): FilterNode | undefined {
+        const reader = new TokenReader(
+            filter,
+            FilterLexer.tokenize(filter),
+            options.policy
+        );
+
+        if (reader.peek().kind === "eof") {
+            return undefined;
+        }
 
-            if (["eq", "ne", "gt", "lt", "ge", "le"].includes(operator)) {
-                searchBuilder[operator as keyof typeof searchBuilder](
-                    field,
-                    value
-                );
-                continue;
-            }
+        const ast = reader.parseExpression();
 
-            throw new Error(
-                `Unsupported operator: ${operator} at token ${JSON.stringify(
-                    tokens[i]
-                )}`
-            );
-        }
+        reader.expect("eof");
 
-        return searchBuilder;
+        return options.policy ? enforcePolicy(ast, options.policy) : ast;
     }
 
-    private static parseValue(token: string): any {
-        if (/^['"]/.test(token)) {
-            return token.slice(1, -1);
-        }
-
-        if (!isNaN(+token)) {
-            return +token;
+    /**
+     * Returns the expression tree of a filter given as a builder, a tree or a string
+     * @param filter - The filter to convert
+     * @returns The root node of the expression tree, or undefined for an empty filter
+     * @throws FilterSyntaxError if a filter string is invalid
+     *
+     * @example
+     * SearchParser.toAST(new SearchBuilder().eq('a', 1)); // same as SearchParser.toAST("a eq 1")
+     */
+    static toAST(filter: FilterInput): FilterNode | undefined {
+        if (typeof filter === "string") {
+            return this.parseAST(filter);
         }
 
-        return token;
+        return isFilterNode(filter) ? filter : filter.toAST();
     }
 
-    private static tokenize(input: string): string[] {
-        const tokens: string[] = [];
-
-        const regex =
-            /\b(?:contains|startswith|endswith)\s*\(([^)]+)\)|\b(?:and|or|in|eq|ne|gt|ge|lt|le)\b|\(|\)|'[^']*'|[^\s()]+/g;
-
-        let match: RegExpExecArray | null;
+    /**
+     * Parses an OData filter expression without throwing on syntax errors.
+     * Useful for validating user-entered filters, e.g. to highlight the problem in an input field.
+     *
+     * @param filter - The OData filter expression to parse
+     * @param options - Parsing options; policy violations are thrown, not reported as diagnostics
+     * @returns The parsed builder when the filter is valid, and the list of problems found
+     * @throws FilterPolicyError if the filter breaks the policy
+     *
+     * @example
+     * const { builder, diagnostics } = SearchParser.tryParse("(status eq 'x'");
+     *
+     * console.log(builder); // undefined
+     * console.log(diagnostics[0]?.expected); // ["'and'", "'or'", "')'"]
+     * console.log(diagnostics[0]?.snippet);
+     * // (status eq 'x'
+     * //               ^
+     */
+    static tryParse(filter: string, options: ParseOptions = {}): ParseResult {
+        try {
+            return { builder: this.parse(filter, options), diagnostics: [] };
+        } catch (error) {
+            if (error instanceof FilterSyntaxError) {
+                return { diagnostics: [error.toDiagnostic()] };
+            }
 
-        while ((match = regex.exec(input)) !== null) {
-            tokens.push(match[0]);
+            throw error;
         }
-
-        return tokens;
     }
 }
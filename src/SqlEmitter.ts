@@ -0,0 +1,641 @@
+import type {
+    ArithmeticOperator,
+    ComparisonOperator,
+    FilterNode,
+    FunctionCallNode,
+    LambdaNode,
+} from "./FilterAST";
+import { SearchParser, type FilterInput } from "./SearchParser";
+import { TypedLiteral } from "./TypedLiteral";
+
+/**
+ * SQL dialects supported by the emitter; they differ in placeholders and a few functions
+ */
+export type SqlDialect = "postgres" | "sqlite";
+
+/**
+ * Maps filter property paths to SQL column expressions.
+ * A record lists the allowed paths; a function returns undefined for paths that are not allowed.
+ * The returned SQL is trusted and inserted as is.
+ * @example
+ * const columns: SqlColumns = { name: "u.full_name", "address/city": "a.city" };
+ */
+export type SqlColumns =
+    | Record<string, string>
+    | ((path: string) => string | undefined);
+
+/**
+ * Describes how a collection property is stored, so lambdas can become EXISTS subqueries
+ * @example
+ * // orders/any(o:o/total gt 100)
+ * // EXISTS (SELECT 1 FROM orders AS o WHERE o.customer_id = c.id AND o.total > $1)
+ * const orders: SqlCollection = {
+ *     table: "orders",
+ *     alias: "o",
+ *     join: "o.customer_id = c.id",
+ *     columns: { total: "o.total" },
+ * };
+ */
+export type SqlCollection = {
+    /**
+     * The table holding the collection elements
+     */
+    table: string;
+    /**
+     * Optional table alias used in the subquery
+     */
+    alias?: string;
+    /**
+     * The condition that correlates element rows with the outer row
+     */
+    join: string;
+    /**
+     * Columns of the element properties, by path relative to the element.
+     * By default simple property names become quoted columns of the table.
+     */
+    columns?: SqlColumns;
+    /**
+     * The column holding the element itself, for collections of primitive values
+     */
+    value?: string;
+    /**
+     * Nested collections of the element, by path relative to the element
+     */
+    collections?: Record<string, SqlCollection>;
+};
+
+/**
+ * Options for SQL generation
+ */
+export type SqlOptions = {
+    /**
+     * The target dialect
+     * @default "postgres"
+     */
+    dialect?: SqlDialect;
+    /**
+     * Columns of the filtered entity. By default simple property names become quoted
+     * identifiers and every other path is rejected.
+     */
+    columns?: SqlColumns;
+    /**
+     * Collection properties that may be used with any() and all()
+     */
+    collections?: Record<string, SqlCollection>;
+};
+
+/**
+ * A parameterized SQL condition
+ */
+export type SqlWhere = {
+    /**
+     * The condition, with placeholders for every literal
+     */
+    sql: string;
+    /**
+     * The values bound to the placeholders, in order
+     */
+    params: unknown[];
+};
+
+/**
+ * A lambda range variable and the collection it ranges over
+ */
+type SqlScope = { variable: string; collection: SqlCollection };
+
+const SIMPLE_IDENTIFIER = /^[A-Za-z_]\w*$/;
+
+const COMPARISON_OPERATORS: Record<ComparisonOperator, string> = {
+    eq: "=",
+    ne: "<>",
+    gt: ">",
+    ge: ">=",
+    lt: "<",
+    le: "<=",
+};
+
+const ARITHMETIC_OPERATORS: Record<ArithmeticOperator, string> = {
+    add: "+",
+    sub: "-",
+    mul: "*",
+    div: "/",
+    divby: "/",
+    mod: "%",
+};
+
+/**
+ * Patterns for the string matching functions, where `%s` is the escaped search text
+ */
+const LIKE_PATTERNS: Record<string, string> = {
+    contains: "%%s%",
+    startswith: "%s%",
+    endswith: "%%s",
+};
+
+/**
+ * Functions that map to a SQL function with the same arguments
+ */
+const SQL_FUNCTIONS: Record<string, string> = {
+    ceiling: "CEIL",
+    floor: "FLOOR",
+    length: "LENGTH",
+    round: "ROUND",
+    tolower: "LOWER",
+    toupper: "UPPER",
+    trim: "TRIM",
+};
+
+/**
+ * Date and time parts, as PostgreSQL EXTRACT fields and SQLite strftime formats
+ */
+const DATE_PARTS: Record<string, [string, string]> = {
+    year: ["YEAR", "%Y"],
+    month: ["MONTH", "%m"],
+    day: ["DAY", "%d"],
+    hour: ["HOUR", "%H"],
+    minute: ["MINUTE", "%M"],
+    second: ["SECOND", "%S"],
+};
+
+/**
+ * Quotes an identifier for SQL
+ * @param name The identifier
+ * @returns The quoted identifier
+ * @example
+ * quoteIdentifier("name") // "\"name\""
+ */
+function quoteIdentifier(name: string): string {
+    return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Escapes the LIKE wildcards in a search text, using backslash as the escape character
+ * @param text The text to search for
+ * @returns The escaped text
+ * @example
+ * escapeLike("100%_off") // "100\\%\\_off"
+ */
+function escapeLike(text: string): string {
+    return text.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Looks up a column in a mapping
+ * @param columns The mapping, or undefined for the default quoting of simple names
+ * @param path The property path
+ * @param qualifier Optional table name or alias that qualifies default columns
+ * @returns The column SQL, or undefined if the path is not allowed
+ */
+function lookupColumn(
+    columns: SqlColumns | undefined,
+    path: string,
+    qualifier?: string
+): string | undefined {
+    if (typeof columns === "function") {
+        return columns(path);
+    }
+
+    if (columns) {
+        return Object.prototype.hasOwnProperty.call(columns, path)
+            ? columns[path]
+            : undefined;
+    }
+
+    if (SIMPLE_IDENTIFIER.test(path)) {
+        return qualifier
+            ? `${qualifier}.${quoteIdentifier(path)}`
+            : quoteIdentifier(path);
+    }
+
+    return undefined;
+}
+
+/**
+ * Walks an expression tree and writes SQL, collecting literal values as parameters
+ */
+class SqlWriter {
+    readonly params: unknown[] = [];
+    private scopes: SqlScope[] = [];
+    /**
+     * The number of enclosing 'not' operators and comparisons of conditions, within the current
+     * subquery; there, conditions must be false rather than unknown for null columns, as in OData
+     */
+    private twoValued = 0;
+
+    constructor(
+        private readonly options: SqlOptions & { dialect: SqlDialect }
+    ) {}
+
+    write(node: FilterNode): string {
+        switch (node.type) {
+            case "property":
+                return this.column(node.path);
+
+            case "literal":
+                return this.param(node.value);
+
+            case "group":
+                return `(${this.write(node.expression)})`;
+
+            case "not": {
+                const sql = this.strictly(() => this.write(node.expression));
+
+                return node.expression.type === "group"
+                    ? `NOT ${sql}`
+                    : `NOT (${sql})`;
+            }
+
+            case "logical":
+                return `${this.operand(
+                    node.left,
+                    node.operator
+                )} ${node.operator.toUpperCase()} ${this.operand(
+                    node.right,
+                    node.operator
+                )}`;
+
+            case "comparison":
+                return this.comparison(node.operator, node.left, node.right);
+
+            case "arithmetic":
+                return this.arithmetic(node.operator, node.left, node.right);
+
+            case "in": {
+                const values = node.values.filter(
+                    (value) => value.type !== "literal" || value.value !== null
+                );
+                const left = this.write(node.left);
+                const membership = values.length
+                    ? `${left} IN (${values
+                          .map((value) => this.write(value))
+                          .join(", ")})`
+                    : "FALSE";
+
+                // The left operand is written again so positional parameters stay in order
+                if (values.length < node.values.length) {
+                    return `(${membership} OR ${this.write(
+                        node.left
+                    )} IS NULL)`;
+                }
+
+                return this.twoValued && values.length
+                    ? `COALESCE(${membership}, FALSE)`
+                    : membership;
+            }
+
+            case "function":
+                return this.call(node);
+
+            case "lambda":
+                return this.lambda(node);
+
+            case "collection":
+                throw new Error("Collection literals have no SQL translation");
+
+            case "parameter":
+                throw new Error(
+                    `Parameter @${node.name} has no value; bind it with SearchBuilder.bind() first`
+                );
+        }
+    }
+
+    /**
+     * Writes an operand of a logical operator, parenthesizing `or` inside `and`
+     */
+    private operand(node: FilterNode, operator: "and" | "or"): string {
+        const sql = this.write(node);
+
+        return node.type === "logical" && node.operator !== operator
+            ? `(${sql})`
+            : sql;
+    }
+
+    /**
+     * Adds a parameter and returns its placeholder
+     */
+    private param(value: unknown): string {
+        if (value instanceof TypedLiteral) {
+            value = value.value;
+        } else if (this.options.dialect === "sqlite") {
+            if (value instanceof Date) {
+                value = value.toISOString();
+            } else if (typeof value === "boolean") {
+                value = value ? 1 : 0;
+            }
+        }
+
+        this.params.push(value);
+
+        return this.options.dialect === "postgres"
+            ? `$${this.params.length}`
+            : "?";
+    }
+
+    /**
+     * Resolves a property path to its column, through the lambda scopes and the column mapping
+     * @throws Error if the path is not mapped
+     */
+    private column(path: string): string {
+        const [first, ...rest] = path.split("/");
+        const scope = this.scopes.find(({ variable }) => variable === first);
+        let column: string | undefined;
+
+        if (scope) {
+            const { collection } = scope;
+
+            column = rest.length
+                ? lookupColumn(
+                      collection.columns,
+                      rest.join("/"),
+                      collection.alias ?? collection.table
+                  )
+                : collection.value;
+        } else {
+            column = lookupColumn(this.options.columns, path);
+        }
+
+        if (column === undefined) {
+            throw new Error(`Unknown field '${path}'`);
+        }
+
+        return column;
+    }
+
+    /**
+     * Finds the storage of a collection path, through the lambda scopes
+     * @throws Error if the collection is not configured
+     */
+    private collection(path: string): SqlCollection {
+        const [first, ...rest] = path.split("/");
+        const scope = this.scopes.find(({ variable }) => variable === first);
+        const collections = scope
+            ? scope.collection.collections
+            : this.options.collections;
+        const key = scope ? rest.join("/") : path;
+        const collection =
+            collections &&
+            Object.prototype.hasOwnProperty.call(collections, key)
+                ? collections[key]
+                : undefined;
+
+        if (!collection) {
+            throw new Error(`Unknown collection '${path}'`);
+        }
+
+        return collection;
+    }
+
+    private comparison(
+        operator: ComparisonOperator,
+        left: FilterNode,
+        right: FilterNode
+    ): string {
+        const isNull = (node: FilterNode) =>
+            node.type === "literal" && node.value === null;
+
+        if (isNull(left) || isNull(right)) {
+            const other = isNull(left) ? right : left;
+
+            if (operator !== "eq" && operator !== "ne") {
+                return "FALSE";
+            }
+
+            return `${this.write(other)} IS ${
+                operator === "eq" ? "NULL" : "NOT NULL"
+            }`;
+        }
+
+        const a = this.comparand(left);
+        const b = this.comparand(right);
+        const postgres = this.options.dialect === "postgres";
+
+        // OData 'ne' is true when the property is null, SQL '<>' is not
+        if (operator === "ne") {
+            return `${a} ${postgres ? "IS DISTINCT FROM" : "IS NOT"} ${b}`;
+        }
+
+        if (this.twoValued) {
+            return operator === "eq"
+                ? `${a} ${postgres ? "IS NOT DISTINCT FROM" : "IS"} ${b}`
+                : `COALESCE(${a} ${COMPARISON_OPERATORS[operator]} ${b}, FALSE)`;
+        }
+
+        return `${a} ${COMPARISON_OPERATORS[operator]} ${b}`;
+    }
+
+    /**
+     * Writes an operand of a comparison. Conditions are parenthesized, as they bind more loosely
+     * than comparisons in SQL.
+     */
+    private comparand(node: FilterNode): string {
+        let inner = node;
+
+        while (inner.type === "group") {
+            inner = inner.expression;
+        }
+
+        if (!["comparison", "in", "logical", "not"].includes(inner.type)) {
+            return this.write(node);
+        }
+
+        const sql = this.strictly(() => this.write(node));
+
+        return node.type === "group" ? sql : `(${sql})`;
+    }
+
+    /**
+     * Writes conditions so they are false rather than unknown when a column is null
+     */
+    private strictly(write: () => string): string {
+        this.twoValued++;
+
+        try {
+            return write();
+        } finally {
+            this.twoValued--;
+        }
+    }
+
+    private arithmetic(
+        operator: ArithmeticOperator,
+        left: FilterNode,
+        right: FilterNode
+    ): string {
+        const wrap = (node: FilterNode) => {
+            const sql = this.write(node);
+
+            return node.type === "arithmetic" ? `(${sql})` : sql;
+        };
+        const a = wrap(left);
+        const b = wrap(right);
+
+        if (operator === "divby") {
+            return `CAST(${a} AS ${
+                this.options.dialect === "postgres"
+                    ? "DOUBLE PRECISION"
+                    : "REAL"
+            }) / ${b}`;
+        }
+
+        return `${a} ${ARITHMETIC_OPERATORS[operator]} ${b}`;
+    }
+
+    /**
+     * Writes a function call
+     * @throws Error if the function has no SQL translation
+     */
+    private call({ name, args }: FunctionCallNode): string {
+        const postgres = this.options.dialect === "postgres";
+        const pattern = LIKE_PATTERNS[name];
+
+        if (pattern) {
+            const [field, search] = args as [FilterNode, FilterNode];
+
+            if (search.type !== "literal" || typeof search.value !== "string") {
+                throw new Error(
+                    `${name}() requires a string literal as its second argument in SQL`
+                );
+            }
+
+            const text = escapeLike(search.value);
+
+            return `${this.write(field)} LIKE ${this.param(
+                // A function, so `$&` and the like in the text are not replacement patterns
+                pattern.replace("%s", () => text)
+            )} ESCAPE '\\'`;
+        }
+
+        const sqlFunction = SQL_FUNCTIONS[name];
+
+        if (sqlFunction) {
+            return `${sqlFunction}(${args
+                .map((arg) => this.write(arg))
+                .join(", ")})`;
+        }
+
+        const datePart = DATE_PARTS[name];
+
+        if (datePart) {
+            const value = this.write(args[0] as FilterNode);
+
+            return postgres
+                ? `EXTRACT(${datePart[0]} FROM ${value})`
+                : `CAST(strftime('${datePart[1]}', ${value}) AS INTEGER)`;
+        }
+
+        // Arguments are written on demand, in order, so the parameters line up
+        const arg = (index: number) => this.write(args[index] as FilterNode);
+
+        switch (name) {
+            case "concat":
+                return `(${arg(0)} || ${arg(1)})`;
+
+            case "indexof":
+                return postgres
+                    ? `(STRPOS(${arg(0)}, ${arg(1)}) - 1)`
+                    : `(INSTR(${arg(0)}, ${arg(1)}) - 1)`;
+
+            case "substring":
+                return `SUBSTR(${arg(0)}, ${arg(1)} + 1${
+                    args[2] ? `, ${arg(2)}` : ""
+                })`;
+
+            case "matchesPattern":
+                return postgres
+                    ? `${arg(0)} ~ ${arg(1)}`
+                    : `${arg(0)} REGEXP ${arg(1)}`;
+
+            case "now":
+                return "CURRENT_TIMESTAMP";
+
+            case "date":
+                return postgres ? `CAST(${arg(0)} AS DATE)` : `date(${arg(0)})`;
+
+            case "time":
+                return postgres ? `CAST(${arg(0)} AS TIME)` : `time(${arg(0)})`;
+        }
+
+        throw new Error(`Function '${name}' has no SQL translation`);
+    }
+
+    /**
+     * Writes any() as EXISTS and all() as NOT EXISTS over the elements that fail the condition
+     */
+    private lambda(node: LambdaNode): string {
+        const collection = this.collection(node.collection);
+        const from = collection.alias
+            ? `${collection.table} AS ${collection.alias}`
+            : collection.table;
+
+        if (!node.expression) {
+            return `EXISTS (SELECT 1 FROM ${from} WHERE ${collection.join})`;
+        }
+
+        const twoValued = this.twoValued;
+
+        // EXISTS is never unknown, whatever its condition is
+        this.twoValued = 0;
+        this.scopes.unshift({ variable: node.variable, collection });
+
+        try {
+            const condition = this.write(node.expression);
+
+            return node.operator === "any"
+                ? `EXISTS (SELECT 1 FROM ${from} WHERE ${collection.join} AND (${condition}))`
+                : `NOT EXISTS (SELECT 1 FROM ${from} WHERE ${collection.join} AND (${condition}) IS NOT TRUE)`;
+        } finally {
+            this.scopes.shift();
+            this.twoValued = twoValued;
+        }
+    }
+}
+
+/**
+ * SqlEmitter translates filters into parameterized SQL conditions for PostgreSQL or SQLite.
+ *
+ * Every literal becomes a bound parameter and every property must resolve through the column
+ * mapping, so text from the filter never reaches the SQL itself.
+ *
+ * - `contains`, `startswith` and `endswith` become `LIKE` with escaped wildcards
+ * - `in` becomes `IN (...)`, and `eq null`/`ne null` become `IS NULL`/`IS NOT NULL`
+ * - Nulls follow OData semantics, as in FilterEvaluator: `ne` matches null columns, and
+ *   comparisons inside `not` are false rather than unknown for them
+ * - `any` and `all` become `EXISTS` subqueries over the configured collection tables
+ *
+ * Note that `LIKE` is case-insensitive for ASCII text in SQLite.
+ *
+ * @author Keven Leone
+ * @example
+ * const { sql, params } = SqlEmitter.emit("contains(name, '50%') and status in ('active', 'new')", {
+ *     columns: { name: "u.name", status: "u.status" },
+ * });
+ *
+ * // sql: "u.name LIKE $1 ESCAPE '\' AND u.status IN ($2, $3)"
+ * // params: ["%50\\%%", "active", "new"]
+ * db.query(`SELECT * FROM users AS u WHERE ${sql}`, params);
+ */
+export class SqlEmitter {
+    /**
+     * Translates a filter into a SQL condition
+     * @param filter - A SearchBuilder, an expression tree or a filter string
+     * @param options - The dialect and the mappings of properties and collections
+     * @returns The condition and its parameters; an empty filter gives `TRUE`
+     * @throws FilterSyntaxError if a filter string is invalid
+     * @throws Error if the filter uses an unmapped field or collection, a function without SQL translation or an unbound parameter
+     *
+     * @example
+     * SqlEmitter.emit("tags/any(t:t eq 'vip')", {
+     *     dialect: "sqlite",
+     *     collections: {
+     *         tags: { table: "user_tags", join: "user_tags.user_id = users.id", value: "user_tags.tag" },
+     *     },
+     * });
+     * // { sql: "EXISTS (SELECT 1 FROM user_tags WHERE user_tags.user_id = users.id AND (user_tags.tag = ?))", params: ["vip"] }
+     */
+    static emit(filter: FilterInput, options: SqlOptions = {}): SqlWhere {
+        const ast = SearchParser.toAST(filter);
+        const writer = new SqlWriter({ dialect: "postgres", ...options });
+
+        return { sql: ast ? writer.write(ast) : "TRUE", params: writer.params };
+    }
+}
@@ -0,0 +1,256 @@
+/**
+ * Kinds of OData literals that need explicit typing, because they cannot be
+ * told apart from plain strings or numbers in JavaScript
+ */
+export type TypedLiteralKind =
+    | "binary" // Edm.Binary, e.g. binary'T0RhdGE'
+    | "date" // Edm.Date, e.g. 2024-01-01
+    | "decimal" // Edm.Decimal with exact precision, e.g. 12345678901234567890.12M
+    | "duration" // Edm.Duration, e.g. duration'P1DT2H'
+    | "enum" // Enumeration member, e.g. Namespace.Color'Red'
+    | "guid" // Edm.Guid, e.g. 01234567-89ab-cdef-0123-456789abcdef
+    | "timeOfDay"; // Edm.TimeOfDay, e.g. 13:20:00
+
+const GUID =
+    /^[0-9A-Fa-f]{8}-[0-9A-Fa-f]{4}-[0-9A-Fa-f]{4}-[0-9A-Fa-f]{4}-[0-9A-Fa-f]{12}$/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_OF_DAY = /^\d{2}:\d{2}(:\d{2}(\.\d{1,12})?)?$/;
+const DURATION =
+    /^-?P(?=\d|T\d)(\d+D)?(T(?=\d)(\d+H)?(\d+M)?(\d+(\.\d+)?S)?)?$/;
+const DECIMAL = /^-?\d+(\.\d+)?([eE][+-]?\d+)?$/;
+const QUALIFIED_NAME = /^[A-Za-z_]\w*(\.[A-Za-z_]\w*)+$/;
+const ENUM_MEMBERS = /^(\w+|-?\d+)(,(\w+|-?\d+))*$/;
+const BASE64URL = /^[A-Za-z0-9_-]*={0,2}$/;
+const BASE64URL_ALPHABET =
+    "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_";
+
+/**
+ * Pads a number with leading zeros
+ */
+function pad(value: number, length = 2): string {
+    return String(value).padStart(length, "0");
+}
+
+/**
+ * Encodes bytes as base64url, the encoding OData uses for binary literals
+ * @param bytes The bytes to encode
+ * @returns The base64url text, without padding
+ */
+function toBase64Url(bytes: Uint8Array): string {
+    let text = "";
+
+    for (let index = 0; index < bytes.length; index += 3) {
+        const chunk =
+            ((bytes[index] as number) << 16) |
+            ((bytes[index + 1] ?? 0) << 8) |
+            (bytes[index + 2] ?? 0);
+        const length = Math.min(bytes.length - index, 3) + 1;
+
+        for (let offset = 0; offset < length; offset++) {
+            text += BASE64URL_ALPHABET[(chunk >> (18 - offset * 6)) & 63];
+        }
+    }
+
+    return text;
+}
+
+/**
+ * A literal value with an explicit OData type, formatted according to that type.
+ * Create instances with the static factories; they validate their input.
+ *
+ * @author Keven Leone
+ * @example
+ * new SearchBuilder()
+ *   .eq('id', TypedLiteral.guid('01234567-89ab-cdef-0123-456789abcdef'))
+ *   .and()
+ *   .ge('birthday', TypedLiteral.date('2024-01-01'))
+ *   .and()
+ *   .le('duration', TypedLiteral.duration('PT1H'))
+ *   .and()
+ *   .eq('color', TypedLiteral.enum('Namespace.Color', 'Red'))
+ *   .build();
+ * // Result: "id eq 01234567-89ab-cdef-0123-456789abcdef and birthday ge 2024-01-01 and duration le duration'PT1H' and color eq Namespace.Color'Red'"
+ */
+export class TypedLiteral {
+    private constructor(
+        /**
+         * The OData type of the literal
+         */
+        readonly kind: TypedLiteralKind,
+        /**
+         * The literal text, without type prefix or quotes
+         */
+        readonly value: string,
+        /**
+         * The qualified enumeration type name, for enum literals
+         */
+        readonly typeName?: string
+    ) {}
+
+    /**
+     * Creates an Edm.Guid literal
+     * @param value The GUID text
+     * @returns The typed literal
+     * @throws Error if the value is not a GUID
+     * @example
+     * TypedLiteral.guid('01234567-89ab-cdef-0123-456789abcdef').toString();
+     * // "01234567-89ab-cdef-0123-456789abcdef"
+     */
+    static guid(value: string) {
+        if (!GUID.test(value)) {
+            throw new Error(`Invalid GUID '${value}'`);
+        }
+
+        return new TypedLiteral("guid", value);
+    }
+
+    /**
+     * Creates an Edm.Date literal; a Date object contributes its UTC calendar date
+     * @param value A `YYYY-MM-DD` string or a Date
+     * @returns The typed literal
+     * @throws Error if the value is not a valid date
+     * @example
+     * TypedLiteral.date(new Date('2024-01-01T15:00:00Z')).toString(); // "2024-01-01"
+     */
+    static date(value: string | Date) {
+        const text =
+            value instanceof Date
+                ? `${pad(value.getUTCFullYear(), 4)}-${pad(
+                      value.getUTCMonth() + 1
+                  )}-${pad(value.getUTCDate())}`
+                : value;
+
+        if (!DATE.test(text) || isNaN(Date.parse(text))) {
+            throw new Error(`Invalid date '${text}'`);
+        }
+
+        return new TypedLiteral("date", text);
+    }
+
+    /**
+     * Creates an Edm.TimeOfDay literal; a Date object contributes its UTC time
+     * @param value A `hh:mm[:ss[.fff]]` string or a Date
+     * @returns The typed literal
+     * @throws Error if the value is not a valid time of day
+     * @example
+     * TypedLiteral.timeOfDay('13:20').toString(); // "13:20"
+     */
+    static timeOfDay(value: string | Date) {
+        const text =
+            value instanceof Date
+                ? `${pad(value.getUTCHours())}:${pad(
+                      value.getUTCMinutes()
+                  )}:${pad(value.getUTCSeconds())}${
+                      value.getUTCMilliseconds()
+                          ? `.${pad(value.getUTCMilliseconds(), 3)}`
+                          : ""
+                  }`
+                : value;
+        const [hours = 0, minutes = 0, seconds = 0] = text
+            .split(":")
+            .map(Number);
+
+        if (
+            !TIME_OF_DAY.test(text) ||
+            hours > 23 ||
+            minutes > 59 ||
+            seconds >= 60
+        ) {
+            throw new Error(`Invalid time of day '${text}'`);
+        }
+
+        return new TypedLiteral("timeOfDay", text);
+    }
+
+    /**
+     * Creates an Edm.Duration literal
+     * @param value An ISO 8601 day-time duration, e.g. `P1DT2H30M`
+     * @returns The typed literal
+     * @throws Error if the value is not a valid duration
+     * @example
+     * TypedLiteral.duration('PT1H').toString(); // "duration'PT1H'"
+     */
+    static duration(value: string) {
+        if (!DURATION.test(value)) {
+            throw new Error(`Invalid duration '${value}'`);
+        }
+
+        return new TypedLiteral("duration", value);
+    }
+
+    /**
+     * Creates an Edm.Decimal literal that keeps its exact digits. It is written with the 'M'
+     * suffix, so parsing it gives back a decimal rather than a number.
+     * @param value The decimal number as text, or a number
+     * @returns The typed literal
+     * @throws Error if the value is not a valid decimal
+     * @example
+     * TypedLiteral.decimal('1.50').toString(); // "1.50M"
+     */
+    static decimal(value: string | number) {
+        const text = String(value);
+
+        if (!DECIMAL.test(text)) {
+            throw new Error(`Invalid decimal '${text}'`);
+        }
+
+        return new TypedLiteral("decimal", text);
+    }
+
+    /**
+     * Creates an enumeration member literal
+     * @param typeName The qualified enumeration type name
+     * @param member The member name or value; flags are comma-separated
+     * @returns The typed literal
+     * @throws Error if the type name is not qualified or the member is invalid
+     * @example
+     * TypedLiteral.enum('Namespace.Color', 'Red').toString(); // "Namespace.Color'Red'"
+     */
+    static enum(typeName: string, member: string) {
+        if (!QUALIFIED_NAME.test(typeName)) {
+            throw new Error(`Invalid enumeration type name '${typeName}'`);
+        }
+
+        if (!ENUM_MEMBERS.test(member)) {
+            throw new Error(`Invalid enumeration member '${member}'`);
+        }
+
+        return new TypedLiteral("enum", member, typeName);
+    }
+
+    /**
+     * Creates an Edm.Binary literal
+     * @param value The bytes, or their base64url encoding
+     * @returns The typed literal
+     * @throws Error if a string value is not base64url-encoded
+     * @example
+     * TypedLiteral.binary(new Uint8Array([79, 68, 97, 116, 97])).toString(); // "binary'T0RhdGE'"
+     */
+    static binary(value: Uint8Array | string) {
+        const text = typeof value === "string" ? value : toBase64Url(value);
+
+        if (!BASE64URL.test(text)) {
+            throw new Error(`Invalid base64url value '${text}'`);
+        }
+
+        return new TypedLiteral("binary", text);
+    }
+
+    /**
+     * Formats the literal according to OData syntax rules
+     * @returns The literal text ready for an OData query
+     */
+    toString(): string {
+        switch (this.kind) {
+            case "binary":
+            case "duration":
+                return `${this.kind}'${this.value}'`;
+            case "decimal":
+                return `${this.value}M`;
+            case "enum":
+                return `${this.typeName}'${this.value}'`;
+            default:
+                return this.value;
+        }
+    }
+}
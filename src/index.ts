@@ -1,2 +1,25 @@
+export * from "./EdmModel";
+export * from "./FacetMapper";
+export * from "./FieldPath";
+export * from "./FilterArithmetic";
+export * from "./FilterAST";
+export * from "./FilterDiff";
+export * from "./FilterEvaluator";
+export * from "./FilterFormatter";
+export * from "./FilterFunctions";
+export * from "./FilterJSON";
+export * from "./FilterLexer";
+export * from "./FilterNormalizer";
+export * from "./FilterPolicy";
+export * from "./FilterSyntaxError";
+export * from "./FilterVisitor";
+export * from "./MongoEmitter";
+export * from "./ODataClient";
+export * from "./ODataError";
+export * from "./QueryBuilder";
+export * from "./QueryParser";
+export * from "./SchemaValidator";
 export * from "./SearchBuilder";
 export * from "./SearchParser";
+export * from "./SqlEmitter";
+export * from "./TypedLiteral";
@@ -0,0 +1,162 @@
+import { describe, expect, test } from "bun:test";
+import { EdmModel } from "../src";
+
+const METADATA = new URL("./fixtures/metadata.xml", import.meta.url).pathname;
+
+/**
+ * The JSON form of the schema in fixtures/metadata.xml, with annotations and a function import
+ */
+const JSON_METADATA = {
+    $Version: "4.01",
+    $EntityContainer: "Sales.Container",
+    Sales: {
+        $Alias: "self",
+        Party: {
+            $Kind: "EntityType",
+            $Abstract: true,
+            $Key: ["Id"],
+            Id: { $Type: "Edm.Int32" },
+            Name: { $Nullable: true },
+        },
+        Customer: {
+            $Kind: "EntityType",
+            $BaseType: "self.Party",
+            Age: { $Type: "Edm.Int32", $Nullable: true },
+            "Age@Core.Description": "Age in years",
+            Tags: { $Collection: true },
+            Orders: {
+                $Kind: "NavigationProperty",
+                $Type: "self.Order",
+                $Collection: true,
+            },
+        },
+        Order: {
+            $Kind: "EntityType",
+            $OpenType: true,
+            Total: { $Type: "Edm.Decimal" },
+        },
+        Level: {
+            $Kind: "EnumType",
+            Bronze: 0,
+            Gold: 5,
+            "Gold@Core.Description": "The best",
+        },
+        Code: { $Kind: "TypeDefinition", $UnderlyingType: "Edm.String" },
+        TopCustomers: [
+            {
+                $Kind: "Function",
+                $ReturnType: { $Type: "self.Customer", $Collection: true },
+            },
+        ],
+        Container: {
+            $Kind: "EntityContainer",
+            Customers: { $Collection: true, $Type: "self.Customer" },
+            Me: { $Type: "self.Customer" },
+            Top: { $Function: "self.TopCustomers", $EntitySet: "Customers" },
+            Reset: { $Action: "self.Reset" },
+        },
+    },
+};
+
+describe("EdmModel", () => {
+    test("reads CSDL XML from a file", async () => {
+        const model = await EdmModel.fromFile(METADATA);
+
+        expect(model.entitySets).toEqual({
+            Customers: "Sales.Customer",
+            Me: "Sales.Customer",
+        });
+        expect(model.getEntityType("Customers")?.name).toBe("Sales.Customer");
+        expect(model.getProperty("Sales.Customer", "Orders")).toEqual({
+            name: "Orders",
+            navigation: true,
+            type: "Sales.Order",
+            collection: true,
+            nullable: true,
+        });
+        expect(model.getType("Sales.Level")).toEqual({
+            kind: "EnumType",
+            name: "Sales.Level",
+            flags: false,
+            members: { Bronze: 0, Gold: 5, Platinum: 6 },
+        });
+        expect(model.getType("Sales.Code")).toEqual({
+            kind: "TypeDefinition",
+            name: "Sales.Code",
+            underlyingType: "Edm.String",
+        });
+    });
+
+    test("reads CSDL JSON with function and action imports", () => {
+        const model = EdmModel.fromJSON(JSON.stringify(JSON_METADATA));
+
+        expect(model.entitySets).toEqual({
+            Customers: "Sales.Customer",
+            Me: "Sales.Customer",
+        });
+        expect(model.getProperty("Sales.Customer", "Tags")).toEqual({
+            name: "Tags",
+            navigation: false,
+            type: "Edm.String",
+            collection: true,
+            nullable: false,
+        });
+        expect(model.getType("Sales.Level")).toEqual({
+            kind: "EnumType",
+            name: "Sales.Level",
+            flags: false,
+            members: { Bronze: 0, Gold: 5 },
+        });
+        expect(EdmModel.parse(JSON.stringify(JSON_METADATA)).types).toEqual(
+            model.types
+        );
+    });
+
+    test("resolves schema aliases", async () => {
+        for (const model of [
+            await EdmModel.fromFile(METADATA),
+            EdmModel.fromJSON(JSON_METADATA),
+        ]) {
+            expect(model.getEntityType("Sales.Customer")?.baseType).toBe(
+                "Sales.Party"
+            );
+            expect(model.getProperty("Sales.Customer", "Orders")?.type).toBe(
+                "Sales.Order"
+            );
+        }
+    });
+
+    test("finds inherited properties", async () => {
+        for (const model of [
+            await EdmModel.fromFile(METADATA),
+            EdmModel.fromJSON(JSON_METADATA),
+        ]) {
+            expect(model.getProperty("Customers", "Name")?.type).toBe(
+                "Edm.String"
+            );
+            expect(model.getProperty("Sales.Party", "Age")).toBeUndefined();
+        }
+    });
+
+    test("reports open types", async () => {
+        const model = await EdmModel.fromFile(METADATA);
+
+        expect(model.isOpen("Sales.Order")).toBe(true);
+        expect(model.isOpen("Sales.Customer")).toBe(false);
+    });
+
+    test("rejects documents that are not CSDL", () => {
+        expect(() => EdmModel.parse("{")).toThrow(
+            "Invalid CSDL JSON: the document is not valid JSON"
+        );
+        expect(() => EdmModel.parse("{}")).toThrow(
+            "Invalid CSDL JSON: missing $Version"
+        );
+        expect(() => EdmModel.parse("<a><b></a>")).toThrow(
+            "Invalid CSDL XML: unexpected '</a>'"
+        );
+        expect(() => EdmModel.parse("<a/>")).toThrow(
+            "Invalid CSDL XML: no Schema element found"
+        );
+    });
+});
@@ -0,0 +1,161 @@
+import { describe, expect, test } from "bun:test";
+import {
+    FacetMapper,
+    serialize,
+    type FacetConfig,
+    type FacetState,
+} from "../src";
+
+const CONFIG = {
+    status: { type: "values", field: "status" },
+    price: { type: "range", field: "price" },
+    q: {
+        type: "search",
+        fields: ["name", "description"],
+        caseInsensitive: true,
+    },
+    sku: { type: "search", fields: ["sku"], match: "startswith" },
+    inStock: { type: "boolean", field: "inStock" },
+    tags: { type: "collection", field: "tags" },
+} satisfies FacetConfig;
+
+const facets = new FacetMapper(CONFIG);
+
+describe("FacetMapper.toFilter", () => {
+    test("builds the doc comment example", () => {
+        expect(
+            facets
+                .toFilter({
+                    status: ["active", "pending"],
+                    price: { gte: 10, lt: 100 },
+                    q: "shoe",
+                })
+                .build()
+        ).toBe(
+            "status in ('active', 'pending') and price ge 10 and price lt 100 and (contains(tolower(name), 'shoe') or contains(tolower(description), 'shoe'))"
+        );
+    });
+
+    test("writes each facet type", () => {
+        expect(
+            facets
+                .toFilter({
+                    status: ["active"],
+                    price: { gt: 1, lte: 5 },
+                    q: "Red Shoe",
+                    sku: "AB-",
+                    inStock: false,
+                    tags: ["new", "sale"],
+                })
+                .build()
+        ).toBe(
+            "status eq 'active' and price gt 1 and price le 5 and (contains(tolower(name), 'red shoe') or contains(tolower(description), 'red shoe')) and (startswith(sku, 'AB-')) and inStock eq false and tags/any(x:x in ('new', 'sale'))"
+        );
+    });
+
+    test("leaves empty values and unknown keys out", () => {
+        expect(
+            facets
+                .toFilter({
+                    status: [],
+                    price: {},
+                    q: "",
+                    page: 2,
+                } as FacetState<typeof CONFIG>)
+                .build()
+        ).toBe("");
+    });
+
+    test("rejects values of the wrong shape", () => {
+        expect(() =>
+            facets.toFilter({ price: 5 } as unknown as FacetState<
+                typeof CONFIG
+            >)
+        ).toThrow(
+            "Facet 'price' expects an object with gt, gte, lt or lte bounds"
+        );
+        expect(() =>
+            facets.toFilter({ q: 5 } as unknown as FacetState<typeof CONFIG>)
+        ).toThrow("Facet 'q' expects a string");
+        expect(() =>
+            facets.toFilter({
+                inStock: "yes",
+            } as unknown as FacetState<typeof CONFIG>)
+        ).toThrow("Facet 'inStock' expects a boolean");
+    });
+});
+
+describe("FacetMapper.fromFilter", () => {
+    test("reads the README example", () => {
+        const { state, unmapped } = facets.fromFilter(
+            "price lt 100 and (status eq 'active' or status eq 'new') and rating gt 3"
+        );
+
+        expect(state).toEqual({
+            status: ["active", "new"],
+            price: { lt: 100 },
+        });
+        expect(unmapped.map(serialize)).toEqual(["rating gt 3"]);
+    });
+
+    test("reports conditions no facet can show", () => {
+        expect(
+            facets
+                .fromFilter("status eq 'active' or price gt 5")
+                .unmapped.map(serialize)
+        ).toEqual(["price gt 5 or status eq 'active'"]);
+        expect(
+            facets
+                .fromFilter(
+                    "contains(name, 'x') and contains(tolower(name), 'y')"
+                )
+                .unmapped.map(serialize)
+        ).toEqual(["contains(name, 'x')", "contains(tolower(name), 'y')"]);
+    });
+
+    test("reads swapped range operands and boolean shorthands", () => {
+        expect(facets.fromFilter("10 le price and inStock").state).toEqual({
+            price: { gte: 10 },
+            inStock: true,
+        });
+        expect(facets.fromFilter("not inStock").state).toEqual({
+            inStock: false,
+        });
+    });
+
+    test("gives an empty state for an empty filter", () => {
+        expect(facets.fromFilter("")).toEqual({ state: {}, unmapped: [] });
+    });
+});
+
+describe("FacetMapper round trips", () => {
+    test.each<FacetState<typeof CONFIG>>([
+        { status: ["active"] },
+        { status: ["active", "pending"], price: { gte: 10, lt: 100 } },
+        { price: { gt: 0, lte: 9.5 }, q: "shoe" },
+        { q: "it's", sku: "AB" },
+        { inStock: true, tags: ["sale"] },
+        { inStock: false, tags: ["new", "sale"] },
+        {
+            status: ["a", "b", "c"],
+            price: { gt: 1, gte: 2, lt: 4, lte: 3 },
+            q: "x",
+            sku: "y",
+            inStock: true,
+            tags: ["t"],
+        },
+    ])("reads back the filter of %j", (state) => {
+        expect(facets.fromFilter(facets.toFilter(state))).toEqual({
+            state,
+            unmapped: [],
+        });
+    });
+
+    test("reads back lowercased search texts and sorted values", () => {
+        expect(
+            facets.fromFilter(
+                facets.toFilter({ status: ["b", "a"], q: "Shoe" })
+            ).state
+        ).toEqual({ status: ["a", "b"], q: "shoe" });
+    });
+});
@@ -0,0 +1,188 @@
+import { describe, expect, test } from "bun:test";
+import {
+    diff,
+    SearchBuilder,
+    SearchParser,
+    serialize,
+    type FilterChange,
+} from "../src";
+
+/**
+ * A change with its conditions serialized, for readable expectations
+ */
+type Summary = {
+    type: FilterChange["type"];
+    paths: string[];
+    before?: string;
+    after?: string;
+    changes?: Summary[];
+};
+
+/**
+ * Serializes the conditions of changes, and of the changes inside them
+ */
+function summarize(changes: FilterChange[]): Summary[] {
+    return changes.map((change) => ({
+        type: change.type,
+        paths: change.paths,
+        ...("before" in change ? { before: serialize(change.before) } : {}),
+        ...("after" in change ? { after: serialize(change.after) } : {}),
+        ...(change.type === "modified" && change.changes
+            ? { changes: summarize(change.changes) }
+            : {}),
+    }));
+}
+
+describe("diff", () => {
+    test("reports the doc comment example", () => {
+        const changes = diff(
+            "status in ('active', 'pending') and price ge 10 and price lt 100",
+            "price lt 100 and price ge 20 and contains(name, 'shoe')"
+        );
+
+        expect(
+            changes.map((change) => `${change.type} ${change.paths}`)
+        ).toEqual(["modified price", "removed status", "added name"]);
+        expect(summarize(changes)).toEqual([
+            {
+                type: "modified",
+                paths: ["price"],
+                before: "price ge 10",
+                after: "price ge 20",
+            },
+            {
+                type: "removed",
+                paths: ["status"],
+                before: "status in ('active', 'pending')",
+            },
+            {
+                type: "added",
+                paths: ["name"],
+                after: "contains(name, 'shoe')",
+            },
+        ]);
+    });
+
+    test("reports the changes inside a group, as in the doc comment", () => {
+        expect(
+            summarize(
+                diff(
+                    "(status eq 'a' or price gt 5) and x eq 1",
+                    "(status eq 'a' or price gt 5 or q eq 1) and x eq 1"
+                )
+            )
+        ).toEqual([
+            {
+                type: "modified",
+                paths: ["q"],
+                before: "price gt 5 or status eq 'a'",
+                after: "price gt 5 or q eq 1 or status eq 'a'",
+                changes: [{ type: "added", paths: ["q"], after: "q eq 1" }],
+            },
+        ]);
+    });
+
+    test("ignores differences that normalization removes", () => {
+        expect(
+            diff(
+                "(a eq 1 or a eq 2) and not (not (b gt 3))",
+                "3 lt b and a in (2, 1)"
+            )
+        ).toEqual([]);
+        expect(diff("", "")).toEqual([]);
+    });
+
+    test("compares with an empty filter", () => {
+        expect(summarize(diff("", "a eq 1 and b eq 2"))).toEqual([
+            { type: "added", paths: ["a"], after: "a eq 1" },
+            { type: "added", paths: ["b"], after: "b eq 2" },
+        ]);
+        expect(summarize(diff("a eq 1", ""))).toEqual([
+            { type: "removed", paths: ["a"], before: "a eq 1" },
+        ]);
+    });
+
+    test("prefers a modified condition with the same operator", () => {
+        expect(
+            summarize(
+                diff(
+                    "price lt 100 and price ge 10",
+                    "price ge 20 and price lt 50"
+                )
+            )
+        ).toEqual([
+            {
+                type: "modified",
+                paths: ["price"],
+                before: "price ge 10",
+                after: "price ge 20",
+            },
+            {
+                type: "modified",
+                paths: ["price"],
+                before: "price lt 100",
+                after: "price lt 50",
+            },
+        ]);
+    });
+
+    test("compares lambda bodies, naming paths through the collection", () => {
+        expect(
+            summarize(
+                diff(
+                    "orders/any(o:o/total gt 10 and o/status eq 'paid')",
+                    "orders/any(o:o/total gt 20 and o/status eq 'paid')"
+                )
+            )
+        ).toEqual([
+            {
+                type: "modified",
+                paths: ["orders/total"],
+                before: "orders/any(o:o/status eq 'paid' and o/total gt 10)",
+                after: "orders/any(o:o/status eq 'paid' and o/total gt 20)",
+                changes: [
+                    {
+                        type: "modified",
+                        paths: ["orders/total"],
+                        before: "o/total gt 10",
+                        after: "o/total gt 20",
+                    },
+                ],
+            },
+        ]);
+    });
+
+    test("replaces groups that keep less than half of their operands", () => {
+        expect(
+            summarize(diff("a eq 1 or b eq 2 or c eq 3", "a eq 1 or d eq 4"))
+        ).toEqual([
+            {
+                type: "removed",
+                paths: ["a", "b", "c"],
+                before: "a eq 1 or b eq 2 or c eq 3",
+            },
+            { type: "added", paths: ["a", "d"], after: "a eq 1 or d eq 4" },
+        ]);
+    });
+
+    test("accepts builders and expression trees", () => {
+        const saved = SearchParser.parse("status eq 'active' and price ge 10");
+
+        expect(
+            summarize(saved.diff("price ge 20 and status eq 'active'"))
+        ).toEqual([
+            {
+                type: "modified",
+                paths: ["price"],
+                before: "price ge 10",
+                after: "price ge 20",
+            },
+        ]);
+        expect(
+            diff(
+                new SearchBuilder().eq("a", 1),
+                SearchParser.parseAST("a eq 1")!
+            )
+        ).toEqual([]);
+    });
+});
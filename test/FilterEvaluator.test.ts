@@ -0,0 +1,251 @@
+import { describe, expect, test } from "bun:test";
+import { compile, param, SearchBuilder } from "../src";
+
+type Row = {
+    id: number;
+    name: string | null;
+    age: number | null;
+    active: boolean | null;
+    born: string | null;
+};
+
+const ROWS: Row[] = [
+    {
+        id: 1,
+        name: "John",
+        age: 35,
+        active: true,
+        born: "1989-05-17T10:30:00Z",
+    },
+    { id: 2, name: null, age: 20, active: false, born: null },
+    { id: 3, name: "Ann", age: null, active: null, born: "not a date" },
+];
+
+/**
+ * Returns the ids of the rows a filter matches
+ */
+function select(filter: string, rows: { id: number }[] = ROWS): number[] {
+    return rows.filter(compile(filter)).map(({ id }) => id);
+}
+
+/**
+ * Evaluates a filter against one item
+ */
+function matches(filter: string, item: unknown = {}): boolean {
+    return compile(filter)(item);
+}
+
+describe("compile: nulls", () => {
+    test("makes comparisons with null false, except eq null and ne null", () => {
+        expect(select("age gt 30")).toEqual([1]);
+        expect(select("age le 30")).toEqual([2]);
+        expect(select("name ne 'John'")).toEqual([2, 3]);
+        expect(select("name eq null")).toEqual([2]);
+        expect(select("name ne null")).toEqual([1, 3]);
+    });
+
+    test("negates comparisons with null to true", () => {
+        expect(select("not (length(name) gt 3)")).toEqual([2, 3]);
+        expect(select("not (age lt 30)")).toEqual([1, 3]);
+    });
+
+    test("propagates unknown through not, and and or", () => {
+        expect(select("not active")).toEqual([2]);
+        expect(select("not (not active)")).toEqual([1]);
+        expect(select("active and age gt 30")).toEqual([1]);
+        expect(select("not (active and name ne null)")).toEqual([2]);
+        expect(select("not (active and name eq 'Ann')")).toEqual([1, 2]);
+        expect(select("active or age lt 30")).toEqual([1, 2]);
+        expect(select("not (active or age lt 30)")).toEqual([]);
+        expect(select("not (active or name eq 'Ann')")).toEqual([2]);
+        expect(select("active eq null")).toEqual([3]);
+    });
+
+    test("gives null from functions of null", () => {
+        expect(select("tolower(name) eq null")).toEqual([2]);
+        expect(select("year(born) eq null")).toEqual([2]);
+    });
+});
+
+describe("compile: functions", () => {
+    test("evaluates string functions", () => {
+        const item = { name: " Ada Lovelace " };
+
+        expect(matches("contains(name, 'Love')", item)).toBe(true);
+        expect(matches("startswith(trim(name), 'Ada')", item)).toBe(true);
+        expect(matches("endswith(trim(name), 'lace')", item)).toBe(true);
+        expect(matches("indexof(name, 'Ada') eq 1", item)).toBe(true);
+        expect(matches("length(trim(name)) eq 12", item)).toBe(true);
+        expect(matches("substring(trim(name), 4, 4) eq 'Love'", item)).toBe(
+            true
+        );
+        expect(matches("tolower(trim(name)) eq 'ada lovelace'", item)).toBe(
+            true
+        );
+        expect(matches("toupper(trim(name)) eq 'ADA LOVELACE'", item)).toBe(
+            true
+        );
+        expect(
+            matches(
+                "concat(concat('x', trim(name)), 'y') eq 'xAda Lovelacey'",
+                item
+            )
+        ).toBe(true);
+        expect(matches("matchesPattern(name, '^ Ada')", item)).toBe(true);
+    });
+
+    test("honours caseSensitive for string functions", () => {
+        const item = { name: "Ada" };
+
+        expect(compile("contains(name, 'ada')")(item)).toBe(false);
+        expect(
+            compile("contains(name, 'ada')", { caseSensitive: false })(item)
+        ).toBe(true);
+    });
+
+    test("evaluates collection functions", () => {
+        const item = { tags: ["a", "b", "c"] };
+
+        expect(matches('hassubset(tags, ["c", "a"])', item)).toBe(true);
+        expect(matches('hassubset(tags, ["d"])', item)).toBe(false);
+        expect(matches('hassubsequence(tags, ["a", "c"])', item)).toBe(true);
+        expect(matches('hassubsequence(tags, ["c", "a"])', item)).toBe(false);
+        expect(matches("length(tags) eq 3", item)).toBe(true);
+    });
+
+    test("evaluates date and time functions", () => {
+        const item = { at: "2024-03-05T07:08:09.25+02:00" };
+
+        expect(matches("year(at) eq 2024", item)).toBe(true);
+        expect(matches("month(at) eq 3", item)).toBe(true);
+        expect(matches("day(at) eq 5", item)).toBe(true);
+        expect(matches("hour(at) eq 5", item)).toBe(true);
+        expect(matches("minute(at) eq 8", item)).toBe(true);
+        expect(matches("second(at) eq 9", item)).toBe(true);
+        expect(matches("fractionalseconds(at) eq 0.25", item)).toBe(true);
+        expect(matches("totaloffsetminutes(at) eq 120", item)).toBe(true);
+        expect(matches("date(at) eq 2024-03-05", item)).toBe(true);
+        expect(matches("time(at) eq 05:08:09.25", item)).toBe(true);
+        expect(
+            matches("at lt maxdatetime() and at gt mindatetime()", item)
+        ).toBe(true);
+        expect(matches("at lt now()", item)).toBe(true);
+        expect(matches("totalseconds(duration'PT1M30S') eq 90")).toBe(true);
+    });
+
+    test("gives null from date() and time() of values that are not dates", () => {
+        expect(select("date(born) eq 1989-05-17")).toEqual([1]);
+        expect(select("time(born) lt 12:00")).toEqual([1]);
+        expect(select("not (date(born) eq 1989-05-17)")).toEqual([2, 3]);
+        expect(select("date(name) eq null")).toEqual([1, 2, 3]);
+        expect(select("time(name) eq null")).toEqual([1, 2, 3]);
+    });
+
+    test("evaluates arithmetic functions", () => {
+        const item = { price: 2.5, loss: -2.5 };
+
+        expect(matches("round(price) eq 3 and round(loss) eq -3", item)).toBe(
+            true
+        );
+        expect(matches("floor(price) eq 2 and ceiling(price) eq 3", item)).toBe(
+            true
+        );
+    });
+
+    test("evaluates type functions", () => {
+        expect(matches("isof(age, Edm.Int32)", { age: 3 })).toBe(true);
+        expect(matches("isof(age, Edm.String)", { age: 3 })).toBe(false);
+        expect(matches("cast(age, Edm.String) eq '3'", { age: 3 })).toBe(true);
+        expect(
+            matches("cast(at, Edm.DateTimeOffset) eq null", { at: "soon" })
+        ).toBe(true);
+    });
+});
+
+describe("compile: arithmetic", () => {
+    test("follows OData operators", () => {
+        const item = { a: 7, b: 2 };
+
+        expect(matches("a add b eq 9 and a sub b eq 5", item)).toBe(true);
+        expect(matches("a mul b eq 14 and a mod b eq 1", item)).toBe(true);
+        expect(matches("a div b eq 3 and a divby b eq 3.5", item)).toBe(true);
+        expect(matches("a add null eq null", item)).toBe(true);
+    });
+
+    test("adds durations to dates", () => {
+        const item = { at: new Date("2024-01-31T12:00:00Z") };
+
+        expect(
+            matches("at add duration'P1DT12H' eq 2024-02-02T00:00:00Z", item)
+        ).toBe(true);
+        expect(
+            matches("at sub duration'PT12H' eq 2024-01-31T00:00:00Z", item)
+        ).toBe(true);
+        expect(matches("at add 1000 eq 2024-01-31T12:00:01Z", item)).toBe(true);
+        expect(matches("at add null eq null", item)).toBe(true);
+    });
+});
+
+describe("compile: lambdas", () => {
+    const orders = [
+        {
+            id: 1,
+            orders: [
+                { items: [{ qty: 1 }, { qty: 2 }] },
+                { items: [{ qty: 0 }] },
+            ],
+        },
+        { id: 2, orders: [{ items: [{ qty: 0 }] }] },
+        { id: 3, orders: [] },
+        { id: 4, orders: null },
+    ];
+
+    test("evaluates nested any and all", () => {
+        expect(
+            select("orders/any(o:o/items/all(i:i/qty gt 0))", orders)
+        ).toEqual([1]);
+        expect(
+            select("orders/all(o:o/items/any(i:i/qty eq 0))", orders)
+        ).toEqual([2, 3, 4]);
+        expect(
+            select("orders/any(o:o/items/any(i:i/qty gt 1))", orders)
+        ).toEqual([1]);
+    });
+
+    test("reaches outer range variables from inner lambdas", () => {
+        const item = {
+            limit: 1,
+            groups: [{ min: 2, values: [1, 3] }],
+        };
+
+        expect(matches("groups/any(g:g/values/any(v:v gt g/min))", item)).toBe(
+            true
+        );
+        expect(matches("groups/any(g:g/values/all(v:v gt limit))", item)).toBe(
+            false
+        );
+    });
+});
+
+describe("compile: parameters", () => {
+    test("rejects unbound parameters", () => {
+        expect(() => compile("price gt @max")).toThrow(
+            "Parameter @max has no value; bind it with SearchBuilder.bind() first"
+        );
+    });
+
+    test("uses bound parameter values", () => {
+        const filter = new SearchBuilder()
+            .gt("price", param("max"))
+            .bind({ max: 10 });
+
+        expect(compile(filter)({ price: 11 })).toBe(true);
+        expect(compile(filter)({ price: 9 })).toBe(false);
+    });
+});
+
+describe("compile", () => {
+    test("matches everything for an empty filter", () => {
+        expect(select("")).toEqual([1, 2, 3]);
+    });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, test } from "bun:test";
+import { FilterFormatter, SearchParser, serialize, transform } from "../src";
+
+const FILTERS = [
+    "status eq 'active' and (priority gt 2 or tags/any(t:t eq 'urgent' or t eq 'vip'))",
+    "not (contains(tolower(name), 'it''s') or startswith(name, 'a$&b')) and price add 1 gt 10",
+    "orders/any(o:o/total gt 100 and o/items/all(i:i/qty gt 0 and i/sku in ('a', 'b', 'c')))",
+    "a sub (b sub c) eq 1 and a mul (b add c) le 10 or (x eq 1 or y eq 2) and z eq 3",
+    "concat(concat(firstName, ' '), lastName) eq 'Ada Lovelace' and year(born) lt 1900",
+    "isof(address, Model.Home) and created ge 2024-01-01T00:00:00Z and id eq @id",
+];
+
+/**
+ * Serializes a filter without its parentheses, except those precedence requires
+ */
+function meaning(filter: string): string {
+    return serialize(
+        transform(SearchParser.parseAST(filter)!, {
+            group: (node) => node.expression,
+        })
+    );
+}
+
+describe("FilterFormatter.format", () => {
+    test("lays out the doc comment example", () => {
+        expect(
+            FilterFormatter.format(
+                "status eq 'active' and (priority gt 2 or tags/any(t:t eq 'urgent' or t eq 'vip'))",
+                { width: 40 }
+            )
+        ).toBe(
+            [
+                "status eq 'active'",
+                "and (",
+                "  priority gt 2",
+                "  or tags/any(t:",
+                "    t eq 'urgent' or t eq 'vip'",
+                "  )",
+                ")",
+            ].join("\n")
+        );
+    });
+
+    test("keeps a filter that fits on one line", () => {
+        expect(FilterFormatter.format("a eq 1 and b eq 2")).toBe(
+            "a eq 1 and b eq 2"
+        );
+        expect(FilterFormatter.format("")).toBe("");
+    });
+
+    test.each([10, 20, 40, 80, 200])(
+        "gives a filter with the same meaning at width %i",
+        (width) => {
+            for (const filter of FILTERS) {
+                const formatted = FilterFormatter.format(filter, { width });
+
+                expect(meaning(formatted)).toBe(meaning(filter));
+            }
+        }
+    );
+
+    test("indents by the given number of spaces", () => {
+        expect(
+            FilterFormatter.format("a eq 1 and (b eq 2 or c eq 3)", {
+                width: 10,
+                indent: 4,
+            })
+        ).toBe(
+            ["a eq 1", "and (", "    b eq 2", "    or c eq 3", ")"].join("\n")
+        );
+        expect(() =>
+            FilterFormatter.format("a eq 1", { indent: -1 })
+        ).toThrow();
+    });
+});
+
+describe("FilterFormatter.explain", () => {
+    test("describes the doc comment examples", () => {
+        expect(
+            FilterFormatter.explain(
+                "price ge 10 and not contains(name, 'refurbished')",
+                { labels: { price: "Price", name: "Name" } }
+            )
+        ).toBe("Price is at least 10 and Name does not contain 'refurbished'");
+        expect(
+            FilterFormatter.explain(
+                "status in ('active', 'pending') and tags/any(t:t eq 'important')"
+            )
+        ).toBe(
+            "status is 'active' or 'pending', and any tag equals 'important'"
+        );
+    });
+
+    test("keeps dollar signs of function arguments", () => {
+        expect(FilterFormatter.explain("tolower('a$&b') eq 'x'")).toBe(
+            "'a$&b' in lower case equals 'x'"
+        );
+        expect(FilterFormatter.explain("trim('x$''y') eq 'z'")).toBe(
+            "trimmed 'x$'y' equals 'z'"
+        );
+    });
+
+    test("keeps the grouping of arithmetic", () => {
+        expect(FilterFormatter.explain("a sub (b sub c) eq 1")).toBe(
+            "a minus (b minus c) equals 1"
+        );
+        expect(FilterFormatter.explain("a mul (b add c) eq 1")).toBe(
+            "a times (b plus c) equals 1"
+        );
+        expect(FilterFormatter.explain("(a add b) mul c eq 1")).toBe(
+            "(a plus b) times c equals 1"
+        );
+        expect(FilterFormatter.explain("a add b mul c eq 1")).toBe(
+            "a plus b times c equals 1"
+        );
+        expect(FilterFormatter.explain("a sub b sub c eq 1")).toBe(
+            "a minus b minus c equals 1"
+        );
+    });
+
+    test("shows strings without OData escaping", () => {
+        expect(FilterFormatter.explain("name eq 'it''s'")).toBe(
+            "name equals 'it's'"
+        );
+    });
+
+    test("gives an empty description for an empty filter", () => {
+        expect(FilterFormatter.explain("")).toBe("");
+    });
+});
@@ -0,0 +1,135 @@
+import { describe, expect, test } from "bun:test";
+import {
+    fromFilterJSON,
+    SearchParser,
+    serialize,
+    toFilterJSON,
+    type FilterDocument,
+    type FilterNodeJSON,
+} from "../src";
+
+/**
+ * Wraps a filter in a document of the current version
+ */
+function document(filter: FilterNodeJSON): FilterDocument {
+    return { version: 1, filter };
+}
+
+/**
+ * A comparison of a property with 1
+ */
+function comparison(path: string): FilterDocument {
+    return document({
+        type: "comparison",
+        operator: "eq",
+        left: { type: "property", path },
+        right: { type: "literal", value: 1 },
+    });
+}
+
+/**
+ * A lambda over a collection, with a range variable
+ */
+function lambda(collection: string, variable: string): FilterDocument {
+    return document({
+        type: "lambda",
+        operator: "any",
+        collection,
+        variable,
+        expression: { type: "property", path: "t" },
+    });
+}
+
+const INVALID_PATHS = ["true or id", "true", "null/x", "a) or (1", "a b", ""];
+
+const VALID_PATHS = ["a", "a/b", "$count", "Model.Home/city", "trueValue"];
+
+describe("FilterJSON", () => {
+    test("restores the tree it wrote", () => {
+        const ast = SearchParser.parseAST(
+            "born lt 2000-01-01 and price eq 1.50M and tags/any(t:t eq 'x')"
+        )!;
+
+        expect(
+            serialize(fromFilterJSON(JSON.stringify(toFilterJSON(ast)))!)
+        ).toBe(serialize(ast));
+        expect(fromFilterJSON({ version: 1, filter: null })).toBeUndefined();
+    });
+
+    test("rejects property paths outside the identifier grammar", () => {
+        for (const path of INVALID_PATHS) {
+            expect(() => fromFilterJSON(comparison(path))).toThrow(
+                `Invalid filter JSON at '/filter/left/path': invalid property path '${path}'`
+            );
+        }
+
+        for (const path of VALID_PATHS) {
+            expect(serialize(fromFilterJSON(comparison(path))!)).toBe(
+                `${path} eq 1`
+            );
+        }
+    });
+
+    test("rejects invalid function names, collections and variables", () => {
+        expect(() =>
+            fromFilterJSON(
+                document({ type: "function", name: "x)or(1", args: [] })
+            )
+        ).toThrow("invalid function name 'x)or(1'");
+        expect(() =>
+            fromFilterJSON(
+                document({ type: "function", name: "nosuch", args: [] })
+            )
+        ).toThrow("unknown function 'nosuch'");
+        expect(() => fromFilterJSON(lambda("tags or 1", "t"))).toThrow(
+            "Invalid filter JSON at '/filter/collection': invalid collection path 'tags or 1'"
+        );
+        expect(() => fromFilterJSON(lambda("tags", "t x"))).toThrow(
+            "Invalid filter JSON at '/filter/variable': invalid variable name 't x'"
+        );
+    });
+
+    test("rejects unknown operators, versions and invalid literals", () => {
+        expect(() =>
+            fromFilterJSON(
+                document({
+                    type: "comparison",
+                    operator: "xx" as "eq",
+                    left: { type: "property", path: "a" },
+                    right: { type: "literal", value: 1 },
+                })
+            )
+        ).toThrow("unknown operator 'xx'");
+        expect(() =>
+            fromFilterJSON(
+                document({
+                    type: "comparison",
+                    operator: "eq",
+                    left: { type: "property", path: "a" },
+                    right: { type: "literal", kind: "date", value: "nope" },
+                })
+            )
+        ).toThrow("Invalid filter JSON at '/filter/right'");
+        expect(() => fromFilterJSON('{"version":2,"filter":null}')).toThrow(
+            "Unsupported filter JSON version '2'"
+        );
+        expect(() => fromFilterJSON("{bad")).toThrow(
+            "the text is not valid JSON"
+        );
+    });
+
+    test("has the same path grammar in the JSON Schema", async () => {
+        const schema = await Bun.file(
+            new URL("../schema/filter.schema.json", import.meta.url)
+        ).json();
+        const pattern = new RegExp(schema.$defs.path.pattern);
+
+        for (const path of INVALID_PATHS) {
+            expect(pattern.test(path)).toBe(false);
+        }
+
+        for (const path of VALID_PATHS) {
+            expect(pattern.test(path)).toBe(true);
+        }
+    });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, test } from "bun:test";
+import { compile, normalize, SearchParser, serialize } from "../src";
+
+type Row = {
+    a: number | null;
+    b: number | null;
+    c: number | null;
+    name: string | null;
+    active: boolean | null;
+    tags: string[] | null;
+};
+
+const FILTERS = [
+    "not (b eq 2 and a gt 1) or (c eq 1 or c eq 3)",
+    "a eq 1 or a eq 2 or a in (2, 3) or b eq 1",
+    "not (not (a gt 1)) and (a gt 1 and b ne null)",
+    "not (a ne null or b eq 1)",
+    "1 lt a and a add b eq c",
+    "b mul a gt 2 or true and c eq 1",
+    "false or not (name eq 'x' or contains(name, 'y'))",
+    "active and not active or active eq null",
+    "not (active or a eq 1) and (a eq 1 or true)",
+    "tags/any(t:t eq 'x' or t eq 'y') and not tags/all(t:t ne 'z')",
+    "c in (3, 1, 1) and not (a lt 2 or name in ('p', null))",
+    "(a eq b) eq (b eq a) or not (a sub 1 gt 0)",
+];
+
+const ROWS: Row[] = [];
+
+for (const a of [null, 1, 2]) {
+    for (const name of [null, "x", "yy"]) {
+        for (const active of [null, true, false]) {
+            ROWS.push({
+                a,
+                b: a === 2 ? null : 2,
+                c: active === null ? 3 : 1,
+                name,
+                active,
+                tags: name === null ? null : name === "x" ? ["x", "z"] : [],
+            });
+        }
+    }
+}
+
+/**
+ * Parses a filter that is known to be valid
+ */
+function parse(filter: string) {
+    return SearchParser.parseAST(filter)!;
+}
+
+describe("normalize", () => {
+    test("rewrites the doc comment example", () => {
+        expect(serialize(normalize(parse(FILTERS[0]!)))).toBe(
+            "b ne 2 or c in (1, 3) or not (a gt 1)"
+        );
+    });
+
+    test.each(FILTERS)("is idempotent for %s", (filter) => {
+        const once = normalize(parse(filter));
+
+        expect(serialize(normalize(once))).toBe(serialize(once));
+        expect(normalize(once)).toEqual(once);
+    });
+
+    test.each(FILTERS)("matches the same rows for %s", (filter) => {
+        const original = compile<Row>(filter);
+        const normalized = compile<Row>(normalize(parse(filter)));
+
+        for (const row of ROWS) {
+            expect({ row, matches: normalized(row) }).toEqual({
+                row,
+                matches: original(row),
+            });
+        }
+    });
+
+    test("gives equivalent filters the same form", () => {
+        expect(
+            serialize(normalize(parse("b gt 1 and (a eq 2 or a eq 1)")))
+        ).toBe(serialize(normalize(parse("a in (1, 2) and 1 lt b"))));
+    });
+});
@@ -0,0 +1,134 @@
+import { describe, expect, test } from "bun:test";
+import {
+    enforcePolicy,
+    FilterPolicyError,
+    SearchBuilder,
+    SearchParser,
+    type FilterInput,
+    type FilterPolicy,
+} from "../src";
+
+const policy: FilterPolicy = {
+    fields: {
+        name: ["eq", "contains"],
+        age: ["eq", "gt"],
+        status: ["eq", "in"],
+        tags: ["any"],
+        "tags/$this": ["eq"],
+        orders: ["any"],
+        "orders/total": ["gt"],
+        "orders/items": ["any"],
+        "orders/items/qty": ["gt"],
+        address: true,
+    },
+    maxDepth: 3,
+    maxConditions: 3,
+    maxInLength: 2,
+    maxLambdaDepth: 1,
+    maxStringLength: 5,
+};
+
+/**
+ * Returns the error a filter breaks the policy with
+ */
+function violation(filter: FilterInput): FilterPolicyError {
+    try {
+        enforcePolicy(filter, policy);
+    } catch (error) {
+        if (error instanceof FilterPolicyError) {
+            return error;
+        }
+
+        throw error;
+    }
+
+    throw new Error("Expected a policy violation");
+}
+
+describe("FilterPolicy", () => {
+    test("accepts filters within the policy", () => {
+        for (const filter of [
+            "contains(name, 'ab') and age gt 18",
+            "status in ('a', 'b')",
+            "tags/any(t:t eq 'x')",
+            "orders/any(o:o/total gt 1)",
+            "isof(address, Model.Home)",
+        ]) {
+            expect(enforcePolicy(filter, policy)).toBeDefined();
+        }
+    });
+
+    test("rejects fields that are not listed", () => {
+        expect(violation("salary gt 1000")).toMatchObject({
+            code: "fieldNotAllowed",
+            path: "salary",
+        });
+        expect(violation("address/city eq 'x'")).toMatchObject({
+            code: "fieldNotAllowed",
+            path: "address/city",
+        });
+        expect(violation(new SearchBuilder().eq("salary", 1))).toMatchObject({
+            code: "fieldNotAllowed",
+            path: "salary",
+        });
+    });
+
+    test("rejects operators and functions that are not listed", () => {
+        expect(violation("age lt 5")).toMatchObject({
+            code: "operatorNotAllowed",
+            path: "age",
+        });
+        expect(violation("startswith(name, 'ab')")).toMatchObject({
+            code: "operatorNotAllowed",
+            path: "name",
+        });
+    });
+
+    test("checks lambda bodies through their collection", () => {
+        expect(violation("orders/any(o:o/qty gt 1)")).toMatchObject({
+            code: "fieldNotAllowed",
+            path: "orders/qty",
+        });
+        expect(violation("tags/any(t:t ne 'x')")).toMatchObject({
+            code: "operatorNotAllowed",
+            path: "tags/$this",
+        });
+    });
+
+    test("enforces the limits", () => {
+        expect(violation("status in ('a', 'b', 'c')")).toMatchObject({
+            code: "maxInLength",
+            limit: 2,
+        });
+        expect(violation("name eq 'abcdef'")).toMatchObject({
+            code: "maxStringLength",
+            limit: 5,
+        });
+        for (const literal of [
+            "binary'T0RhdGFPRGF0YQ=='",
+            "duration'P1DT2H30M'",
+            "Model.Color'Yellowish'",
+        ]) {
+            expect(violation(`name eq ${literal}`)).toMatchObject({
+                code: "maxStringLength",
+                limit: 5,
+            });
+        }
+        expect(
+            violation("age eq 1 and age eq 2 and age eq 3 and age eq 4")
+        ).toMatchObject({ code: "maxConditions", limit: 3 });
+        expect(violation("((((age eq 1))))")).toMatchObject({
+            code: "maxDepth",
+            limit: 3,
+        });
+        expect(
+            violation("orders/any(o:o/items/any(i:i/qty gt 1))")
+        ).toMatchObject({ code: "maxLambdaDepth", limit: 1 });
+    });
+
+    test("is enforced by SearchParser.parse()", () => {
+        expect(() => SearchParser.parse("salary gt 1", { policy })).toThrow(
+            FilterPolicyError
+        );
+    });
+});
@@ -0,0 +1,216 @@
+import { describe, expect, test } from "bun:test";
+import {
+    FilterFunctions,
+    literal,
+    property,
+    SearchParser,
+    serialize,
+    transform,
+    visit,
+    type FilterNode,
+} from "../src";
+
+/**
+ * Parses a filter that is known to be valid
+ */
+function parse(filter: string): FilterNode {
+    return SearchParser.parseAST(filter)!;
+}
+
+describe("visit", () => {
+    test("visits nodes depth-first in source order", () => {
+        const seen: string[] = [];
+
+        visit(parse("a eq 1 and not contains(b, 'x')"), {
+            logical: (node) => void seen.push(node.operator),
+            comparison: (node) => void seen.push(node.operator),
+            not: () => void seen.push("not"),
+            function: (node) => void seen.push(node.name),
+            property: (node) => void seen.push(node.path),
+            literal: (node) => void seen.push(String(node.value)),
+        });
+
+        expect(seen).toEqual([
+            "and",
+            "eq",
+            "a",
+            "1",
+            "not",
+            "contains",
+            "b",
+            "x",
+        ]);
+    });
+
+    test("collects the fields of the doc comment example", () => {
+        const fields = new Set<string>();
+
+        visit(parse("name eq 'x' and orders/any(o:o/total gt 10)"), {
+            property: (node, { variables }) => {
+                if (!variables.includes(node.path.split("/")[0]!)) {
+                    fields.add(node.path);
+                }
+            },
+            lambda: (node) => void fields.add(node.collection),
+        });
+
+        expect([...fields]).toEqual(["name", "orders"]);
+    });
+
+    test("skips the children of a node when its callback returns false", () => {
+        const paths: string[] = [];
+
+        visit(parse("a eq 1 and tags/any(t:t eq b)"), {
+            lambda: () => false,
+            property: (node) => void paths.push(node.path),
+        });
+
+        expect(paths).toEqual(["a"]);
+    });
+
+    test("passes the parent and the range variables in scope", () => {
+        const contexts: {
+            path: string;
+            parent?: string;
+            variables: readonly string[];
+        }[] = [];
+
+        visit(parse("x eq 1 or a/any(o:o/items/all(i:i/qty gt o/min))"), {
+            property: (node, { parent, variables }) =>
+                void contexts.push({
+                    path: node.path,
+                    parent: parent?.type,
+                    variables,
+                }),
+        });
+
+        expect(contexts).toEqual([
+            { path: "x", parent: "comparison", variables: [] },
+            { path: "i/qty", parent: "comparison", variables: ["o", "i"] },
+            { path: "o/min", parent: "comparison", variables: ["o", "i"] },
+        ]);
+    });
+});
+
+describe("transform", () => {
+    test("rewrites the doc comment example", () => {
+        const ast = transform(parse("name eq 'John' and age eq 30"), {
+            comparison: (node) =>
+                node.operator === "eq" &&
+                node.right.type === "literal" &&
+                typeof node.right.value === "string"
+                    ? {
+                          ...node,
+                          left: FilterFunctions.tolower(node.left),
+                          right: FilterFunctions.tolower(node.right),
+                      }
+                    : undefined,
+        });
+
+        expect(serialize(ast)).toBe(
+            "tolower(name) eq tolower('John') and age eq 30"
+        );
+    });
+
+    test("calls callbacks with children that are already transformed", () => {
+        const ast = transform(parse("a eq 'A' and b eq 'B'"), {
+            literal: (node) =>
+                typeof node.value === "string"
+                    ? literal(node.value.toLowerCase())
+                    : undefined,
+            comparison: (node) =>
+                node.right.type === "literal" && node.right.value === "a"
+                    ? { ...node, left: property("renamed") }
+                    : undefined,
+        });
+
+        expect(serialize(ast)).toBe("renamed eq 'a' and b eq 'b'");
+    });
+
+    test("does not transform the nodes a callback returns", () => {
+        let calls = 0;
+        const ast = transform(parse("a eq 1"), {
+            property: (node) => {
+                calls++;
+
+                return property(`${node.path}/a`);
+            },
+        });
+
+        expect(serialize(ast)).toBe("a/a eq 1");
+        expect(calls).toBe(1);
+    });
+
+    test("returns the original tree when nothing changes", () => {
+        const ast = parse("a eq 1 and tags/any(t:t in ('x', 'y'))");
+
+        expect(transform(ast, {})).toBe(ast);
+        expect(transform(ast, { property: () => undefined })).toBe(ast);
+    });
+
+    test("shares the subtrees it did not change", () => {
+        const ast = parse("(a eq 1 or b eq 2) and (c eq 3 or d eq 4)");
+        const result = transform(ast, {
+            property: (node) => (node.path === "c" ? property("z") : undefined),
+        });
+
+        expect(serialize(result)).toBe(
+            "(a eq 1 or b eq 2) and (z eq 3 or d eq 4)"
+        );
+        expect(result).not.toBe(ast);
+
+        const before = ast as Extract<FilterNode, { type: "logical" }>;
+        const after = result as Extract<FilterNode, { type: "logical" }>;
+
+        expect(after.left).toBe(before.left);
+        expect(after.right).not.toBe(before.right);
+        expect(serialize(ast)).toBe(
+            "(a eq 1 or b eq 2) and (c eq 3 or d eq 4)"
+        );
+    });
+
+    test("keeps range variables apart from properties", () => {
+        const ast = transform(parse("o eq 1 and orders/any(o:o/total gt 1)"), {
+            property: (node, { variables }) =>
+                variables.includes(node.path.split("/")[0]!)
+                    ? undefined
+                    : property(`x/${node.path}`),
+        });
+
+        expect(serialize(ast)).toBe("x/o eq 1 and orders/any(o:o/total gt 1)");
+    });
+
+    test("rejects collection items that are not literals", () => {
+        expect(() =>
+            transform(parse('hassubset(tags, ["a"])'), {
+                literal: () => property("b"),
+            })
+        ).toThrow("Collection items can only be replaced by literals");
+    });
+});
+
+describe("SearchBuilder.visit and SearchBuilder.transform", () => {
+    test("work on the builder's tree and return a new builder", () => {
+        const filter = SearchParser.parse(
+            "contains(name, 'a') and year(born) eq 2000"
+        );
+        const functions: string[] = [];
+
+        filter.visit({ function: (node) => void functions.push(node.name) });
+
+        expect(functions).toEqual(["contains", "year"]);
+        expect(
+            filter
+                .transform({
+                    property: (node) =>
+                        property(
+                            node.path === "name" ? "user/name" : node.path
+                        ),
+                })
+                .build()
+        ).toBe("contains(user/name, 'a') and year(born) eq 2000");
+        expect(filter.build()).toBe(
+            "contains(name, 'a') and year(born) eq 2000"
+        );
+    });
+});
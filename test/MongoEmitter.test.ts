@@ -0,0 +1,86 @@
+import { describe, expect, test } from "bun:test";
+import { MongoEmitter, SearchBuilder } from "../src";
+
+describe("MongoEmitter", () => {
+    test("translates comparisons, string functions and lambdas", () => {
+        expect(
+            MongoEmitter.emit(
+                "startswith(name, 'J.') and age ge 18 and tags/any(t:t eq 'vip')"
+            )
+        ).toEqual({
+            name: { $regex: "^J\\." },
+            age: { $gte: 18 },
+            tags: { $elemMatch: { $eq: "vip" } },
+        });
+    });
+
+    test("escapes regular expression characters in search texts", () => {
+        expect(MongoEmitter.emit("contains(name, 'a.b*')")).toEqual({
+            name: { $regex: "a\\.b\\*" },
+        });
+    });
+
+    test("keeps dollar signs of search texts as they are", () => {
+        expect(MongoEmitter.emit("contains(name, '$&')")).toEqual({
+            name: { $regex: "\\$&" },
+        });
+        expect(MongoEmitter.emit("endswith(name, 'a$''b')")).toEqual({
+            name: { $regex: "a\\$'b$" },
+        });
+    });
+
+    test("rejects fields that are operators or contain dots", () => {
+        expect(() =>
+            MongoEmitter.emit(new SearchBuilder().eq("$where", "1"))
+        ).toThrow("Invalid field '$where'");
+        expect(() => MongoEmitter.emit("$where eq 'x'")).toThrow(
+            "Invalid field '$where'"
+        );
+        expect(() =>
+            MongoEmitter.emit(new SearchBuilder().eq("a.b", 1))
+        ).toThrow("Invalid field 'a.b'");
+    });
+
+    test("drops type cast segments", () => {
+        expect(MongoEmitter.emit("address/Model.Home/city eq 'x'")).toEqual({
+            "address.city": { $eq: "x" },
+        });
+    });
+
+    test("maps fields and rejects the ones that are not mapped", () => {
+        const fields = { name: "fullName", orders: "orders" };
+
+        expect(MongoEmitter.emit("name eq 'x'", { fields })).toEqual({
+            fullName: { $eq: "x" },
+        });
+        expect(() => MongoEmitter.emit("secret eq 'x'", { fields })).toThrow(
+            "Unknown field 'secret'"
+        );
+        expect(() =>
+            MongoEmitter.emit("orders/any(o:o/total gt 1)", { fields })
+        ).toThrow("Unknown field 'orders/total'");
+    });
+
+    test("maps element fields under the field of their collection", () => {
+        expect(
+            MongoEmitter.emit("orders/any(o:o/total gt 1)", {
+                fields: { orders: "orders", "orders/total": "orders.sum" },
+            })
+        ).toEqual({ orders: { $elemMatch: { sum: { $gt: 1 } } } });
+        expect(() =>
+            MongoEmitter.emit("orders/any(o:o/total gt 1)", {
+                fields: { orders: "orders", "orders/total": "other.sum" },
+            })
+        ).toThrow("is not a field of the elements of 'orders'");
+    });
+
+    test("rejects arithmetic", () => {
+        expect(() => MongoEmitter.emit("price add 1 gt 2")).toThrow(
+            "need a property on one side and a literal on the other"
+        );
+    });
+
+    test("gives an empty query for an empty filter", () => {
+        expect(MongoEmitter.emit("")).toEqual({});
+    });
+});
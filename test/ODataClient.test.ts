@@ -0,0 +1,215 @@
+import { describe, expect, test } from "bun:test";
+import {
+    ODataClient,
+    ODataError,
+    QueryBuilder,
+    SearchBuilder,
+    type ODataFetch,
+    type ODataRequestInit,
+} from "../src";
+
+const SERVICE_ROOT = "https://example.com/odata/";
+
+/**
+ * A mock fetch that answers by URL and records the requests it gets
+ * @param responses The status and body for each URL; other URLs get a 404
+ */
+function mock(responses: Record<string, [number, string]>) {
+    const requests: { url: string; init: ODataRequestInit }[] = [];
+    const fetch: ODataFetch = async (url, init) => {
+        requests.push({ url, init });
+
+        const [status, body] = responses[url] ?? [404, ""];
+
+        return {
+            ok: status < 400,
+            status,
+            statusText: status < 400 ? "OK" : "Error",
+            text: async () => body,
+        };
+    };
+
+    return { fetch, requests };
+}
+
+/**
+ * Creates a client for the People entity set with a mock fetch
+ */
+function client(fetch: ODataFetch) {
+    return new ODataClient<{ id: number }>({
+        serviceRoot: SERVICE_ROOT,
+        entitySet: "People",
+        fetch,
+        headers: { Authorization: "Bearer secret" },
+    });
+}
+
+/**
+ * Collects the ids of every entity across the pages
+ */
+async function ids(people: ODataClient<{ id: number }>): Promise<number[]> {
+    const result: number[] = [];
+
+    for await (const { id } of people.items()) {
+        result.push(id);
+    }
+
+    return result;
+}
+
+describe("ODataClient", () => {
+    test("sends the encoded query with the configured headers", async () => {
+        const { fetch, requests } = mock({
+            "https://example.com/odata/People?$filter=age%20gt%2030&$count=true":
+                [200, '{"@odata.count":"7","value":[{"id":1}]}'],
+        });
+        const page = await client(fetch).get(
+            new QueryBuilder()
+                .filter(new SearchBuilder().gt("age", 30))
+                .count(),
+            { headers: { Prefer: "odata.maxpagesize=1" } }
+        );
+
+        expect(page).toEqual({ value: [{ id: 1 }], count: 7 });
+        expect(requests[0]?.init.headers).toEqual({
+            Accept: "application/json",
+            Authorization: "Bearer secret",
+            Prefer: "odata.maxpagesize=1",
+        });
+    });
+
+    test("follows absolute and relative next links", async () => {
+        const { fetch, requests } = mock({
+            "https://example.com/odata/People": [
+                200,
+                '{"value":[{"id":1}],"@odata.nextLink":"https://example.com/odata/People?$skiptoken=1"}',
+            ],
+            "https://example.com/odata/People?$skiptoken=1": [
+                200,
+                '{"value":[{"id":2}],"@odata.nextLink":"People?$skiptoken=2"}',
+            ],
+            "https://example.com/odata/People?$skiptoken=2": [
+                200,
+                '{"value":[{"id":3}]}',
+            ],
+        });
+
+        expect(await ids(client(fetch))).toEqual([1, 2, 3]);
+        expect(requests.map(({ init }) => init.headers.Authorization)).toEqual([
+            "Bearer secret",
+            "Bearer secret",
+            "Bearer secret",
+        ]);
+    });
+
+    test("refuses next links to another origin", async () => {
+        const { fetch, requests } = mock({
+            "https://example.com/odata/People": [
+                200,
+                '{"value":[{"id":1}],"@odata.nextLink":"https://evil.example/steal"}',
+            ],
+        });
+        const pages = client(fetch).pages();
+
+        expect((await pages.next()).value).toEqual({
+            value: [{ id: 1 }],
+            nextLink: "https://evil.example/steal",
+        });
+        await expect(pages.next()).rejects.toThrow(
+            "Refusing to follow @odata.nextLink https://evil.example/steal: it leaves the service origin https://example.com"
+        );
+        expect(requests).toHaveLength(1);
+    });
+
+    test("stops when a next link leads back to a fetched page", async () => {
+        const { fetch, requests } = mock({
+            "https://example.com/odata/People": [
+                200,
+                '{"value":[{"id":1}],"@odata.nextLink":"People?$skip=1"}',
+            ],
+            "https://example.com/odata/People?$skip=1": [
+                200,
+                '{"value":[{"id":2}],"@odata.nextLink":"People?$skip=1"}',
+            ],
+        });
+
+        expect(await ids(client(fetch))).toEqual([1, 2]);
+        expect(requests).toHaveLength(2);
+    });
+
+    test("counts with the $count segment", async () => {
+        const { fetch, requests } = mock({
+            "https://example.com/odata/People/$count?$filter=age%20gt%2030": [
+                200,
+                "\uFEFF42\n",
+            ],
+        });
+
+        expect(
+            await client(fetch).count(
+                new QueryBuilder()
+                    .filter(new SearchBuilder().gt("age", 30))
+                    .top(5)
+            )
+        ).toBe(42);
+        expect(requests[0]?.init.headers.Accept).toBe("text/plain");
+    });
+
+    test("ignores a byte order mark before JSON", async () => {
+        const { fetch } = mock({
+            "https://example.com/odata/People": [200, '\uFEFF{"value":[]}'],
+        });
+
+        expect(await client(fetch).get()).toEqual({ value: [] });
+    });
+
+    test("rejects responses that are not collections or counts", async () => {
+        const { fetch } = mock({
+            "https://example.com/odata/People": [200, '{"id":1}'],
+            "https://example.com/odata/People/$count": [200, "many"],
+        });
+
+        await expect(client(fetch).get()).rejects.toThrow(
+            "Expected an OData collection response from https://example.com/odata/People"
+        );
+        await expect(client(fetch).count()).rejects.toThrow(
+            "Expected a count from https://example.com/odata/People/$count but got 'many'"
+        );
+    });
+
+    test("throws ODataError with the details of error responses", async () => {
+        const { fetch } = mock({
+            "https://example.com/odata/People": [
+                400,
+                JSON.stringify({
+                    error: {
+                        code: "BadRequest",
+                        message: "Bad filter",
+                        target: "$filter",
+                        details: [{ code: "Type", message: "Not a number" }],
+                    },
+                }),
+            ],
+            "https://example.com/odata/People/$count": [
+                500,
+                '{"odata.error":{"code":"","message":{"lang":"en","value":"Boom"}}}',
+            ],
+        });
+        const error = await client(fetch)
+            .get()
+            .catch((error) => error);
+
+        expect(error).toBeInstanceOf(ODataError);
+        expect(error).toMatchObject({
+            status: 400,
+            code: "BadRequest",
+            message: "Bad filter",
+            target: "$filter",
+            details: [{ code: "Type", message: "Not a number" }],
+        });
+        await expect(client(fetch).count()).rejects.toThrow("Boom");
+        await expect(client(mock({}).fetch).get()).rejects.toThrow(
+            "Request failed with status 404 Error"
+        );
+    });
+});
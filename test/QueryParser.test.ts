@@ -0,0 +1,105 @@
+import { describe, expect, test } from "bun:test";
+import { QueryBuilder, QueryParser, SearchBuilder } from "../src";
+
+/**
+ * Builds a query with every option, including a DateTimeOffset with a `+hh:mm` offset
+ */
+function fullQuery() {
+    return new QueryBuilder()
+        .filter("created gt 2024-01-01T10:00:00+01:00 and name eq 'a+b&c d''e'")
+        .select("id", "name")
+        .expand("orders", (orders) =>
+            orders.filter("total gt 1").select("id").orderBy("total").top(2)
+        )
+        .orderBy("name", "desc")
+        .top(5)
+        .skip(10)
+        .count()
+        .search("blue OR green")
+        .option("debug", "a+b");
+}
+
+describe("QueryParser", () => {
+    test("parses the output of build()", () => {
+        const query = fullQuery();
+
+        expect(QueryParser.parse(query.build()).build()).toBe(query.build());
+        expect(QueryParser.parse(query.build()).getFilter()?.build()).toBe(
+            "created gt 2024-01-01T09:00:00.000Z and name eq 'a+b&c d''e'"
+        );
+        expect(QueryParser.parse(query.build()).toEntries()).toEqual(
+            query.toEntries()
+        );
+    });
+
+    test("parses the output of toURLSearchParams()", () => {
+        const query = fullQuery();
+
+        expect(
+            QueryParser.parse(query.toURLSearchParams().toString()).toEntries()
+        ).toEqual(query.toEntries());
+    });
+
+    test("parses full URLs and keeps the filter as a builder", () => {
+        const filter = new SearchBuilder()
+            .eq("status", "active")
+            .and()
+            .gt("created", new Date("2024-01-01T09:00:00Z"));
+        const query = QueryParser.parse(
+            `https://api.example.com/People?${new QueryBuilder()
+                .filter(filter)
+                .build()}#top`
+        );
+
+        expect(query.getFilter()?.build()).toBe(filter.build());
+    });
+
+    test("keeps the unencoded sign of a time zone offset", () => {
+        const query = QueryParser.parse(
+            "$filter=created+gt+2024-01-01T10:00:00+01:00+and+name+eq+'a+b'"
+        );
+
+        expect(query.getFilter()?.build()).toBe(
+            "created gt 2024-01-01T09:00:00.000Z and name eq 'a b'"
+        );
+        expect(
+            QueryParser.parse("$filter=at lt 2024-06-30T23:30:00.5-02:30")
+                .getFilter()
+                ?.build()
+        ).toBe("at lt 2024-07-01T02:00:00.500Z");
+    });
+
+    test("reads %2B as a plus sign", () => {
+        expect(
+            QueryParser.parse("$filter=name%20eq%20'a%2Bb'")
+                .getFilter()
+                ?.build()
+        ).toBe("name eq 'a+b'");
+    });
+
+    test("parses nested expand options", () => {
+        const { expand } = QueryParser.parse(
+            "$expand=orders($filter=total gt 100;$top=5),customer"
+        ).toOptions();
+
+        expect(expand.map(({ path }) => path)).toEqual(["orders", "customer"]);
+        expect(expand[0]?.options.build()).toBe(
+            "$filter=total%20gt%20100&$top=5"
+        );
+    });
+
+    test("rejects malformed options", () => {
+        expect(() => QueryParser.parse("$top=-1")).toThrow(
+            "$top requires a non-negative integer, got '-1'"
+        );
+        expect(() => QueryParser.parse("$count=yes")).toThrow(
+            "$count requires 'true' or 'false', got 'yes'"
+        );
+        expect(() => QueryParser.parse("$select=a,(b")).toThrow(
+            "Unbalanced parentheses or quotes in 'a,(b'"
+        );
+        expect(() => QueryParser.parse("$filter=%E0%A4%A")).toThrow(
+            "Invalid percent-encoding in '%E0%A4%A'"
+        );
+    });
+});
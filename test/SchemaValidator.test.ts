@@ -0,0 +1,114 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+import { EdmModel, SchemaValidator } from "../src";
+
+let model: EdmModel;
+
+beforeAll(async () => {
+    model = await EdmModel.fromFile(
+        new URL("./fixtures/metadata.xml", import.meta.url).pathname
+    );
+});
+
+/**
+ * Validates a filter against the Customers entity set
+ */
+function validate(filter: string) {
+    return SchemaValidator.validate(filter, model, "Customers");
+}
+
+describe("SchemaValidator", () => {
+    test("accepts filters that match the model", () => {
+        for (const filter of [
+            "Id eq 1 and Name eq 'x'",
+            "Born lt 2020-01-01",
+            "Address/City eq 'x'",
+            "Level eq Sales.Level'Gold'",
+            "Tags/any(t:contains(t, 'a'))",
+            "Orders/any(o:o/Total gt 10)",
+        ]) {
+            expect(validate(filter)).toEqual([]);
+        }
+    });
+
+    test("reports unknown properties, including inside complex types", () => {
+        expect(validate("Nme eq 'x'")).toEqual([
+            {
+                message: "Unknown property 'Nme' on Sales.Customer",
+                path: "Nme",
+            },
+        ]);
+        expect(validate("Address/Zip eq 1")).toEqual([
+            {
+                message: "Unknown property 'Zip' on Sales.Address",
+                path: "Address/Zip",
+            },
+        ]);
+    });
+
+    test("does not report dynamic properties of open types", () => {
+        expect(validate("Orders/any(o:o/Dynamic eq 1)")).toEqual([]);
+    });
+
+    test("reports navigation through primitives and collections", () => {
+        expect(validate("Age/Foo eq 1")).toEqual([
+            {
+                message: "'Age' is Edm.Int32 and has no property 'Foo'",
+                path: "Age/Foo",
+            },
+        ]);
+        expect(validate("Tags/Foo eq 1")).toEqual([
+            {
+                message:
+                    "'Tags' is a collection; its elements can only be reached inside any() or all()",
+                path: "Tags/Foo",
+            },
+        ]);
+    });
+
+    test("reports comparisons between incompatible types", () => {
+        expect(validate("Age eq 'x'")).toEqual([
+            {
+                message: "Cannot compare 'Age' (Edm.Int32) with Edm.String",
+                path: "Age",
+            },
+        ]);
+        expect(validate("Born eq 'x'")).toEqual([
+            {
+                message: "Cannot compare 'Born' (Edm.Date) with Edm.String",
+                path: "Born",
+            },
+        ]);
+        expect(validate("Tags/any(t:t eq 1)")).toEqual([
+            {
+                message: "Cannot compare 't' (Edm.String) with Edm.Int32",
+                path: "t",
+            },
+        ]);
+    });
+
+    test("reports string functions on other types", () => {
+        expect(validate("contains(Age, '1')")).toEqual([
+            {
+                message:
+                    "contains() expects string but 'Age' (Edm.Int32) was given",
+                path: "Age",
+            },
+        ]);
+    });
+
+    test("reports lambdas over properties that are not collections", () => {
+        expect(validate("Name/any(n:n eq 'x')")).toEqual([
+            {
+                message:
+                    "any() needs a collection but 'Name' (Edm.String) is not one",
+                path: "Name",
+            },
+        ]);
+    });
+
+    test("rejects unknown entity types", () => {
+        expect(() => SchemaValidator.validate("a eq 1", model, "Nope")).toThrow(
+            "Unknown entity type or entity set 'Nope'"
+        );
+    });
+});
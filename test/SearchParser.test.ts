@@ -0,0 +1,106 @@
+import { describe, expect, test } from "bun:test";
+import { FilterSyntaxError, SearchParser } from "../src";
+
+/**
+ * Returns the error a filter fails to parse with
+ */
+function syntaxError(filter: string): FilterSyntaxError {
+    try {
+        SearchParser.parse(filter);
+    } catch (error) {
+        if (error instanceof FilterSyntaxError) {
+            return error;
+        }
+
+        throw error;
+    }
+
+    throw new Error("Expected a syntax error");
+}
+
+describe("SearchParser errors", () => {
+    test("point at the end of an incomplete filter", () => {
+        const error = syntaxError("name eq 'John' and");
+
+        expect(error.message).toBe(
+            "Expected an expression but found end of filter (line 1, column 19)"
+        );
+        expect(error).toMatchObject({ offset: 18, line: 1, column: 19 });
+        expect(error.expected).toEqual([
+            "'not'",
+            "'('",
+            "literal",
+            "identifier",
+        ]);
+        expect(error.snippet).toBe("name eq 'John' and\n                  ^");
+    });
+
+    test("point at an unexpected token", () => {
+        expect(syntaxError("a eq 1 )")).toMatchObject({
+            reason: "Expected end of filter but found ')'",
+            offset: 7,
+            column: 8,
+            found: "')'",
+        });
+        expect(syntaxError("contains(name 'x')")).toMatchObject({
+            reason: "Expected ')' but found 'x'",
+            offset: 14,
+        });
+    });
+
+    test("point at the start of an unterminated string", () => {
+        expect(syntaxError("name eq 'abc")).toMatchObject({
+            reason: "Unterminated string literal",
+            offset: 12,
+        });
+    });
+
+    test("count lines and columns from the last line break", () => {
+        const error = syntaxError("a eq 1 and\nb eq #");
+
+        expect(error).toMatchObject({
+            reason: "Unexpected character '#'",
+            offset: 16,
+            line: 2,
+            column: 6,
+        });
+        expect(error.snippet).toBe("b eq #\n     ^");
+    });
+});
+
+describe("SearchParser.tryParse", () => {
+    test("returns the builder of a valid filter", () => {
+        const { builder, diagnostics } = SearchParser.tryParse("a eq 1");
+
+        expect(builder?.build()).toBe("a eq 1");
+        expect(diagnostics).toEqual([]);
+    });
+
+    test("returns diagnostics instead of throwing", () => {
+        const { builder, diagnostics } =
+            SearchParser.tryParse("(status eq 'x'");
+
+        expect(builder).toBeUndefined();
+        expect(diagnostics).toEqual([
+            {
+                message: "Expected ')' but found end of filter",
+                offset: 14,
+                line: 1,
+                column: 15,
+                found: "end of filter",
+                expected: [
+                    "'mul'",
+                    "'div'",
+                    "'divby'",
+                    "'mod'",
+                    "'add'",
+                    "'sub'",
+                    "'and'",
+                    "'or'",
+                    "')'",
+                ],
+                snippet: "(status eq 'x'\n              ^",
+            },
+        ]);
+    });
+});
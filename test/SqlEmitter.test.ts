@@ -0,0 +1,178 @@
+import { Database } from "bun:sqlite";
+import { describe, expect, test } from "bun:test";
+import { compile, SearchBuilder, SqlEmitter } from "../src";
+
+type Row = {
+    id: number;
+    name: string | null;
+    age: number | null;
+    active: boolean | null;
+};
+
+const ROWS: Row[] = [
+    { id: 1, name: "John", age: 35, active: true },
+    { id: 2, name: null, age: 20, active: false },
+    { id: 3, name: "Ann", age: null, active: null },
+    { id: 4, name: null, age: null, active: null },
+    { id: 5, name: "Joh", age: 45, active: true },
+];
+
+describe("SqlEmitter", () => {
+    test("binds every literal as a parameter", () => {
+        expect(
+            SqlEmitter.emit("name eq 'O''Brien' and age gt 5", {
+                columns: { name: "u.name", age: "u.age" },
+            })
+        ).toEqual({
+            sql: "u.name = $1 AND u.age > $2",
+            params: ["O'Brien", 5],
+        });
+    });
+
+    test("writes placeholders of the dialect", () => {
+        expect(
+            SqlEmitter.emit("status in ('a', 'b')", { dialect: "sqlite" })
+        ).toEqual({ sql: '"status" IN (?, ?)', params: ["a", "b"] });
+    });
+
+    test("escapes LIKE wildcards in search texts", () => {
+        expect(SqlEmitter.emit("contains(name, '50%_\\')")).toEqual({
+            sql: `"name" LIKE $1 ESCAPE '\\'`,
+            params: ["%50\\%\\_\\\\%"],
+        });
+    });
+
+    test("keeps dollar signs of search texts as they are", () => {
+        expect(SqlEmitter.emit("contains(name, '$&x')").params).toEqual([
+            "%$&x%",
+        ]);
+        expect(SqlEmitter.emit("startswith(name, 'a$$b')").params).toEqual([
+            "a$$b%",
+        ]);
+    });
+
+    test("rejects fields that are not mapped", () => {
+        expect(() =>
+            SqlEmitter.emit("secret eq 1", { columns: { name: "u.name" } })
+        ).toThrow("Unknown field 'secret'");
+        expect(() =>
+            SqlEmitter.emit("name eq 1", {
+                columns: (path) => (path === "id" ? "u.id" : undefined),
+            })
+        ).toThrow("Unknown field 'name'");
+    });
+
+    test("rejects paths that are not simple names by default", () => {
+        expect(() => SqlEmitter.emit("address/city eq 'x'")).toThrow(
+            "Unknown field 'address/city'"
+        );
+    });
+
+    test("rejects collections that are not configured", () => {
+        expect(() => SqlEmitter.emit("orders/any(o:o/total gt 1)")).toThrow(
+            "Unknown collection 'orders'"
+        );
+    });
+
+    test("rejects unbound parameters", () => {
+        expect(() => SqlEmitter.emit("price gt @max")).toThrow(
+            "Parameter @max has no value"
+        );
+    });
+
+    test("writes comparisons inside 'not' so they are false for null columns", () => {
+        expect(SqlEmitter.emit("not (status eq 'a' or age gt 5)")).toEqual({
+            sql: 'NOT ("status" IS NOT DISTINCT FROM $1 OR COALESCE("age" > $2, FALSE))',
+            params: ["a", 5],
+        });
+        expect(SqlEmitter.emit(new SearchBuilder().not().eq("a", 1))).toEqual({
+            sql: 'NOT ("a" IS NOT DISTINCT FROM $1)',
+            params: [1],
+        });
+    });
+
+    test("parenthesizes conditions compared with values", () => {
+        expect(SqlEmitter.emit("not (a eq 1) eq true")).toEqual({
+            sql: '(NOT ("a" IS NOT DISTINCT FROM $1)) = $2',
+            params: [1, true],
+        });
+        expect(SqlEmitter.emit("(age gt 30) eq false").sql).toBe(
+            '(COALESCE("age" > $1, FALSE)) = $2'
+        );
+    });
+
+    test("writes comparisons with null as IS NULL", () => {
+        expect(SqlEmitter.emit("name eq null or name ne null").sql).toBe(
+            '"name" IS NULL OR "name" IS NOT NULL'
+        );
+    });
+
+    test("writes lambdas as EXISTS subqueries", () => {
+        expect(
+            SqlEmitter.emit("tags/any(t:t eq 'vip')", {
+                dialect: "sqlite",
+                collections: {
+                    tags: {
+                        table: "user_tags",
+                        join: "user_tags.user_id = users.id",
+                        value: "user_tags.tag",
+                    },
+                },
+            })
+        ).toEqual({
+            sql: "EXISTS (SELECT 1 FROM user_tags WHERE user_tags.user_id = users.id AND (user_tags.tag = ?))",
+            params: ["vip"],
+        });
+    });
+
+    test("gives TRUE for an empty filter", () => {
+        expect(SqlEmitter.emit("")).toEqual({ sql: "TRUE", params: [] });
+    });
+});
+
+describe("SqlEmitter and the in-memory evaluator", () => {
+    const db = new Database(":memory:");
+
+    db.run(
+        "CREATE TABLE people (id INTEGER, name TEXT, age INTEGER, active INTEGER)"
+    );
+
+    for (const { id, name, age, active } of ROWS) {
+        db.run("INSERT INTO people VALUES (?, ?, ?, ?)", [
+            id,
+            name,
+            age,
+            active === null ? null : Number(active),
+        ]);
+    }
+
+    test.each([
+        "not contains(name, 'oh')",
+        "not (age gt 30)",
+        "not (name eq 'John')",
+        "not (age lt 30 or contains(name, 'A'))",
+        "not (name in ('John', 'Ann'))",
+        "not (name in ('John', null))",
+        "not (not (age gt 30))",
+        "not (length(name) gt 3)",
+        "not (age add 1 gt 30)",
+        "not (name eq null)",
+        "not active",
+        "not active eq true",
+        "(age gt 30) eq false",
+        "name ne 'John'",
+        "startswith(name, 'J') or not (age ge 40)",
+    ])("agree on null columns for %s", (filter) => {
+        const { sql, params } = SqlEmitter.emit(filter, { dialect: "sqlite" });
+        const selected = db
+            .query<{ id: number }, any[]>(
+                `SELECT id FROM people WHERE ${sql} ORDER BY id`
+            )
+            .all(...params)
+            .map(({ id }) => id);
+
+        expect(selected).toEqual(
+            ROWS.filter(compile<Row>(filter)).map(({ id }) => id)
+        );
+    });
+});
@@ -0,0 +1,157 @@
+import { describe, expect, test } from "bun:test";
+import { SearchBuilder, SearchParser, type FilterNode } from "../src";
+
+describe("SearchBuilder.and and SearchBuilder.or", () => {
+    test("keep each filter intact", () => {
+        const userFilter = SearchParser.parse(
+            "status eq 'open' or status eq 'new'"
+        );
+        const tenant = new SearchBuilder().eq("tenantId", 42);
+
+        expect(SearchBuilder.and(userFilter, tenant).build()).toBe(
+            "(status eq 'open' or status eq 'new') and tenantId eq 42"
+        );
+        expect(
+            SearchBuilder.or(
+                new SearchBuilder().eq("owner", "me").and().eq("draft", true),
+                new SearchBuilder().eq("draft", false)
+            ).build()
+        ).toBe("owner eq 'me' and draft eq true or draft eq false");
+        expect(
+            SearchBuilder.or(
+                SearchParser.parse("a eq 1 or b eq 2"),
+                SearchParser.parse("c eq 3")
+            ).build()
+        ).toBe("a eq 1 or b eq 2 or c eq 3");
+    });
+
+    test("skip empty builders and do not change their arguments", () => {
+        const a = new SearchBuilder().eq("a", 1);
+
+        expect(SearchBuilder.and(new SearchBuilder(), a).build()).toBe(
+            "a eq 1"
+        );
+        expect(SearchBuilder.or().build()).toBe("");
+        expect(SearchBuilder.and(a, a).build()).toBe("a eq 1 and a eq 1");
+        expect(a.build()).toBe("a eq 1");
+    });
+});
+
+describe("SearchBuilder.negate", () => {
+    test("wraps the whole filter in not", () => {
+        expect(
+            SearchParser.parse("status eq 'open' or priority gt 2")
+                .negate()
+                .build()
+        ).toBe("not (status eq 'open' or priority gt 2)");
+        expect(SearchParser.parse("a eq 1").negate().negate().build()).toBe(
+            "not (not (a eq 1))"
+        );
+    });
+
+    test("gives false for an empty builder", () => {
+        expect(new SearchBuilder().negate().build()).toBe("false");
+    });
+});
+
+describe("SearchBuilder.removeWhere", () => {
+    test("removes every condition that reads a field", () => {
+        expect(
+            SearchParser.parse(
+                "tenantId eq 7 and (status eq 'open' or contains(tenantId, '1'))"
+            )
+                .removeWhere("tenantId")
+                .build()
+        ).toBe("status eq 'open'");
+        expect(
+            SearchParser.parse(
+                "address/city eq 'x' and not (address eq null) and addressee eq 'y'"
+            )
+                .removeWhere("address")
+                .build()
+        ).toBe("addressee eq 'y'");
+    });
+
+    test("does not match lambda range variables", () => {
+        expect(
+            SearchParser.parse("tags/any(t:t eq 'a') and t eq 1")
+                .removeWhere("t")
+                .build()
+        ).toBe("tags/any(t:t eq 'a')");
+        expect(
+            SearchParser.parse("tags/any(t:t eq 'a') and t eq 1")
+                .removeWhere("tags")
+                .build()
+        ).toBe("t eq 1");
+    });
+
+    test("accepts a callback that tests each condition", () => {
+        expect(
+            SearchParser.parse("a eq 1 and b gt 2 or c eq 3")
+                .removeWhere(
+                    (condition) =>
+                        condition.type === "comparison" &&
+                        condition.operator === "eq"
+                )
+                .build()
+        ).toBe("b gt 2");
+    });
+
+    test("leaves an empty builder when every condition is removed", () => {
+        expect(
+            SearchParser.parse("a eq 1 or not (a gt 2)")
+                .removeWhere("a")
+                .build()
+        ).toBe("");
+    });
+});
+
+describe("SearchBuilder.replaceCondition", () => {
+    test("replaces the conditions on a field", () => {
+        expect(
+            SearchParser.parse("tenantId eq 7 and status eq 'open'")
+                .replaceCondition(
+                    "tenantId",
+                    new SearchBuilder().eq("tenantId", 42)
+                )
+                .build()
+        ).toBe("tenantId eq 42 and status eq 'open'");
+    });
+
+    test("keeps a replacement with its own operators intact", () => {
+        expect(
+            SearchParser.parse("a eq 1 and b eq 2")
+                .replaceCondition("a", SearchParser.parse("a eq 3 or a eq 4"))
+                .build()
+        ).toBe("(a eq 3 or a eq 4) and b eq 2");
+    });
+
+    test("calls a replacement callback for each matching condition", () => {
+        const seen: FilterNode[] = [];
+
+        expect(
+            SearchParser.parse("a gt 1 or a lt 0 or b eq 2")
+                .replaceCondition("a", (condition) => {
+                    seen.push(condition);
+
+                    return seen.length === 1
+                        ? SearchParser.parseAST("a ge 1")
+                        : undefined;
+                })
+                .build()
+        ).toBe("a ge 1 or b eq 2");
+        expect(seen).toHaveLength(2);
+    });
+
+    test("changes the builder in place, but not its clones", () => {
+        const original = SearchParser.parse("a eq 1 and b eq 2");
+        const copy = original.clone().removeWhere("a");
+
+        expect(copy.build()).toBe("b eq 2");
+        expect(original.build()).toBe("a eq 1 and b eq 2");
+        expect(
+            original.replaceCondition("b", SearchParser.parse("c eq 3"))
+        ).toBe(original);
+        expect(original.build()).toBe("a eq 1 and c eq 3");
+    });
+});
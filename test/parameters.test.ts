@@ -0,0 +1,136 @@
+import { describe, expect, test } from "bun:test";
+import {
+    param,
+    QueryBuilder,
+    QueryParser,
+    SearchBuilder,
+    SearchParser,
+    TypedLiteral,
+} from "../src";
+
+/**
+ * The template of the README example
+ */
+function template() {
+    return new SearchBuilder()
+        .eq("status", param("s"))
+        .and()
+        .gt("total", param("min"));
+}
+
+describe("param", () => {
+    test("writes placeholders as parameter aliases", () => {
+        expect(template().build()).toBe("status eq @s and total gt @min");
+        expect(param("s")).toEqual({ type: "parameter", name: "s" });
+    });
+
+    test("rejects names that are not identifiers", () => {
+        expect(() => param("1st")).toThrow("Invalid parameter name '1st'");
+        expect(() => param("a-b")).toThrow("Invalid parameter name 'a-b'");
+    });
+
+    test("is read back by the parser", () => {
+        const parsed = SearchParser.parse("status eq @s and total gt @min");
+
+        expect(parsed.toAST()).toEqual(template().toAST());
+        expect(() => SearchParser.parse("a eq @")).toThrow(
+            "Invalid parameter alias '@'"
+        );
+    });
+});
+
+describe("SearchBuilder.parameters", () => {
+    test("lists names in order of first use", () => {
+        expect(template().parameters()).toEqual(["s", "min"]);
+        expect(
+            SearchParser.parse(
+                "status eq @s and (total gt @min or @s eq 'vip')"
+            ).parameters()
+        ).toEqual(["s", "min"]);
+        expect(
+            SearchParser.parse("tags/any(t:t eq @tag)").parameters()
+        ).toEqual(["tag"]);
+        expect(new SearchBuilder().parameters()).toEqual([]);
+    });
+});
+
+describe("SearchBuilder.bind", () => {
+    test("returns a copy with the values filled in", () => {
+        const filter = template();
+
+        expect(filter.bind({ s: "active", min: 100 }).build()).toBe(
+            "status eq 'active' and total gt 100"
+        );
+        expect(filter.build()).toBe("status eq @s and total gt @min");
+    });
+
+    test("writes every kind of value as a literal", () => {
+        expect(
+            SearchParser.parse("a eq @a and b eq @b and c eq @c and d eq @d")
+                .bind({
+                    a: "it's",
+                    b: null,
+                    c: new Date("2024-01-01T00:00:00Z"),
+                    d: TypedLiteral.guid(
+                        "01234567-89ab-cdef-0123-456789abcdef"
+                    ),
+                })
+                .build()
+        ).toBe(
+            "a eq 'it''s' and b eq null and c eq 2024-01-01T00:00:00.000Z and d eq 01234567-89ab-cdef-0123-456789abcdef"
+        );
+    });
+
+    test("names every missing and unexpected binding", () => {
+        expect(() => template().bind({ s: "active" })).toThrow(
+            "Invalid parameter bindings: missing values for @min"
+        );
+        expect(() =>
+            template().bind({ s: "active", state: "x", other: 1 })
+        ).toThrow(
+            "Invalid parameter bindings: missing values for @min; unexpected bindings for state, other"
+        );
+    });
+
+    test("binds the same value to every use of a parameter", () => {
+        expect(
+            SearchParser.parse("a eq @x or b eq @x").bind({ x: 1 }).build()
+        ).toBe("a eq 1 or b eq 1");
+    });
+});
+
+describe("aliases", () => {
+    test("gives the alias options of a builder", () => {
+        expect(template().aliases({ s: "active", min: 100 })).toEqual({
+            "@s": "'active'",
+            "@min": "100",
+        });
+        expect(() => template().aliases({ s: "active" })).toThrow(
+            "missing values for @min"
+        );
+    });
+
+    test("sends the values as separate query options", () => {
+        const query = new QueryBuilder()
+            .filter(template())
+            .aliases({ s: "active", min: 100 });
+
+        expect(query.build()).toBe(
+            "$filter=status%20eq%20@s%20and%20total%20gt%20@min&@s='active'&@min=100"
+        );
+
+        const parsed = QueryParser.parse(query.build());
+
+        expect(parsed.toOptions().custom).toEqual({
+            "@s": "'active'",
+            "@min": "100",
+        });
+        expect(parsed.getFilter()?.parameters()).toEqual(["s", "min"]);
+    });
+
+    test("rejects alias values for a query without a filter", () => {
+        expect(() => new QueryBuilder().aliases({ s: "x" })).toThrow(
+            "Invalid parameter bindings: unexpected bindings for s"
+        );
+    });
+});
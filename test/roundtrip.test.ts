@@ -0,0 +1,344 @@
+import { describe, expect, test } from "bun:test";
+import {
+    SearchBuilder,
+    SearchParser,
+    TypedLiteral,
+    type FilterNode,
+    type Value,
+} from "../src";
+
+/**
+ * A seeded pseudo-random generator (mulberry32), so failures can be reproduced
+ */
+function random(seed: number) {
+    return () => {
+        seed = (seed + 0x6d2b79f5) | 0;
+
+        let t = Math.imul(seed ^ (seed >>> 15), seed | 1);
+
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Generates random expression trees of everything SearchBuilder can emit
+ */
+class TreeGenerator {
+    private readonly variables: string[] = [];
+
+    private nextVariable = 0;
+
+    constructor(private readonly next: () => number) {}
+
+    pick<T>(items: readonly T[]): T {
+        return items[Math.floor(this.next() * items.length)] as T;
+    }
+
+    value(): Value {
+        return this.pick<() => Value>([
+            () =>
+                this.pick([
+                    "",
+                    "a",
+                    "O'Neil",
+                    "it''s",
+                    "x y",
+                    "123",
+                    "1.5",
+                    "true",
+                    "null",
+                    "2024-01-01",
+                    "é中",
+                    'a"b',
+                    "\\",
+                    "(",
+                    "@p",
+                ]),
+            () =>
+                this.pick([
+                    0,
+                    -0,
+                    1,
+                    -1,
+                    1.5,
+                    -2.25,
+                    0.1 + 0.2,
+                    1e21,
+                    1e-7,
+                    2 ** 53,
+                    5e-324,
+                    Infinity,
+                    -Infinity,
+                    NaN,
+                ]),
+            () => this.next() < 0.5,
+            () => null,
+            () => new Date(Date.UTC(2024, 0, 1, 10, 20, 30, this.pick([0, 5]))),
+            () => TypedLiteral.guid("01234567-89ab-cdef-0123-456789abcdef"),
+            () => TypedLiteral.date("2024-02-29"),
+            () => TypedLiteral.timeOfDay(this.pick(["13:20", "13:20:00.5"])),
+            () => TypedLiteral.duration(this.pick(["P1DT2H", "-PT0.5S"])),
+            () =>
+                TypedLiteral.decimal(
+                    this.pick([
+                        "1.50",
+                        "3",
+                        "-0.0",
+                        "2e5",
+                        "12345678901234567890.12",
+                    ])
+                ),
+            () =>
+                TypedLiteral.enum(
+                    "Sales.Color",
+                    this.pick(["Red", "Red,Blue"])
+                ),
+            () => TypedLiteral.binary("AQID"),
+        ])();
+    }
+
+    property(): FilterNode {
+        const variable = this.variables[this.variables.length - 1];
+
+        return {
+            type: "property",
+            path:
+                variable && this.next() < 0.5
+                    ? `${variable}/${this.pick(["x", "y"])}`
+                    : this.pick(["a", "b/c", "Sales.Vip/level"]),
+        };
+    }
+
+    operand(depth: number): FilterNode {
+        const r = this.next();
+
+        if (depth <= 0 || r < 0.35) {
+            return { type: "literal", value: this.value() };
+        }
+
+        if (r < 0.55) {
+            return this.property();
+        }
+
+        if (r < 0.6) {
+            return { type: "parameter", name: this.pick(["p", "q"]) };
+        }
+
+        if (r < 0.8) {
+            return {
+                type: "arithmetic",
+                operator: this.pick([
+                    "add",
+                    "sub",
+                    "mul",
+                    "div",
+                    "divby",
+                    "mod",
+                ] as const),
+                left: this.operand(depth - 1),
+                right: this.operand(depth - 1),
+            };
+        }
+
+        return this.pick<() => FilterNode>([
+            () => ({
+                type: "function",
+                name: this.pick(["tolower", "trim", "length", "year", "round"]),
+                args: [this.operand(depth - 1)],
+            }),
+            () => ({
+                type: "function",
+                name: this.pick(["substring", "concat", "indexof"]),
+                args: [this.operand(depth - 1), this.operand(depth - 1)],
+            }),
+            () => ({ type: "function", name: "now", args: [] }),
+            () => ({
+                type: "function",
+                name: "cast",
+                args: [
+                    this.operand(depth - 1),
+                    { type: "property", path: "Edm.String" },
+                ],
+            }),
+        ])();
+    }
+
+    condition(depth: number): FilterNode {
+        const r = this.next();
+
+        if (depth <= 0 || r < 0.3) {
+            return this.pick<() => FilterNode>([
+                () => ({
+                    type: "comparison",
+                    operator: this.pick([
+                        "eq",
+                        "ne",
+                        "gt",
+                        "ge",
+                        "lt",
+                        "le",
+                    ] as const),
+                    left: this.operand(2),
+                    right: this.operand(2),
+                }),
+                () => ({
+                    type: "in",
+                    left: this.property(),
+                    values: Array.from(
+                        { length: 1 + Math.floor(this.next() * 3) },
+                        () => this.operand(0)
+                    ),
+                }),
+                () => ({
+                    type: "function",
+                    name: this.pick(["contains", "startswith", "endswith"]),
+                    args: [this.operand(1), this.operand(1)],
+                }),
+                // Collection literals are JSON, so their items are plain values
+                () => ({
+                    type: "function",
+                    name: "hassubset",
+                    args: [
+                        this.property(),
+                        {
+                            type: "collection",
+                            items: [
+                                {
+                                    type: "literal",
+                                    value: this.pick(["a", 1, true, null, 1.5]),
+                                },
+                            ],
+                        },
+                    ],
+                }),
+                () => this.property(),
+                () => ({ type: "literal", value: this.next() < 0.5 }),
+                () => ({
+                    type: "lambda",
+                    operator: "any",
+                    collection: "tags",
+                    variable: "",
+                }),
+            ])();
+        }
+
+        if (r < 0.6) {
+            return {
+                type: "logical",
+                operator: this.pick(["and", "or"] as const),
+                left: this.condition(depth - 1),
+                right: this.condition(depth - 1),
+            };
+        }
+
+        if (r < 0.75) {
+            return { type: "not", expression: this.condition(depth - 1) };
+        }
+
+        if (r < 0.85) {
+            return { type: "group", expression: this.condition(depth - 1) };
+        }
+
+        const variable = `v${this.nextVariable++}`;
+
+        this.variables.push(variable);
+
+        try {
+            return {
+                type: "lambda",
+                operator: this.pick(["any", "all"] as const),
+                collection: this.pick(["tags", "b/items"]),
+                variable,
+                expression: this.condition(depth - 1),
+            };
+        } finally {
+            this.variables.pop();
+        }
+    }
+}
+
+/**
+ * Removes the groups from a tree, which the builder only writes where precedence needs them,
+ * and marks negative zero, which toEqual() does not tell from zero
+ */
+function comparable(value: unknown): unknown {
+    if (Object.is(value, -0)) {
+        return "-0";
+    }
+
+    if (Array.isArray(value)) {
+        return value.map(comparable);
+    }
+
+    if (
+        typeof value !== "object" ||
+        value === null ||
+        value instanceof Date ||
+        value instanceof TypedLiteral
+    ) {
+        return value;
+    }
+
+    const node = value as Record<string, unknown>;
+
+    if (node.type === "group") {
+        return comparable(node.expression);
+    }
+
+    return Object.fromEntries(
+        Object.entries(node).map(([key, child]) => [key, comparable(child)])
+    );
+}
+
+describe("round trip between SearchBuilder and SearchParser", () => {
+    test.each([1, 2, 3, 4, 5])(
+        "parse(build(t)) equals t for random trees (seed %d)",
+        (seed) => {
+            const generator = new TreeGenerator(random(seed));
+
+            for (let index = 0; index < 400; index++) {
+                const tree = generator.condition(4);
+                const text = SearchBuilder.fromAST(tree).build();
+                const parsed = SearchParser.parseAST(text);
+
+                expect({ text, tree: comparable(parsed) }).toEqual({
+                    text,
+                    tree: comparable(tree),
+                });
+                expect(
+                    SearchBuilder.fromAST(parsed as FilterNode).build()
+                ).toBe(text);
+            }
+        }
+    );
+
+    test("keeps the type of values", () => {
+        const builder = new SearchBuilder()
+            .eq("a", "123")
+            .and()
+            .eq("b", TypedLiteral.decimal("1.50"))
+            .and()
+            .eq("c", new Date("2024-01-01T00:00:00Z"))
+            .and()
+            .not()
+            .eq("d", -0);
+        const values: unknown[] = [];
+
+        SearchParser.parse(builder.build()).visit({
+            literal: (node) => void values.push(node.value),
+        });
+
+        expect(values).toEqual([
+            "123",
+            TypedLiteral.decimal("1.50"),
+            new Date("2024-01-01T00:00:00Z"),
+            -0,
+        ]);
+        expect(Object.is(values[3], -0)).toBe(true);
+        expect(builder.build()).toBe(
+            "a eq '123' and b eq 1.50M and c eq 2024-01-01T00:00:00.000Z and not (d eq -0)"
+        );
+    });
+});
@@ -0,0 +1,146 @@
+import { describe, expect, test } from "bun:test";
+import { SearchBuilder } from "../src";
+
+describe("SearchBuilder.validate", () => {
+    test("reports the doc comment example", () => {
+        expect(
+            new SearchBuilder()
+                .openGroup()
+                .eq("status", "x")
+                .eq("type", "y")
+                .and()
+                .validate()
+        ).toEqual([
+            {
+                message: "openGroup() without a matching closeGroup()",
+                position: 0,
+            },
+            {
+                message:
+                    "Missing 'and' or 'or' between status eq 'x' and type eq 'y'",
+                position: 2,
+            },
+            {
+                message: "Filter ends with 'and' after type eq 'y'",
+                position: 3,
+            },
+        ]);
+    });
+
+    test("returns no issues for a valid or empty builder", () => {
+        expect(new SearchBuilder().validate()).toEqual([]);
+        expect(
+            new SearchBuilder()
+                .not()
+                .openGroup()
+                .eq("a", 1)
+                .or()
+                .eq("b", 2)
+                .closeGroup()
+                .validate()
+        ).toEqual([]);
+    });
+
+    test("reports dangling operators", () => {
+        expect(new SearchBuilder().and().eq("a", 1).validate()).toEqual([
+            { message: "Filter starts with 'and'", position: 0 },
+        ]);
+        expect(
+            new SearchBuilder().eq("a", 1).and().or().eq("b", 2).validate()
+        ).toEqual([
+            {
+                message: "'or' follows 'and' without a condition in between",
+                position: 2,
+            },
+        ]);
+        expect(new SearchBuilder().eq("a", 1).or().not().validate()).toEqual([
+            { message: "Filter ends with 'not'", position: 2 },
+        ]);
+    });
+
+    test("reports unbalanced and empty groups", () => {
+        expect(new SearchBuilder().eq("a", 1).closeGroup().validate()).toEqual([
+            {
+                message: "closeGroup() without a matching openGroup()",
+                position: 1,
+            },
+        ]);
+        expect(new SearchBuilder().openGroup().closeGroup().validate()).toEqual(
+            [{ message: "Empty group", position: 1 }]
+        );
+        expect(
+            new SearchBuilder()
+                .openGroup()
+                .or()
+                .eq("a", 1)
+                .and()
+                .closeGroup()
+                .validate()
+        ).toEqual([
+            { message: "Group starts with 'or'", position: 1 },
+            { message: "Group ends with 'and'", position: 4 },
+        ]);
+    });
+
+    test("reports 'in' without values", () => {
+        expect(new SearchBuilder().in("status", []).validate()).toEqual([
+            { message: "'in' on status has no values", position: 0 },
+        ]);
+    });
+
+    test("lists every issue in the error of build()", () => {
+        expect(() =>
+            new SearchBuilder().and().eq("a", 1).eq("b", 2).build()
+        ).toThrow(
+            "Invalid filter: Filter starts with 'and'; Missing 'and' or 'or' between a eq 1 and b eq 2"
+        );
+    });
+});
+
+describe("implicitAnd", () => {
+    test("joins adjacent conditions with 'and'", () => {
+        expect(
+            new SearchBuilder({ implicitAnd: true })
+                .eq("status", "x")
+                .eq("type", "y")
+                .build()
+        ).toBe("status eq 'x' and type eq 'y'");
+    });
+
+    test("joins groups and negations, and keeps explicit operators", () => {
+        const builder = new SearchBuilder({ implicitAnd: true })
+            .eq("a", 1)
+            .openGroup()
+            .eq("b", 2)
+            .or()
+            .eq("c", 3)
+            .closeGroup()
+            .not()
+            .eq("d", 4)
+            .or()
+            .eq("e", 5);
+
+        expect(builder.validate()).toEqual([]);
+        expect(builder.build()).toBe(
+            "a eq 1 and (b eq 2 or c eq 3) and not (d eq 4) or e eq 5"
+        );
+    });
+
+    test("does not hide dangling operators", () => {
+        expect(
+            new SearchBuilder({ implicitAnd: true }).eq("a", 1).or().validate()
+        ).toEqual([
+            { message: "Filter ends with 'or' after a eq 1", position: 1 },
+        ]);
+    });
+
+    test("is kept by clones", () => {
+        expect(
+            new SearchBuilder({ implicitAnd: true })
+                .eq("a", 1)
+                .clone()
+                .eq("b", 2)
+                .build()
+        ).toBe("a eq 1 and b eq 2");
+    });
+});